@@ -3,20 +3,39 @@
 import { useState } from 'react'
 import { Loader2, AlertTriangle } from 'lucide-react'
 import { useLoans } from '@/lib/hooks/useLoans'
+import { useMembers } from '@/lib/hooks/useMembers'
 import { LoanCard } from '@/components/LoanCard'
 import { DashboardStats } from '@/components/DashboardStats'
 import { PaymentChart } from '@/components/PaymentChart'
 import { RecentActivity } from '@/components/RecentActivity'
+import { PayoffPlanner } from '@/components/PayoffPlanner'
+import { CsvImport } from '@/components/CsvImport'
+import { LedgerExport } from '@/components/LedgerExport'
 import AiLoanAssistantPro from '@/components/AiLoanChat'
+import type { PaymentRecorded } from '../index'
 // Test
 
 export default function Dashboard() {
-  const { loans, loading, error, refetch } = useLoans()
+  const { loans, rates, loading, error, refetch, applyPayment } = useLoans()
+  const { members } = useMembers()
   const [showPaidOff, setShowPaidOff] = useState(false)
+  const [showArchived, setShowArchived] = useState(false)
   const handleLoanUpdate = () => refetch()
+  const handlePaymentRecorded = (recorded: PaymentRecorded) => applyPayment(recorded)
 
-  const paidOffCount = loans.filter(loan => loan.is_paid_off).length
-  const visibleLoans = showPaidOff ? loans : loans.filter(loan => !loan.is_paid_off)
+  // Archived loans only appear in the grid (behind their toggle), never in stats or charts
+  const activeLoans = loans.filter(loan => !loan.is_archived)
+  const archivedLoans = loans.filter(loan => loan.is_archived)
+  const memberNames = members.map(member => member.name)
+  const householdName = memberNames.length > 1
+    ? `${memberNames.slice(0, -1).join(', ')} & ${memberNames[memberNames.length - 1]}`
+    : memberNames[0]
+
+  const paidOffCount = activeLoans.filter(loan => loan.is_paid_off).length
+  const visibleLoans = [
+    ...(showPaidOff ? activeLoans : activeLoans.filter(loan => !loan.is_paid_off)),
+    ...(showArchived ? archivedLoans : []),
+  ]
 
   if (loading) {
     return (
@@ -60,38 +79,58 @@ export default function Dashboard() {
         <div className="mb-8 flex items-center justify-between gap-3">
           <div>
             <h1 className="text-4xl font-bold text-gray-900 mb-2">
-              Steven &amp; Katerina&apos;s Loan Tracker
+              {householdName ? `${householdName}'s Loan Tracker` : 'Loan Tracker'}
             </h1>
             <p className="text-gray-600">
               Track your loans and payments with an AI assistant
             </p>
           </div>
+          <div className="flex items-center gap-2">
+            <LedgerExport loans={loans} members={members} />
+            <CsvImport loans={loans} members={members} onImported={handleLoanUpdate} />
+          </div>
         </div>
 
         {/* Dashboard Stats */}
-        <DashboardStats loans={loans} />
+        <DashboardStats loans={activeLoans} members={members} rates={rates} />
 
         {/* Charts Section */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
-          <PaymentChart loans={loans} />
-          <RecentActivity loans={loans} />
+          <PaymentChart loans={activeLoans} members={members} rates={rates} />
+          <RecentActivity loans={activeLoans} members={members} />
         </div>
 
+        {/* Payoff Planner */}
+        <PayoffPlanner loans={activeLoans} rates={rates} />
+
         {/* Loans Grid */}
         <div className="mb-8">
           <div className="mb-6 flex items-center justify-between">
             <h2 className="text-2xl font-semibold text-gray-900">Your Loans</h2>
-            {paidOffCount > 0 && (
-              <button
-                type="button"
-                className="text-sm font-medium text-blue-600 hover:text-blue-800"
-                onClick={() => setShowPaidOff(prev => !prev)}
-              >
-                {showPaidOff
-                  ? 'Hide paid off loans'
-                  : `Show ${paidOffCount} paid off loan${paidOffCount === 1 ? '' : 's'}`}
-              </button>
-            )}
+            <div className="flex items-center gap-4">
+              {paidOffCount > 0 && (
+                <button
+                  type="button"
+                  className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                  onClick={() => setShowPaidOff(prev => !prev)}
+                >
+                  {showPaidOff
+                    ? 'Hide paid off loans'
+                    : `Show ${paidOffCount} paid off loan${paidOffCount === 1 ? '' : 's'}`}
+                </button>
+              )}
+              {archivedLoans.length > 0 && (
+                <button
+                  type="button"
+                  className="text-sm font-medium text-gray-600 hover:text-gray-800"
+                  onClick={() => setShowArchived(prev => !prev)}
+                >
+                  {showArchived
+                    ? 'Hide archived'
+                    : `Show archived (${archivedLoans.length})`}
+                </button>
+              )}
+            </div>
           </div>
 
           {loans.length === 0 ? (
@@ -100,12 +139,12 @@ export default function Dashboard() {
             </div>
           ) : visibleLoans.length === 0 ? (
             <div className="bg-white rounded-xl p-8 text-center shadow-lg">
-              <p className="text-gray-500">All loans are paid off. Use the toggle above to view them.</p>
+              <p className="text-gray-500">All loans are paid off or archived. Use the toggles above to view them.</p>
             </div>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
               {visibleLoans.map((loan) => (
-                <LoanCard key={loan.id} loan={loan} />
+                <LoanCard key={loan.id} loan={loan} members={members} onChange={handleLoanUpdate} />
               ))}
             </div>
           )}
@@ -113,7 +152,7 @@ export default function Dashboard() {
       </div>
 
       {/* Floating AI assistant */}
-      <AiLoanAssistantPro onLoanUpdate={handleLoanUpdate} />
+      <AiLoanAssistantPro members={members} onLoanUpdate={handleLoanUpdate} onPaymentRecorded={handlePaymentRecorded} />
     </div>
   )
 }
@@ -1,7 +1,7 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import { callLoanManager } from "@/lib/loan-manager";
-import { deriveLoan as deriveLoanShared, type Loan as LoanRow } from "../index";
-import { MessageCircle, X, Send, Loader2, CheckCircle, AlertCircle, Bot, Wallet, LineChart, Coins } from "lucide-react";
+import { BASE_CURRENCY, currencyConverter, deriveLoan as deriveLoanShared, describeAutopayRule, EdgeFunctionError, inBaseCurrency, newIdempotencyKey, simulateWhatIf, PROJECTION_MODEL_LABELS, type Loan as LoanRow, type AddPaymentOk, type AutopayRule, type CurrencyOptions, type DeleteAutopayRuleOk, type Err, type ExchangeRate, type GetExchangeRatesOk, type GetLoansOk, type Member, type PaymentRecorded, type ProjectionModel, type SplitPaymentOk, type UpsertAutopayRuleOk, type WhatIfSimulation } from "../index";
+import { MessageCircle, X, Send, Loader2, CheckCircle, AlertCircle, Bot, Wallet, LineChart, Coins, Calculator } from "lucide-react";
 import {
     PieChart,
     Pie,
@@ -11,7 +11,7 @@ import {
 } from "recharts";
 import { LLMParseResponse } from "@/lib/parse-command";
 import { getSupabaseBrowserClient } from "@/lib/supabase-browser";
-type GetLoansParamsUI = { loan_name?: string };
+type GetLoansParamsUI = { loan_name?: string; lender?: string };
 
 // ────────────────────────────────────────────────────────────
 // Env + Edge Function Caller (no shared supabase client)
@@ -32,7 +32,7 @@ function getOrCreateSessionId(): string {
 // callLoanManager is imported from @/lib/loan-manager
 
 // ────────────────────────────────────────────────────────────
-export type PaidBy = "Steven" | "Katerina";
+export type PaidBy = string; // household member name
 export interface Payment {
     id?: string;
     loan_id: string;
@@ -44,14 +44,27 @@ export interface Payment {
 export type Loan = LoanRow;
 
 // LLM parser response (matches our new API contract)
-type Action = "create_loan" | "add_payment" | "get_loans" | "delete_loan" | "unknown";
-type CreateLoanParams = { loan_name: string; amount: number; term_months?: number; loan_date?: string; lender?: string; loan_type?: string; };
-type AddPaymentParams = { amount: number; loan_name: string; person?: PaidBy; payment_date?: string; };
+type Action = "create_loan" | "add_payment" | "update_payment" | "delete_payment" | "get_loans" | "update_loan" | "delete_loan" | "restore_loan" | "set_autopay" | "cancel_autopay" | "simulate" | "unknown";
+type CreateLoanParams = { loan_name: string; amount: number; term_months?: number; loan_date?: string; lender?: string; loan_type?: string; apr?: number; promo_end_date?: string; deferred_apr?: number; currency?: string; };
+type PaymentSplitParams = { person?: PaidBy; loan_name?: string; amount?: number; percent?: number; };
+type AddPaymentParams = { amount: number; loan_name: string; person?: PaidBy; payment_date?: string; splits?: PaymentSplitParams[]; allow_overpayment?: boolean; allow_duplicate?: boolean; };
+type PaymentMatchParams = { loan_name: string; match_amount?: number; match_date?: string; };
+type UpdatePaymentParams = PaymentMatchParams & { amount?: number; person?: PaidBy; payment_date?: string; allow_overpayment?: boolean; };
+type UpdateLoanParams = { loan_name: string; new_name?: string; loan_type?: string; loan_date?: string; lender?: string; };
 type DeleteLoanParams = { loan_name: string; loan_id?: string; };
+type SetAutopayParams = { loan_name: string; amount?: number; person?: PaidBy; cadence?: "monthly" | "biweekly"; day_of_month?: number; start_date?: string; end_date?: string; };
+type CancelAutopayParams = { loan_name: string; person?: PaidBy; };
+type SimulateParams = { loan_name?: string; extra_monthly?: number; monthly_budget?: number; strategy?: "avalanche" | "snowball"; };
 type ParseParameters =
     | CreateLoanParams
     | AddPaymentParams
+    | UpdatePaymentParams
+    | PaymentMatchParams
+    | UpdateLoanParams
     | DeleteLoanParams
+    | SetAutopayParams
+    | CancelAutopayParams
+    | SimulateParams
     | GetLoansParamsUI
     | Record<string, never>;
 
@@ -66,11 +79,45 @@ type ParserResult = {
 // ────────────────────────────────────────────────────────────
 // Derivation helpers
 // ────────────────────────────────────────────────────────────
-const fmtCurrency = (n: number) =>
-    new Intl.NumberFormat(undefined, { style: "currency", currency: "USD" }).format(n);
+const fmtCurrency = (n: number, currency = BASE_CURRENCY) =>
+    new Intl.NumberFormat(undefined, { style: "currency", currency }).format(n);
 const fmtPercent = (n: number, digits = 1) => `${n.toFixed(digits)}%`;
 const toISO = (d: Date) => d.toISOString().slice(0, 10);
 
+// add_payment / update_payment refuse (409) a payment larger than what is owed until allow_overpayment
+// is sent; the error body carries the numbers as `overpayment`
+function overpaymentDetail(err: unknown): string | null {
+    const o = err instanceof EdgeFunctionError ? err.body?.overpayment : undefined;
+    if (!o) return null;
+    return `${fmtCurrency(o.amount, o.currency)} is ${fmtCurrency(o.excess, o.currency)} more than the ` +
+        `${fmtCurrency(o.owed, o.currency)} owed on “${o.loan_name}”.`;
+}
+
+// add_payment also refuses (409) a payment matching one logged within a few days until allow_duplicate
+// is sent; `possible_duplicate` lists the matches, e.g. "Katerina already logged $125.00 on “Couch” yesterday"
+function duplicateDetail(err: unknown): string | null {
+    const d = err instanceof EdgeFunctionError ? err.body?.possible_duplicate : undefined;
+    const [first, ...rest] = d?.matches ?? [];
+    if (!d || !first) return null;
+    const days = Math.round((Date.parse(toISO(new Date())) - Date.parse(first.payment_date)) / 86_400_000);
+    const when = days === 0 ? "today" : days === 1 ? "yesterday" : `on ${first.payment_date}`;
+    return `${first.paid_by} already logged ${fmtCurrency(Number(first.amount), d.currency)} on “${d.loan_name}” ${when}` +
+        (rest.length ? ` (and ${rest.length} more)` : "");
+}
+
+// Exchange rates for base-currency totals; without them those loans are just left out
+async function loadRates(): Promise<ExchangeRate[]> {
+    try {
+        const res = await callLoanManager<GetExchangeRatesOk | Err>({ action: "get_exchange_rates" });
+        return res?.success ? res.data : [];
+    } catch {
+        return [];
+    }
+}
+
+const YES = /^(y|yes|yep|yeah|sure|ok|okay|confirm|do it|go ahead)\b/i;
+const NO = /^(n|no|nope|cancel|stop|never ?mind)\b/i;
+
 function deriveLoan(loan: Loan) {
     // Use the shared derivation to ensure canonical logic
     const base = deriveLoanShared(loan as any);
@@ -84,30 +131,35 @@ function deriveLoan(loan: Loan) {
     return { ...base, payments, total_paid, remaining, progress_pct, is_paid_off, avgDays, projectedPayoff } as any;
 }
 
-function summarizePortfolio(loans: ReturnType<typeof deriveLoan>[]) {
+// Totals in the base currency; loans without an exchange rate are left out (missing_rates)
+function summarizePortfolio(loans: ReturnType<typeof deriveLoan>[], options: CurrencyOptions = {}) {
+    const toBase = currencyConverter(options);
+    const inBase = (l: ReturnType<typeof deriveLoan>, n: number) => toBase(n, l.currency) ?? 0;
+    const missing_rates = [...new Set<string>(loans.filter((l) => toBase(1, l.currency) === undefined).map((l) => l.currency))];
     const loan_count = loans.length;
     const paid_off_count = loans.filter((l) => l.is_paid_off).length;
     const open_count = loan_count - paid_off_count;
-    const total_original = loans.reduce((s, l) => s + l.original_amount, 0);
-    const total_paid = loans.reduce((s, l) => s + l.total_paid, 0);
-    const total_remaining = loans.reduce((s, l) => s + Math.max(0, l.remaining), 0);
+    const total_original = loans.reduce((s, l) => s + inBase(l, l.original_amount), 0);
+    const total_paid = loans.reduce((s, l) => s + inBase(l, l.total_paid), 0);
+    const total_remaining = loans.reduce((s, l) => s + inBase(l, Math.max(0, l.remaining)), 0);
     const portfolio_progress = total_original ? (total_paid / total_original) * 100 : 0;
+    const total_credit_due = loans.reduce((s, l) => s + inBase(l, l.credit_due), 0);
 
     const by_type: Record<string, { loan_count: number; total_original: number; total_paid: number; total_remaining: number; progress_pct: number }> = {};
     for (const l of loans) {
         const key = l.loan_type ?? "general";
         by_type[key] ??= { loan_count: 0, total_original: 0, total_paid: 0, total_remaining: 0, progress_pct: 0 };
         by_type[key].loan_count++;
-        by_type[key].total_original += l.original_amount;
-        by_type[key].total_paid += l.total_paid;
-        by_type[key].total_remaining += Math.max(0, l.remaining);
+        by_type[key].total_original += inBase(l, l.original_amount);
+        by_type[key].total_paid += inBase(l, l.total_paid);
+        by_type[key].total_remaining += inBase(l, Math.max(0, l.remaining));
     }
     for (const k of Object.keys(by_type)) {
         const g = by_type[k];
         g.progress_pct = g.total_original ? (g.total_paid / g.total_original) * 100 : 0;
     }
 
-    return { loan_count, paid_off_count, open_count, total_original, total_paid, total_remaining, portfolio_progress, by_type };
+    return { base_currency: options.base_currency ?? BASE_CURRENCY, missing_rates, loan_count, paid_off_count, open_count, total_original, total_paid, total_remaining, total_credit_due, portfolio_progress, by_type };
 }
 
 // ────────────────────────────────────────────────────────────
@@ -115,7 +167,7 @@ function summarizePortfolio(loans: ReturnType<typeof deriveLoan>[]) {
 // ────────────────────────────────────────────────────────────
 const colors = ["#8884d8", "#82ca9d", "#ffc658", "#a4de6c", "#8dd1e1", "#d0ed57"];
 
-function Donut({ paid, remaining }: { paid: number; remaining: number }) {
+function Donut({ paid, remaining, currency }: { paid: number; remaining: number; currency?: string }) {
     const data = useMemo(
         () => [
             { name: "Paid", value: Math.max(0, paid) },
@@ -132,7 +184,7 @@ function Donut({ paid, remaining }: { paid: number; remaining: number }) {
                             <Cell key={i} fill={i === 0 ? colors[1] : colors[0]} />
                         ))}
                     </Pie>
-                    <ReTooltip formatter={(v: any, n: any) => [fmtCurrency(v as number), n as string]} />
+                    <ReTooltip formatter={(v: any, n: any) => [fmtCurrency(v as number, currency), n as string]} />
                 </PieChart>
             </ResponsiveContainer>
         </div>
@@ -147,25 +199,27 @@ function ProgressBar({ pct }: { pct: number }) {
     );
 }
 
-function LoanCard({ loan, onQuickAdd }: { loan: ReturnType<typeof deriveLoan>; onQuickAdd: (loan: ReturnType<typeof deriveLoan>, delta: number) => void }) {
+function LoanCard({ loan, onQuickAdd, isAdding }: { loan: ReturnType<typeof deriveLoan>; onQuickAdd: (loan: ReturnType<typeof deriveLoan>, delta: number) => void; isAdding: (delta: number) => boolean }) {
     return (
         <div className="rounded-2xl border border-gray-200 bg-white/80 backdrop-blur-md shadow-sm p-4 flex gap-4">
-            <Donut paid={loan.total_paid} remaining={loan.remaining} />
+            <Donut paid={loan.total_paid} remaining={loan.remaining} currency={loan.currency} />
             <div className="flex-1">
                 <div className="flex items-center gap-2">
                     <Wallet className="w-4 h-4 text-gray-500" />
                     <h4 className="font-semibold text-gray-800">{loan.name}</h4>
                     {loan.is_paid_off && <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-green-100 text-green-700">PAID</span>}
+                    {loan.is_overdue && <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-700">{loan.days_past_due}d PAST DUE</span>}
+                    {loan.credit_due > 0 && <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-700">{fmtCurrency(loan.credit_due, loan.currency)} CREDIT</span>}
                 </div>
                 <div className="text-sm text-gray-600 mt-1">
                     <div>
-                        Original: <span className="font-medium text-gray-800">{fmtCurrency(loan.original_amount)}</span>
+                        Original: <span className="font-medium text-gray-800">{fmtCurrency(loan.original_amount, loan.currency)}</span>
                     </div>
                     <div>
-                        Remaining: <span className="font-medium text-gray-800">{fmtCurrency(Math.max(0, loan.remaining))}</span>
+                        Remaining: <span className="font-medium text-gray-800">{fmtCurrency(Math.max(0, loan.remaining), loan.currency)}</span>
                     </div>
                     <div>
-                        Est. Monthly: <span className="font-medium text-gray-800">{fmtCurrency(loan.estimated_monthly_payment ?? (loan.original_amount / Math.max(1, loan.term_months)))}</span>
+                        Est. Monthly: <span className="font-medium text-gray-800">{fmtCurrency(loan.estimated_monthly_payment ?? (loan.original_amount / Math.max(1, loan.term_months)), loan.currency)}</span>
                     </div>
                 </div>
                 <div className="mt-2">
@@ -181,9 +235,10 @@ function LoanCard({ loan, onQuickAdd }: { loan: ReturnType<typeof deriveLoan>; o
                             <button
                                 key={amt}
                                 onClick={() => onQuickAdd(loan, amt)}
-                                className="text-xs px-2 py-1 rounded-md border border-gray-300 hover:bg-gray-50"
+                                disabled={isAdding(amt)}
+                                className="text-xs px-2 py-1 rounded-md border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
                             >
-                                +{fmtCurrency(amt)}
+                                +{fmtCurrency(amt, loan.currency)}
                             </button>
                         ))}
                     </div>
@@ -193,6 +248,45 @@ function LoanCard({ loan, onQuickAdd }: { loan: ReturnType<typeof deriveLoan>; o
     );
 }
 
+// Payoff month "YYYY-MM" → "Apr 2029"
+const fmtMonth = (yyyyMm?: string) =>
+    yyyyMm ? new Date(`${yyyyMm}-01T12:00:00`).toLocaleDateString(undefined, { month: "short", year: "numeric" }) : "never";
+
+function SimulationCard({ title, simulation }: { title: string; simulation: WhatIfSimulation }) {
+    const { before, after } = simulation;
+    const column = (label: string, o: WhatIfSimulation["before"], highlight: boolean) => (
+        <div className={`flex-1 rounded-xl p-3 ${highlight ? "bg-blue-50 border border-blue-200" : "bg-gray-50 border border-gray-200"}`}>
+            <div className="text-xs uppercase tracking-wide text-gray-500">{label}</div>
+            <div className="font-semibold text-gray-900">{fmtMonth(o.debt_free_date)}</div>
+            <div className="text-xs text-gray-600">{o.months_to_debt_free !== undefined ? `${o.months_to_debt_free} months` : "not within 50 years"}</div>
+            <div className="text-xs text-gray-600 mt-1">Interest {fmtCurrency(o.total_interest)}</div>
+        </div>
+    );
+    return (
+        <div className="rounded-2xl border border-gray-200 bg-white/80 backdrop-blur-md shadow-sm p-4 space-y-3 text-sm">
+            <div className="font-semibold text-gray-800">{title}</div>
+            <div className="flex gap-2">
+                {column("Minimums only", before, false)}
+                {column(`+${fmtCurrency(simulation.extra_monthly)}/mo`, after, true)}
+            </div>
+            <div className="text-green-700 font-medium">
+                {simulation.months_saved > 0 ? `${simulation.months_saved} months sooner` : "Same payoff month"} • {fmtCurrency(simulation.interest_saved)} less interest
+            </div>
+            {simulation.loans.length > 1 && (
+                <div className="space-y-1 text-gray-700">
+                    {simulation.loans.map((l) => (
+                        <div key={l.loan_id} className="flex justify-between">
+                            <span>{l.name}</span>
+                            <span>{fmtMonth(l.before)} → <span className="font-medium text-gray-900">{fmtMonth(l.after)}</span></span>
+                        </div>
+                    ))}
+                </div>
+            )}
+            <div className="text-xs text-gray-500">Projection only; nothing was recorded.</div>
+        </div>
+    );
+}
+
 function TypingDots() {
     return (
         <div className="flex items-center gap-1">
@@ -224,17 +318,40 @@ interface LoansMsg extends BaseMsg {
     variant: "loans";
     loans: ReturnType<typeof deriveLoan>[];
 }
+interface SimulationMsg extends BaseMsg {
+    variant: "simulation";
+    title: string;
+    simulation: WhatIfSimulation;
+}
 
-type ChatMessage = TextMsg | SummaryMsg | LoansMsg;
+type ChatMessage = TextMsg | SummaryMsg | LoansMsg | SimulationMsg;
 
 // ────────────────────────────────────────────────────────────
 // Component
 // ────────────────────────────────────────────────────────────
-export default function AiLoanAssistantPro({ onLoanUpdate }: { onLoanUpdate?: () => void }) {
+export default function AiLoanAssistantPro({
+    members = [],
+    onLoanUpdate,
+    onPaymentRecorded,
+}: {
+    members?: Member[];
+    onLoanUpdate?: () => void;
+    // add_payment returns the payment + updated loan; lets the dashboard merge it without a refetch
+    onPaymentRecorded?: (recorded: PaymentRecorded) => void;
+}) {
+    // Prefer the targeted merge; fall back to a full refresh
+    function notifyPayment(recorded?: PaymentRecorded) {
+        if (recorded?.payment && recorded?.loan && onPaymentRecorded) onPaymentRecorded(recorded);
+        else onLoanUpdate?.();
+    }
+
     const [isOpen, setIsOpen] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
     const [sessionId] = useState<string>(() => getOrCreateSessionId());
     const [input, setInput] = useState("");
+    // An overpayment or likely duplicate waiting for a yes/no; holds the command to re-run
+    // with allow_overpayment / allow_duplicate
+    const [pendingConfirm, setPendingConfirm] = useState<ParserResult | null>(null);
     const [messages, setMessages] = useState<ChatMessage[]>([
         {
             id: Date.now(),
@@ -245,6 +362,21 @@ export default function AiLoanAssistantPro({ onLoanUpdate }: { onLoanUpdate?: ()
         },
     ]);
     const endRef = useRef<HTMLDivElement>(null);
+    // One idempotency_key per user action: the same command or quick-add repeated while the first
+    // call is in flight reuses its key, so the server records it once
+    const actionKeys = useRef(new Map<string, { key: string; calls: number }>());
+    const [quickAddsInFlight, setQuickAddsInFlight] = useState<string[]>([]);
+
+    async function withActionKey<T>(action: string, run: (idempotency_key: string) => Promise<T>): Promise<T> {
+        const held = actionKeys.current.get(action) ?? { key: newIdempotencyKey(), calls: 0 };
+        held.calls++;
+        actionKeys.current.set(action, held);
+        try {
+            return await run(held.key);
+        } finally {
+            if (--held.calls === 0) actionKeys.current.delete(action);
+        }
+    }
 
     useEffect(() => {
         endRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -302,7 +434,10 @@ export default function AiLoanAssistantPro({ onLoanUpdate }: { onLoanUpdate?: ()
         // GET LOANS (supports optional loan_name filter for details)
         if (action === "get_loans") {
             const p = (parameters as GetLoansParamsUI) || {};
-            const res = await callLoanManager({ action: "get_loans" });
+            const [res, rates] = await Promise.all([
+                callLoanManager({ action: "get_loans", lender: p.lender }),
+                loadRates(),
+            ]);
             if (!res?.success) {
                 return [
                     {
@@ -319,6 +454,19 @@ export default function AiLoanAssistantPro({ onLoanUpdate }: { onLoanUpdate?: ()
             const raw: Loan[] = res.data;
             const derived = raw.map(deriveLoan);
 
+            if (p.lender && derived.length === 0) {
+                return [
+                    {
+                        id: Date.now(),
+                        type: "assistant",
+                        variant: "text",
+                        status: "error",
+                        content: `I couldn't find any loans with the lender “${p.lender}”.`,
+                        timestamp: new Date(),
+                    },
+                ];
+            }
+
             // If the user asked about a specific loan, try to show details for that one
             if (p.loan_name) {
                 const q = p.loan_name.trim().toLowerCase();
@@ -345,13 +493,34 @@ export default function AiLoanAssistantPro({ onLoanUpdate }: { onLoanUpdate?: ()
                 // Compose a concise, info-dense summary message
                 const summary =
                     `Here's what I have for “${target.name}”:\n` +
-                    `• Original: ${fmtCurrency(target.original_amount)}\n` +
-                    `• Remaining: ${fmtCurrency(Math.max(0, target.remaining))}\n` +
+                    `• Original: ${fmtCurrency(target.original_amount, target.currency)}\n` +
+                    `• Remaining: ${fmtCurrency(Math.max(0, target.remaining), target.currency)}\n` +
                     (target.term_months ? `• Term: ${target.term_months} months\n` : "") +
+                    (target.lender
+                        ? `• Lender: ${target.lender.name}${target.lender.account_last4 ? ` (acct ••${target.lender.account_last4})` : ""}${target.lender.phone ? `, ${target.lender.phone}` : ""}\n`
+                        : "") +
+                    (target.autopay_rules ?? []).map((r: AutopayRule) => `• Autopay: ${describeAutopayRule(r, target.currency)}\n`).join("") +
+                    (target.apr ? `• APR: ${fmtPercent(target.apr, 2)} (interest paid ${fmtCurrency(target.total_interest_paid, target.currency)})\n` : "") +
                     (target.loan_date ? `• Started: ${target.loan_date}\n` : "") +
                     (target.last_payment ? `• Last payment: ${target.last_payment}\n` : "") +
-                    (typeof target.total_paid === "number" ? `• Total paid: ${fmtCurrency(target.total_paid)}\n` : "") +
-                    (target.projectedPayoff ? `• Est. payoff: ${target.projectedPayoff}\n` : "");
+                    (target.next_due_date
+                        ? target.is_overdue
+                            ? `• ⚠️ Past due: ${fmtCurrency(target.amount_due, target.currency)} since ${target.next_due_date} (${target.days_past_due} days, ${target.missed_periods} missed)\n`
+                            : `• Next due: ${fmtCurrency(target.amount_due, target.currency)} on ${target.next_due_date}\n`
+                        : "") +
+                    (typeof target.total_paid === "number" ? `• Total paid: ${fmtCurrency(target.total_paid, target.currency)}\n` : "") +
+                    (target.projectedPayoff
+                        ? `• Est. payoff: ${target.projectedPayoff} (${PROJECTION_MODEL_LABELS[target.projection_model as ProjectionModel]}` +
+                          (target.projection_range && target.projection_range.optimistic !== target.projection_range.pessimistic
+                              ? `; ${target.projection_range.optimistic} to ${target.projection_range.pessimistic}`
+                              : "") +
+                          ")\n"
+                        : "") +
+                    (target.promo
+                        ? `• Promo ends ${target.promo.promo_end_date}: ${target.promo.on_pace
+                            ? "on pace"
+                            : `pay ${fmtCurrency(target.promo.required_monthly_payment, target.currency)}/mo to avoid ~${fmtCurrency(target.promo.projected_deferred_interest, target.currency)} deferred interest`}\n`
+                        : "");
 
                 const msgs: ChatMessage[] = [
                     {
@@ -383,7 +552,7 @@ export default function AiLoanAssistantPro({ onLoanUpdate }: { onLoanUpdate?: ()
             }
 
             // Default behavior: portfolio summary + all loans
-            const portfolio = summarizePortfolio(derived);
+            const portfolio = summarizePortfolio(derived, { rates });
             return [
                 { id: Date.now(), type: "assistant", variant: "summary", portfolio, timestamp: new Date(), status: "success" },
                 { id: Date.now() + 1, type: "assistant", variant: "loans", loans: derived, timestamp: new Date(), status: "success" },
@@ -394,6 +563,65 @@ export default function AiLoanAssistantPro({ onLoanUpdate }: { onLoanUpdate?: ()
         if (action === "add_payment") {
             const p = parameters as AddPaymentParams;
 
+            // One payment shared by several people and/or loans → linked rows, recorded atomically
+            if (p.splits?.length) {
+                let res: SplitPaymentOk | Err;
+                const body = {
+                    action: "add_payment" as const,
+                    loan_name: p.loan_name,
+                    amount: p.amount,
+                    paid_by: p.person,
+                    payment_date: p.payment_date,
+                    splits: p.splits.map((sp) => ({
+                        loan_name: sp.loan_name,
+                        paid_by: sp.person,
+                        amount: sp.amount,
+                        percent: sp.percent,
+                    })),
+                    allow_duplicate: p.allow_duplicate, // only after the user confirmed
+                };
+                try {
+                    // Keyed by the command, so a confirmation (allow_duplicate) is a new action
+                    res = await withActionKey(JSON.stringify(body), (idempotency_key) =>
+                        callLoanManager<SplitPaymentOk | Err>({ ...body, idempotency_key })
+                    );
+                } catch (e) {
+                    const duplicate = p.allow_duplicate ? null : duplicateDetail(e);
+                    if (!duplicate) throw e;
+                    setPendingConfirm({ ...parsed, parameters: { ...p, allow_duplicate: true } });
+                    return [confirmDuplicateMessage(duplicate)];
+                }
+                if (!res?.success) {
+                    return [
+                        {
+                            id: Date.now(),
+                            type: "assistant",
+                            variant: "text",
+                            status: "error",
+                            content: res?.error || "Failed to add split payment",
+                            timestamp: new Date(),
+                        },
+                    ];
+                }
+
+                for (const part of res.data.parts) notifyPayment(part);
+                const loanNames = new Map(res.data.parts.map((part) => [part.loan.id, part.loan.name]));
+                const currency = res.data.parts[0]?.loan.currency; // split parts share one currency
+                const breakdown = res.data.parts
+                    .map((part) => `${part.payment.paid_by} ${fmtCurrency(part.payment.amount, currency)}${loanNames.size > 1 ? ` → ${loanNames.get(part.payment.loan_id)}` : ""}`)
+                    .join(" • ");
+                return [
+                    {
+                        id: Date.now(),
+                        type: "assistant",
+                        variant: "text",
+                        status: "success",
+                        content: `💸 Recorded a split payment of ${fmtCurrency(res.data.amount, currency)}${loanNames.size === 1 ? ` toward “${[...loanNames.values()][0]}”` : ""}: ${breakdown}.`,
+                        timestamp: new Date(),
+                    },
+                ];
+            }
+
             if (!p.loan_name || typeof p.amount !== "number") {
                 return [
                     {
@@ -411,11 +639,29 @@ export default function AiLoanAssistantPro({ onLoanUpdate }: { onLoanUpdate?: ()
                 action: "add_payment" as const,
                 loan_name: p.loan_name,
                 amount: p.amount,
-                paid_by: p.person ?? "Steven",           // 👈 explicit default
+                paid_by: p.person,                       // omitted → default member (server-side)
                 payment_date: p.payment_date,            // optional; server will default to today if missing
+                allow_overpayment: p.allow_overpayment,  // only after the user confirmed
+                allow_duplicate: p.allow_duplicate,      // likewise
             };
 
-            const res = await callLoanManager(payload);
+            let res: AddPaymentOk | Err;
+            try {
+                // Keyed by the command, so a confirmation (allow_*) is a new action
+                res = await withActionKey(JSON.stringify(payload), (idempotency_key) =>
+                    callLoanManager<AddPaymentOk | Err>({ ...payload, idempotency_key })
+                );
+            } catch (e) {
+                const duplicate = p.allow_duplicate ? null : duplicateDetail(e);
+                if (duplicate) {
+                    setPendingConfirm({ ...parsed, parameters: { ...p, allow_duplicate: true } });
+                    return [confirmDuplicateMessage(duplicate)];
+                }
+                const detail = p.allow_overpayment ? null : overpaymentDetail(e);
+                if (!detail) throw e;
+                setPendingConfirm({ ...parsed, parameters: { ...p, allow_overpayment: true } });
+                return [confirmOverpaymentMessage(detail)];
+            }
             if (!res?.success) {
                 return [
                     {
@@ -429,14 +675,91 @@ export default function AiLoanAssistantPro({ onLoanUpdate }: { onLoanUpdate?: ()
                 ];
             }
 
+            notifyPayment(res.data);
+            const { credit, loan, replayed } = res.data;
+            return [
+                {
+                    id: Date.now(),
+                    type: "assistant",
+                    variant: "text",
+                    status: "success",
+                    content: replayed
+                        ? `Already recorded ${fmtCurrency(p.amount, loan.currency)} toward “${p.loan_name}”; it was not added again.`
+                        : `💸 Recorded ${fmtCurrency(p.amount, loan.currency)} toward “${p.loan_name}”.` +
+                            (credit ? ` It's paid off; the extra ${fmtCurrency(Number(credit.amount), loan.currency)} is kept as a credit owed back to ${credit.paid_by}.` : ""),
+                    timestamp: new Date(),
+                },
+            ];
+        }
+
+        // UPDATE / DELETE PAYMENT
+        if (action === "update_payment" || action === "delete_payment") {
+            const p = parameters as UpdatePaymentParams;
+            const isDelete = action === "delete_payment";
+
+            if (!p.loan_name) {
+                return [
+                    {
+                        id: Date.now(),
+                        type: "assistant",
+                        variant: "text",
+                        status: "error",
+                        content: `Which loan is the payment on? e.g. “${isDelete ? "Delete" : "Change"} the $125 payment on Couch from yesterday”.`,
+                        timestamp: new Date(),
+                    },
+                ];
+            }
+
+            const payload = {
+                action,
+                loan_name: p.loan_name,
+                match_amount: p.match_amount,
+                match_date: p.match_date,
+                ...(isDelete ? {} : { amount: p.amount, paid_by: p.person, payment_date: p.payment_date, allow_overpayment: p.allow_overpayment }),
+            };
+            type PaymentRes = {
+                success: boolean;
+                error?: string;
+                data: { payment: Payment; previous?: Payment; loan: { currency: string }; credit?: { amount: number; paid_by: string } | null };
+            };
+            let res: PaymentRes;
+            try {
+                res = await callLoanManager<PaymentRes>(payload);
+            } catch (e) {
+                // A larger amount that overpays the loan: ask, then re-run with allow_overpayment
+                const detail = isDelete || p.allow_overpayment ? null : overpaymentDetail(e);
+                if (detail) {
+                    setPendingConfirm({ ...parsed, parameters: { ...p, allow_overpayment: true } });
+                    return [confirmOverpaymentMessage(detail)];
+                }
+                // e.g. several payments match → ask the user to narrow it down
+                return [
+                    {
+                        id: Date.now(),
+                        type: "assistant",
+                        variant: "text",
+                        status: "error",
+                        content: e instanceof Error ? e.message : `Failed to ${isDelete ? "delete" : "update"} payment`,
+                        timestamp: new Date(),
+                    },
+                ];
+            }
+
             onLoanUpdate?.();
+            const pay = res.data.payment;
+            const prev = res.data.previous;
+            const currency = res.data.loan.currency;
             return [
                 {
                     id: Date.now(),
                     type: "assistant",
                     variant: "text",
                     status: "success",
-                    content: `💸 Recorded ${fmtCurrency(p.amount)} toward “${p.loan_name}”.`,
+                    content: isDelete
+                        ? `🗑️ Deleted the ${fmtCurrency(pay.amount, currency)} payment by ${pay.paid_by} on ${pay.payment_date} from “${p.loan_name}”.` +
+                            (res.data.credit ? ` Its ${fmtCurrency(Number(res.data.credit.amount), currency)} credit was removed with it.` : "")
+                        : `✏️ Updated payment on “${p.loan_name}”: ${fmtCurrency(prev?.amount ?? pay.amount, currency)} → ${fmtCurrency(pay.amount, currency)}, ${pay.paid_by}, ${pay.payment_date}.` +
+                            (res.data.credit ? ` The extra ${fmtCurrency(Number(res.data.credit.amount), currency)} is kept as a credit owed back to ${res.data.credit.paid_by}.` : ""),
                     timestamp: new Date(),
                 },
             ];
@@ -475,9 +798,16 @@ export default function AiLoanAssistantPro({ onLoanUpdate }: { onLoanUpdate?: ()
                 loan_type: p.loan_type || "general",
                 term_months: p.term_months,      // ✅ required, no default
                 loan_date: p.loan_date,          // ✅ required, no default
+                lender: p.lender,
+                apr: p.apr ?? 0,
+                promo_end_date: p.promo_end_date,
+                deferred_apr: p.deferred_apr,
+                currency: p.currency,
             };
 
-            const res = await callLoanManager(payload);
+            const res = await withActionKey(JSON.stringify(payload), (idempotency_key) =>
+                callLoanManager({ ...payload, idempotency_key })
+            );
             if (!res?.success) {
                 return [
                     {
@@ -498,22 +828,79 @@ export default function AiLoanAssistantPro({ onLoanUpdate }: { onLoanUpdate?: ()
                     type: "assistant",
                     variant: "text",
                     status: "success",
-                    content: `✨ New loan created: ${p.loan_name} for ${fmtCurrency(p.amount)} (${p.term_months} mo) on ${p.loan_date}.`,
+                    content: `✨ New loan created: ${p.loan_name} for ${fmtCurrency(p.amount, p.currency?.toUpperCase() ?? "USD")} (${p.term_months} mo${p.apr ? ` @ ${fmtPercent(p.apr, 2)} APR` : ""}) on ${p.loan_date}.`,
                     timestamp: new Date(),
                 },
             ];
         }
 
 
-        // DELETE LOAN
-        if (action === "delete_loan") {
+        // UPDATE LOAN
+        if (action === "update_loan") {
+            const p = parameters as UpdateLoanParams;
+            const changes: string[] = [];
+            if (p.new_name) changes.push(`name → “${p.new_name}”`);
+            if (p.loan_type) changes.push(`type → ${p.loan_type}`);
+            if (p.loan_date) changes.push(`start date → ${p.loan_date}`);
+            if (p.lender) changes.push(`lender → ${p.lender}`);
+
+            if (!p.loan_name || changes.length === 0) {
+                return [
+                    {
+                        id: Date.now(),
+                        type: "assistant",
+                        variant: "text",
+                        status: "error",
+                        content: "Tell me which loan to update and what to change (name, type, start date, or lender).",
+                        timestamp: new Date(),
+                    },
+                ];
+            }
+
+            const payload = {
+                action: "update_loan",
+                loan_name: p.loan_name,
+                name: p.new_name,
+                loan_type: p.loan_type,
+                loan_date: p.loan_date,
+                lender: p.lender,
+            };
+            const res = await callLoanManager<{ success: boolean; error?: string }>(payload);
+            if (!res?.success) {
+                return [
+                    {
+                        id: Date.now(),
+                        type: "assistant",
+                        variant: "text",
+                        status: "error",
+                        content: res?.error || "Failed to update loan",
+                        timestamp: new Date(),
+                    },
+                ];
+            }
+            onLoanUpdate?.();
+            return [
+                {
+                    id: Date.now(),
+                    type: "assistant",
+                    variant: "text",
+                    status: "success",
+                    content: `✏️ Updated “${p.loan_name}”: ${changes.join(", ")}.`,
+                    timestamp: new Date(),
+                },
+            ];
+        }
+
+        // ARCHIVE (delete_loan) / RESTORE LOAN — permanent purge is not offered from chat
+        if (action === "delete_loan" || action === "restore_loan") {
             const p = parameters as DeleteLoanParams;
+            const restoring = action === "restore_loan";
             const payload = {
-                action: "delete_loan",
+                action: restoring ? "restore_loan" : "archive_loan",
                 loan_id: p.loan_id, // optional if you support it
                 loan_name: p.loan_name,
             };
-            const res = await callLoanManager(payload);
+            const res = await callLoanManager<{ success: boolean; error?: string }>(payload);
             if (!res?.success) {
                 return [
                     {
@@ -521,7 +908,7 @@ export default function AiLoanAssistantPro({ onLoanUpdate }: { onLoanUpdate?: ()
                         type: "assistant",
                         variant: "text",
                         status: "error",
-                        content: res?.error || "Failed to delete loan",
+                        content: res?.error || `Failed to ${restoring ? "restore" : "archive"} loan`,
                         timestamp: new Date(),
                     },
                 ];
@@ -533,12 +920,159 @@ export default function AiLoanAssistantPro({ onLoanUpdate }: { onLoanUpdate?: ()
                     type: "assistant",
                     variant: "text",
                     status: "success",
-                    content: `Deleted loan: ${p.loan_name || p.loan_id}.`,
+                    content: restoring
+                        ? `♻️ Restored loan: ${p.loan_name || p.loan_id}.`
+                        : `🗄️ Archived loan: ${p.loan_name || p.loan_id}. Its payments are kept — say “restore ${p.loan_name || "it"}” to bring it back.`,
                     timestamp: new Date(),
                 },
             ];
         }
 
+        // SET AUTOPAY (one rule per loan and payer; an existing rule is updated in place)
+        if (action === "set_autopay") {
+            const p = parameters as SetAutopayParams;
+            const res = await callLoanManager<UpsertAutopayRuleOk | Err>({
+                action: "upsert_autopay_rule",
+                loan_name: p.loan_name,
+                paid_by: p.person, // omitted → the default household member
+                amount: p.amount,
+                cadence: p.cadence,
+                day_of_month: p.day_of_month,
+                start_date: p.start_date,
+                end_date: p.end_date,
+            });
+            if (!res?.success) {
+                return [
+                    {
+                        id: Date.now(),
+                        type: "assistant",
+                        variant: "text",
+                        status: "error",
+                        content: res?.error || "Failed to set up autopay",
+                        timestamp: new Date(),
+                    },
+                ];
+            }
+            onLoanUpdate?.();
+            const rule = res.data;
+            return [
+                {
+                    id: Date.now(),
+                    type: "assistant",
+                    variant: "text",
+                    status: "success",
+                    content:
+                        `🔁 Autopay on “${rule.loan?.name ?? p.loan_name}”: ${describeAutopayRule(rule, rule.loan?.currency)}.` +
+                        (rule.next_payment_date ? ` Next payment: ${rule.next_payment_date}.` : ""),
+                    timestamp: new Date(),
+                },
+            ];
+        }
+
+        // CANCEL AUTOPAY (payments it already recorded stay)
+        if (action === "cancel_autopay") {
+            const p = parameters as CancelAutopayParams;
+            const res = await callLoanManager<DeleteAutopayRuleOk | Err>({
+                action: "delete_autopay_rule",
+                loan_name: p.loan_name,
+                paid_by: p.person,
+            });
+            if (!res?.success) {
+                return [
+                    {
+                        id: Date.now(),
+                        type: "assistant",
+                        variant: "text",
+                        status: "error",
+                        content: res?.error || "Failed to cancel autopay",
+                        timestamp: new Date(),
+                    },
+                ];
+            }
+            onLoanUpdate?.();
+            return [
+                {
+                    id: Date.now(),
+                    type: "assistant",
+                    variant: "text",
+                    status: "success",
+                    content: `⏹️ Stopped autopay on “${res.data.loan?.name ?? p.loan_name}” (${describeAutopayRule(res.data, res.data.loan?.currency)}). Past payments are kept.`,
+                    timestamp: new Date(),
+                },
+            ];
+        }
+
+        // SIMULATE ("what if" on the current loans; nothing is recorded)
+        if (action === "simulate") {
+            const p = parameters as SimulateParams;
+            const [res, rates] = await Promise.all([
+                callLoanManager<GetLoansOk | Err>({ action: "get_loans" }),
+                loadRates(),
+            ]);
+            if (!res?.success) {
+                return [
+                    {
+                        id: Date.now(),
+                        type: "assistant",
+                        variant: "text",
+                        status: "error",
+                        content: res?.error || "Failed to fetch loans",
+                        timestamp: new Date(),
+                    },
+                ];
+            }
+            // Projected together in the base currency (loans without a rate are left out)
+            const derived = inBaseCurrency(res.data.map(deriveLoanShared), { rates });
+
+            let target: (typeof derived)[number] | undefined;
+            if (p.loan_name) {
+                const q = p.loan_name.trim().toLowerCase();
+                target = derived.find((l) => l.name.toLowerCase() === q)
+                    ?? derived.find((l) => l.name.toLowerCase().startsWith(q))
+                    ?? derived.find((l) => l.name.toLowerCase().includes(q));
+                if (!target || target.is_paid_off) {
+                    return [
+                        {
+                            id: Date.now(),
+                            type: "assistant",
+                            variant: "text",
+                            status: "error",
+                            content: target
+                                ? `“${target.name}” is already paid off.`
+                                : `I couldn't find a loan named “${p.loan_name}”.`,
+                            timestamp: new Date(),
+                        },
+                    ];
+                }
+            }
+
+            const simulation = simulateWhatIf(derived, {
+                loan_id: target?.id,
+                extra_monthly: p.extra_monthly,
+                monthly_budget: p.monthly_budget,
+                strategy: p.strategy,
+            });
+            if (simulation.loans.length === 0 || simulation.budget_shortfall > 0) {
+                return [
+                    {
+                        id: Date.now(),
+                        type: "assistant",
+                        variant: "text",
+                        status: "error",
+                        content: simulation.loans.length === 0
+                            ? "There are no open loans to project."
+                            : `${fmtCurrency(p.monthly_budget ?? 0)}/month doesn't cover the minimum payments (${fmtCurrency(simulation.minimum_monthly)}/month).`,
+                        timestamp: new Date(),
+                    },
+                ];
+            }
+
+            const title = target
+                ? `What if: +${fmtCurrency(simulation.extra_monthly)}/month on “${target.name}”`
+                : `What if: ${fmtCurrency(simulation.minimum_monthly + simulation.extra_monthly)}/month toward everything (${simulation.strategy})`;
+            return [{ id: Date.now(), type: "assistant", variant: "simulation", title, simulation, timestamp: new Date(), status: "success" }];
+        }
+
         // Unknown
         return [
             {
@@ -552,6 +1086,26 @@ export default function AiLoanAssistantPro({ onLoanUpdate }: { onLoanUpdate?: ()
         ];
     }
 
+    function confirmOverpaymentMessage(detail: string): ChatMessage {
+        return {
+            id: Date.now(),
+            type: "assistant",
+            variant: "text",
+            content: `${detail} Record it anyway and keep the excess as a credit to refund? (yes / no)`,
+            timestamp: new Date(),
+        };
+    }
+
+    function confirmDuplicateMessage(detail: string): ChatMessage {
+        return {
+            id: Date.now(),
+            type: "assistant",
+            variant: "text",
+            content: `${detail} — record another? (yes / no)`,
+            timestamp: new Date(),
+        };
+    }
+
     async function onSend() {
         if (!input.trim() || isLoading) return;
         const content = input.trim();
@@ -567,7 +1121,21 @@ export default function AiLoanAssistantPro({ onLoanUpdate }: { onLoanUpdate?: ()
         setInput("");
         setIsLoading(true);
 
+        // A pending confirmation takes a yes/no; anything else drops it and is parsed as usual
+        const pending = pendingConfirm;
+        setPendingConfirm(null);
+
         try {
+            if (pending && (YES.test(content) || NO.test(content))) {
+                const confirmed = YES.test(content);
+                const replies: ChatMessage[] = confirmed
+                    ? await execute(pending)
+                    : [{ id: Date.now(), type: "assistant", variant: "text", content: pending.action === "update_payment" ? "OK, I left that payment as it was." : "OK, I didn't record that payment.", timestamp: new Date() }];
+                logChat("assistant", confirmed ? pending.message : "Payment cancelled", pending);
+                setMessages((m) => [...m, ...replies]);
+                return;
+            }
+
             const parsed = await parseCommand(content);
 
             // 1) Follow-up flow
@@ -597,7 +1165,7 @@ export default function AiLoanAssistantPro({ onLoanUpdate }: { onLoanUpdate?: ()
                         variant: "text",
                         content:
                             parsed.message ||
-                            "I can create loans, add payments, show loans, or delete a loan. What would you like to do?",
+                            "I can create loans, add payments, set up autopay, run what-if projections, show, update, or delete a loan. What would you like to do?",
                         timestamp: new Date(),
                     },
                 ]);
@@ -628,18 +1196,24 @@ export default function AiLoanAssistantPro({ onLoanUpdate }: { onLoanUpdate?: ()
 
 
     function handleQuickAdd(loan: ReturnType<typeof deriveLoan>, delta: number) {
+        const press = `${loan.id}:${delta}`;
         void (async () => {
             setIsLoading(true);
+            setQuickAddsInFlight((keys) => [...keys, press]);
             try {
-                const res = await callLoanManager({
-                    action: "add_payment",
-                    loan_name: loan.name,
-                    amount: delta,
-                    paid_by: "Steven",
-                    payment_date: new Date().toISOString().slice(0, 10),
-                });
+                // A double click before the button disables shares the first click's key
+                const res = await withActionKey(`quick-add:${press}`, (idempotency_key) =>
+                    callLoanManager<AddPaymentOk | Err>({
+                        action: "add_payment",
+                        loan_name: loan.name,
+                        amount: delta,
+                        // paid_by omitted → the default household member
+                        payment_date: new Date().toISOString().slice(0, 10),
+                        idempotency_key,
+                    })
+                );
                 if (res?.success) {
-                    onLoanUpdate?.();
+                    notifyPayment(res.data);
                     setMessages((m) => [
                         ...m,
                         {
@@ -647,7 +1221,9 @@ export default function AiLoanAssistantPro({ onLoanUpdate }: { onLoanUpdate?: ()
                             type: "assistant",
                             variant: "text",
                             status: "success",
-                            content: `+${fmtCurrency(delta)} to ${loan.name}. Nice!`,
+                            content: res.data.replayed
+                                ? `+${fmtCurrency(delta, loan.currency)} to ${loan.name} was already recorded.`
+                                : `+${fmtCurrency(delta, loan.currency)} to ${loan.name}. Nice!`,
                             timestamp: new Date(),
                         },
                     ]);
@@ -665,6 +1241,30 @@ export default function AiLoanAssistantPro({ onLoanUpdate }: { onLoanUpdate?: ()
                     ]);
                 }
             } catch (e: any) {
+                const duplicate = duplicateDetail(e);
+                if (duplicate) {
+                    setPendingConfirm({
+                        action: "add_payment",
+                        parameters: { loan_name: loan.name, amount: delta, payment_date: toISO(new Date()), allow_duplicate: true },
+                        message: `Quick add ${fmtCurrency(delta, loan.currency)} to ${loan.name}`,
+                        need_followup: false,
+                        followup_question: null,
+                    });
+                    setMessages((m) => [...m, confirmDuplicateMessage(duplicate)]);
+                    return;
+                }
+                const detail = overpaymentDetail(e);
+                if (detail) {
+                    setPendingConfirm({
+                        action: "add_payment",
+                        parameters: { loan_name: loan.name, amount: delta, payment_date: toISO(new Date()), allow_overpayment: true },
+                        message: `Quick add ${fmtCurrency(delta, loan.currency)} to ${loan.name}`,
+                        need_followup: false,
+                        followup_question: null,
+                    });
+                    setMessages((m) => [...m, confirmOverpaymentMessage(detail)]);
+                    return;
+                }
                 setMessages((m) => [
                     ...m,
                     {
@@ -678,6 +1278,10 @@ export default function AiLoanAssistantPro({ onLoanUpdate }: { onLoanUpdate?: ()
                 ]);
             } finally {
                 setIsLoading(false);
+                setQuickAddsInFlight((keys) => {
+                    const i = keys.indexOf(press);
+                    return i < 0 ? keys : [...keys.slice(0, i), ...keys.slice(i + 1)];
+                });
             }
         })();
     }
@@ -685,14 +1289,18 @@ export default function AiLoanAssistantPro({ onLoanUpdate }: { onLoanUpdate?: ()
     // Slash command mini-hints
     const showHints = input.startsWith("/");
     const hints = useMemo(() => {
+        const payer = members[0]?.name ?? "I";
+        const buyer = members[1]?.name ?? members[0]?.name ?? "We";
         const base = [
             { key: "/summary", text: "Show me all current loans", action: () => setInput("Show me all current loans") },
-            { key: "/pay", text: "Steven paid $50 to the IKEA bed", action: () => setInput("Steven paid $50 to the IKEA bed") },
-            { key: "/new", text: "Create a new loan: Katerina bought a chair for $800", action: () => setInput("Create a new loan: Katerina bought a chair for $800") },
+            { key: "/pay", text: `${payer} paid $50 to the IKEA bed`, action: () => setInput(`${payer} paid $50 to the IKEA bed`) },
+            { key: "/new", text: `Create a new loan: ${buyer} bought a chair for $800`, action: () => setInput(`Create a new loan: ${buyer} bought a chair for $800`) },
+            { key: "/autopay", text: `Set up autopay of $50 on the IKEA bed on the 15th, paid by ${payer}`, action: () => setInput(`Set up autopay of $50 on the IKEA bed on the 15th, paid by ${payer}`) },
+            { key: "/whatif", text: "What if we pay $100 extra on the IKEA bed each month?", action: () => setInput("What if we pay $100 extra on the IKEA bed each month?") },
         ];
         const q = input.slice(1).toLowerCase();
         return base.filter((h) => h.key.includes(q));
-    }, [input]);
+    }, [input, members]);
 
     return (
         <>
@@ -738,6 +1346,7 @@ export default function AiLoanAssistantPro({ onLoanUpdate }: { onLoanUpdate?: ()
                                         <div className="flex items-center gap-2 mb-1 text-gray-700">
                                             {msg.variant === "summary" && <LineChart size={16} />}
                                             {msg.variant === "loans" && <Coins size={16} />}
+                                            {msg.variant === "simulation" && <Calculator size={16} />}
                                             {msg.status === "success" && <CheckCircle size={16} className="text-green-600" />}
                                             {msg.status === "error" && <AlertCircle size={16} className="text-red-600" />}
                                         </div>
@@ -773,6 +1382,16 @@ export default function AiLoanAssistantPro({ onLoanUpdate }: { onLoanUpdate?: ()
                                                             <div>
                                                                 Remaining: <span className="font-medium text-gray-900">{fmtCurrency(p.total_remaining)}</span>
                                                             </div>
+                                                            {p.total_credit_due > 0 && (
+                                                                <div>
+                                                                    Credit to refund: <span className="font-medium text-amber-700">{fmtCurrency(p.total_credit_due)}</span>
+                                                                </div>
+                                                            )}
+                                                            {p.missing_rates.length > 0 && (
+                                                                <div className="text-xs text-amber-700">
+                                                                    Not in totals (no {p.base_currency} rate): {p.missing_rates.join(", ")}
+                                                                </div>
+                                                            )}
                                                         </div>
                                                     </div>
                                                 );
@@ -783,11 +1402,15 @@ export default function AiLoanAssistantPro({ onLoanUpdate }: { onLoanUpdate?: ()
                                     {msg.variant === "loans" && (
                                         <div className="space-y-3">
                                             {(msg as LoansMsg).loans.map((l) => (
-                                                <LoanCard key={l.id} loan={l} onQuickAdd={handleQuickAdd} />
+                                                <LoanCard key={l.id} loan={l} onQuickAdd={handleQuickAdd} isAdding={(amt) => quickAddsInFlight.includes(`${l.id}:${amt}`)} />
                                             ))}
                                         </div>
                                     )}
 
+                                    {msg.variant === "simulation" && (
+                                        <SimulationCard title={(msg as SimulationMsg).title} simulation={(msg as SimulationMsg).simulation} />
+                                    )}
+
                                     <div className="text-[10px] opacity-60 mt-2">
                                         {new Date(msg.timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
                                     </div>
@@ -0,0 +1,378 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { LoanWithPayments } from '@/lib/hooks/useLoans'
+import { importHistory } from '@/lib/loan-manager'
+import {
+  buildImportPreview,
+  guessDateFormat,
+  guessMapping,
+  IMPORT_FIELDS,
+  parseCsv,
+  toImportRequest,
+  type ColumnMapping,
+  type DateFormat,
+  type ImportField,
+  type ImportOperation,
+} from '@/lib/csv-import'
+import { AlertTriangle, Check, FileUp, Loader2, Upload, X } from 'lucide-react'
+import { formatCurrency, type ImportHistoryOk, type Member } from '../index'
+
+interface CsvImportProps {
+  loans: LoanWithPayments[]
+  members: Member[]
+  onImported?: () => void
+}
+
+type Step = 'upload' | 'map' | 'preview' | 'done'
+
+interface SkippedRow {
+  row: number
+  loan_name: string
+  reason: string
+}
+
+const STATUS_STYLES: Record<ImportOperation['status'], string> = {
+  ready: 'bg-green-100 text-green-700',
+  duplicate: 'bg-amber-100 text-amber-700',
+  invalid: 'bg-red-100 text-red-700',
+}
+
+export function CsvImport({ loans, members, onImported }: CsvImportProps) {
+  const [open, setOpen] = useState(false)
+  const [step, setStep] = useState<Step>('upload')
+  const [fileName, setFileName] = useState('')
+  const [rows, setRows] = useState<string[][]>([])
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [dateFormat, setDateFormat] = useState<DateFormat>('YYYY-MM-DD')
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<ImportHistoryOk['data'] | null>(null)
+  const [skipped, setSkipped] = useState<SkippedRow[]>([])
+
+  const headers = rows[0] ?? []
+  const missingFields = IMPORT_FIELDS.filter(f => f.required && mapping[f.field] === undefined)
+  const operations = useMemo(
+    () => step === 'preview' ? buildImportPreview(rows, { mapping, date_format: dateFormat, loans, members }) : [],
+    [step, rows, mapping, dateFormat, loans, members],
+  )
+  const counts = {
+    ready: operations.filter(op => op.status === 'ready').length,
+    duplicate: operations.filter(op => op.status === 'duplicate').length,
+    invalid: operations.filter(op => op.status === 'invalid').length,
+  }
+
+  function reset() {
+    setStep('upload')
+    setFileName('')
+    setRows([])
+    setMapping({})
+    setSelected(new Set())
+    setError(null)
+    setResult(null)
+    setSkipped([])
+  }
+
+  function close() {
+    setOpen(false)
+    reset()
+  }
+
+  async function handleFile(file: File) {
+    setError(null)
+    const parsed = parseCsv(await file.text())
+    if (parsed.length < 2) {
+      setError('The file needs a header row and at least one data row.')
+      return
+    }
+    const guessed = guessMapping(parsed[0])
+    setFileName(file.name)
+    setRows(parsed)
+    setMapping(guessed)
+    setDateFormat(guessDateFormat(guessed.date === undefined ? [] : parsed.slice(1).map(r => r[guessed.date!] ?? '')))
+    setStep('map')
+  }
+
+  function showPreview() {
+    const preview = buildImportPreview(rows, { mapping, date_format: dateFormat, loans, members })
+    setSelected(new Set(preview.filter(op => op.status === 'ready').map(op => op.row)))
+    setStep('preview')
+  }
+
+  function toggle(row: number) {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(row)) next.delete(row)
+      else next.add(row)
+      return next
+    })
+  }
+
+  async function handleImport() {
+    const request = toImportRequest(operations, selected)
+    const sentRows = new Set([
+      ...request.payments.map(p => p.row!),
+      ...operations.filter(op => op.kind === 'create_loan' && request.loans.some(l => l.ref === op.loan_ref)).map(op => op.row),
+    ])
+    setBusy(true)
+    setError(null)
+    try {
+      const { data } = await importHistory(request)
+      setResult(data)
+      // Rows that never left the browser are reported next to the ones the server skipped
+      setSkipped([
+        ...operations
+          .filter(op => !sentRows.has(op.row))
+          .map(op => ({
+            row: op.row,
+            loan_name: op.loan_name,
+            reason: op.status === 'invalid'
+              ? op.note ?? 'invalid'
+              : selected.has(op.row) ? 'its new loan was not selected' : 'not selected',
+          })),
+        ...data.skipped.map(p => ({ row: p.row, loan_name: p.loan_name, reason: p.reason ?? 'skipped' })),
+      ].sort((a, b) => a.row - b.row))
+      setStep('done')
+      onImported?.()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const selectedCount = operations.filter(op => op.status !== 'invalid' && selected.has(op.row)).length
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="flex items-center gap-2 rounded-full bg-white px-4 py-2 text-sm font-semibold text-blue-700 shadow hover:bg-blue-50 transition-colors"
+      >
+        <Upload className="w-4 h-4" />
+        Import CSV
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="flex max-h-[90vh] w-full max-w-4xl flex-col rounded-xl bg-white shadow-xl">
+            <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Import loans and payments</h3>
+                <p className="text-sm text-gray-500">
+                  {step === 'upload' && 'Upload a CSV export from your bank or a spreadsheet'}
+                  {step === 'map' && `${fileName}: ${rows.length - 1} rows. Pick the column for each field.`}
+                  {step === 'preview' && 'Check what will be recorded. Nothing is saved until you import.'}
+                  {step === 'done' && 'Import finished'}
+                </p>
+              </div>
+              <button type="button" onClick={close} className="text-gray-400 hover:text-gray-600" title="Close">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-6 py-4">
+              {step === 'upload' && (
+                <label className="flex cursor-pointer flex-col items-center justify-center gap-3 rounded-lg border-2 border-dashed border-gray-300 px-6 py-12 text-center hover:border-blue-400">
+                  <FileUp className="w-10 h-10 text-blue-600" />
+                  <span className="text-sm text-gray-700">Choose a .csv file</span>
+                  <span className="text-xs text-gray-500">
+                    Rows become payments on the loan named (or aliased) in the description. Rows with a term create a loan.
+                  </span>
+                  <input
+                    type="file"
+                    accept=".csv,text/csv"
+                    className="hidden"
+                    onChange={(e) => { const file = e.target.files?.[0]; if (file) void handleFile(file) }}
+                  />
+                </label>
+              )}
+
+              {step === 'map' && (
+                <div className="space-y-4">
+                  <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+                    {IMPORT_FIELDS.map(({ field, label, required }) => (
+                      <label key={field} className="flex items-center justify-between gap-3 text-sm text-gray-700">
+                        <span>{label}{required && <span className="text-red-500"> *</span>}</span>
+                        <select
+                          value={mapping[field] ?? ''}
+                          onChange={(e) => setMapping(prev => ({ ...prev, [field as ImportField]: e.target.value === '' ? undefined : Number(e.target.value) }))}
+                          className="w-48 rounded border border-gray-300 px-2 py-1 text-sm text-gray-900"
+                        >
+                          <option value="">—</option>
+                          {headers.map((h, i) => (
+                            <option key={i} value={i}>{h || `Column ${i + 1}`}</option>
+                          ))}
+                        </select>
+                      </label>
+                    ))}
+                    <label className="flex items-center justify-between gap-3 text-sm text-gray-700">
+                      <span>Date format</span>
+                      <select
+                        value={dateFormat}
+                        onChange={(e) => setDateFormat(e.target.value as DateFormat)}
+                        className="w-48 rounded border border-gray-300 px-2 py-1 text-sm text-gray-900"
+                      >
+                        <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+                        <option value="MM/DD/YYYY">MM/DD/YYYY</option>
+                        <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+                      </select>
+                    </label>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-left text-gray-500 border-b border-gray-200">
+                          {headers.map((h, i) => <th key={i} className="py-1 pr-3 font-medium">{h || `Column ${i + 1}`}</th>)}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {rows.slice(1, 6).map((r, i) => (
+                          <tr key={i} className="border-b border-gray-100 text-gray-700">
+                            {headers.map((_, j) => <td key={j} className="py-1 pr-3">{r[j]}</td>)}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
+              {step === 'preview' && (
+                <div className="space-y-3">
+                  <p className="text-sm text-gray-600">
+                    {counts.ready} ready • {counts.duplicate} likely duplicate{counts.duplicate === 1 ? '' : 's'} (unselected) • {counts.invalid} can&apos;t be imported
+                  </p>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500 border-b border-gray-200">
+                          <th className="py-2 pr-2"></th>
+                          <th className="py-2 pr-3 font-medium">Row</th>
+                          <th className="py-2 pr-3 font-medium">Action</th>
+                          <th className="py-2 pr-3 font-medium">Loan</th>
+                          <th className="py-2 pr-3 font-medium">Date</th>
+                          <th className="py-2 pr-3 font-medium text-right">Amount</th>
+                          <th className="py-2 font-medium">Status</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {operations.map(op => (
+                          <tr key={op.row} className="border-b border-gray-100 text-gray-700">
+                            <td className="py-2 pr-2">
+                              <input
+                                type="checkbox"
+                                checked={op.status !== 'invalid' && selected.has(op.row)}
+                                disabled={op.status === 'invalid'}
+                                onChange={() => toggle(op.row)}
+                              />
+                            </td>
+                            <td className="py-2 pr-3 text-gray-500">{op.row}</td>
+                            <td className="py-2 pr-3">{op.kind === 'create_loan' ? 'New loan' : 'Payment'}</td>
+                            <td className="py-2 pr-3">
+                              <div className="font-medium text-gray-900">{op.matched_name ?? op.loan_name}</div>
+                              {op.matched_name && op.matched_name !== op.loan_name && (
+                                <div className="text-xs text-gray-500">{op.loan_name}</div>
+                              )}
+                              {op.kind === 'create_loan' && op.term_months && (
+                                <div className="text-xs text-gray-500">
+                                  {op.term_months} mo{op.apr ? ` @ ${op.apr}%` : ''}{op.loan_type ? ` • ${op.loan_type}` : ''}
+                                </div>
+                              )}
+                            </td>
+                            <td className="py-2 pr-3">{op.date ?? '—'}</td>
+                            <td className="py-2 pr-3 text-right">
+                              {op.amount !== undefined ? formatCurrency(op.amount, op.currency) : '—'}
+                              {op.paid_by && <div className="text-xs text-gray-500">{op.paid_by}</div>}
+                            </td>
+                            <td className="py-2">
+                              <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${STATUS_STYLES[op.status]}`}>
+                                {op.status === 'ready' ? 'Ready' : op.status === 'duplicate' ? 'Duplicate?' : 'Skipped'}
+                              </span>
+                              {op.note && <div className="mt-1 text-xs text-gray-500">{op.note}</div>}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
+              {step === 'done' && result && (
+                <div className="space-y-4 text-sm text-gray-700">
+                  <div className="flex items-center gap-2 text-green-700">
+                    <Check className="w-5 h-5" />
+                    <span>
+                      Created {result.created.length} loan{result.created.length === 1 ? '' : 's'} and recorded {result.recorded.length} payment{result.recorded.length === 1 ? '' : 's'}.
+                    </span>
+                  </div>
+                  {result.created.length > 0 && (
+                    <p>New loans: {result.created.map(l => l.name).join(', ')}</p>
+                  )}
+                  {result.recorded.some(p => p.credit) && (
+                    <p className="text-amber-700">
+                      Some payments were more than the balance; the excess is kept as a credit to refund.
+                    </p>
+                  )}
+                  {skipped.length > 0 && (
+                    <div>
+                      <p className="mb-1 font-medium text-gray-900">Skipped {skipped.length} row{skipped.length === 1 ? '' : 's'}</p>
+                      <ul className="space-y-1 text-xs text-gray-600">
+                        {skipped.map(s => (
+                          <li key={s.row}>Row {s.row} ({s.loan_name || 'no loan'}): {s.reason}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {error && (
+                <p className="mt-4 flex items-center gap-2 text-sm text-red-600">
+                  <AlertTriangle className="w-4 h-4" />
+                  {error}
+                </p>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between border-t border-gray-200 px-6 py-4">
+              <button
+                type="button"
+                onClick={() => step === 'preview' ? setStep('map') : step === 'map' ? reset() : close()}
+                className="text-sm font-medium text-gray-600 hover:text-gray-800"
+                disabled={busy}
+              >
+                {step === 'preview' || step === 'map' ? 'Back' : 'Close'}
+              </button>
+              {step === 'map' && (
+                <button
+                  type="button"
+                  onClick={showPreview}
+                  disabled={missingFields.length > 0}
+                  className="rounded-full bg-blue-600 px-5 py-2 text-sm font-semibold text-white shadow hover:bg-blue-700 disabled:opacity-50"
+                  title={missingFields.length ? `Map ${missingFields.map(f => f.label).join(', ')}` : undefined}
+                >
+                  Preview
+                </button>
+              )}
+              {step === 'preview' && (
+                <button
+                  type="button"
+                  onClick={() => void handleImport()}
+                  disabled={busy || selectedCount === 0}
+                  className="flex items-center gap-2 rounded-full bg-blue-600 px-5 py-2 text-sm font-semibold text-white shadow hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Import {selectedCount} row{selectedCount === 1 ? '' : 's'}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
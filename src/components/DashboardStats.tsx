@@ -1,20 +1,29 @@
 import { LoanWithPayments } from '@/lib/hooks/useLoans'
-import { DollarSign, TrendingUp, Users, Calendar } from 'lucide-react'
-import { startOfMonth, endOfMonth } from 'date-fns'
+import { DollarSign, TrendingUp, Users, Calendar, AlertTriangle, Coins } from 'lucide-react'
+import { format, startOfMonth, endOfMonth } from 'date-fns'
 import { parseLocalISODate } from '@/lib/date'
+import { currencyConverter, formatCurrency, summarizeByMember, summarizePortfolio, type ExchangeRate, type Member } from '../index'
 
 interface DashboardStatsProps {
   loans: LoanWithPayments[]
+  members: Member[]
+  rates?: ExchangeRate[]
 }
 
-export function DashboardStats({ loans }: DashboardStatsProps) {
-  // Calculate totals
-  const totalOriginalAmount = loans.reduce((sum, loan) => sum + loan.original_amount, 0)
-  const totalPaid = loans.reduce((sum, loan) => sum + loan.total_paid, 0)
-  const totalRemaining = loans.reduce((sum, loan) => sum + loan.current_balance, 0)
-  const totalMonthly = loans.filter(loan => !loan.is_paid_off).reduce(
-    (sum, loan) => sum + (loan.estimated_monthly_payment ?? (loan.original_amount / Math.max(1, loan.term_months))),
-    0
+export function DashboardStats({ loans, members, rates = [] }: DashboardStatsProps) {
+  // Totals in the household base currency; loans without an exchange rate are left out
+  const portfolio = summarizePortfolio(loans, { rates })
+  const toBase = currencyConverter({ rates })
+  const sumInBase = (items: LoanWithPayments[], amount: (loan: LoanWithPayments) => number) =>
+    items.reduce((sum, loan) => sum + (toBase(amount(loan), loan.currency) ?? 0), 0)
+  const money = (n: number, currency = portfolio.base_currency) => formatCurrency(n, currency)
+
+  const totalOriginalAmount = portfolio.total_original
+  const totalPaid = portfolio.total_paid
+  const totalRemaining = portfolio.total_remaining
+  const totalMonthly = sumInBase(
+    loans.filter(loan => !loan.is_paid_off),
+    loan => loan.estimated_monthly_payment ?? (loan.original_amount / Math.max(1, loan.term_months))
   )
 
   // Get current month payments
@@ -22,31 +31,49 @@ export function DashboardStats({ loans }: DashboardStatsProps) {
   const currentMonthEnd = endOfMonth(new Date())
   
   const currentMonthPayments = loans.flatMap(loan => 
-    loan.payments.filter(payment => {
-      const paymentDate = parseLocalISODate(payment.payment_date)
-      return paymentDate >= currentMonthStart && paymentDate <= currentMonthEnd
-    })
+    loan.payments
+      .filter(payment => {
+        const paymentDate = parseLocalISODate(payment.payment_date)
+        return paymentDate >= currentMonthStart && paymentDate <= currentMonthEnd
+      })
+      .map(payment => ({ ...payment, currency: loan.currency }))
   )
   
-  const thisMonthPaid = currentMonthPayments.reduce((sum, payment) => sum + payment.amount, 0)
+  const thisMonthPaid = currentMonthPayments.reduce((sum, payment) => sum + (toBase(payment.amount, payment.currency) ?? 0), 0)
 
-  // Calculate Steven vs Katerina totals
-  const allPayments = loans.flatMap(loan => loan.payments)
-  const stevenTotal = allPayments
-    .filter(payment => payment.paid_by === 'Steven')
-    .reduce((sum, payment) => sum + payment.amount, 0)
-  
-  const katerinaTotal = allPayments
-    .filter(payment => payment.paid_by === 'Katerina')
-    .reduce((sum, payment) => sum + payment.amount, 0)
+  // Per-member totals (household members first, then any former payers)
+  const memberTotals = summarizeByMember(loans, members, { rates })
+  const topTotal = Math.max(0, ...memberTotals.map(m => m.total_paid))
+  const topContributors = memberTotals.filter(m => m.total_paid === topTotal && topTotal > 0)
 
   const totalProgress = totalOriginalAmount > 0 ? (totalPaid / totalOriginalAmount) * 100 : 0
 
+  // Deferred-interest promos that are on pace to miss their deadline
+  const promoLoans = loans.filter(loan => loan.promo && !loan.is_paid_off)
+  const promosAtRisk = promoLoans.filter(loan => !loan.promo!.on_pace)
+  const interestAtRisk = sumInBase(promosAtRisk, loan => loan.promo!.projected_deferred_interest)
+
+  // Loans with an installment past its due date, most overdue first
+  const overdueLoans = loans
+    .filter(loan => loan.is_overdue)
+    .sort((a, b) => b.days_past_due - a.days_past_due)
+  const totalPastDue = sumInBase(overdueLoans, loan => loan.amount_due)
+  const nextDue = loans
+    .filter(loan => loan.next_due_date && !loan.is_overdue)
+    .sort((a, b) => a.next_due_date!.localeCompare(b.next_due_date!))
+  const nextDueDate = nextDue[0]?.next_due_date
+  const dueThatDay = nextDue.filter(loan => loan.next_due_date === nextDueDate)
+
+  // Overpayments waiting to be refunded
+  const creditLoans = loans.filter(loan => loan.credit_due > 0)
+  const totalCreditDue = sumInBase(creditLoans, loan => loan.credit_due)
+
   const stats = [
     {
       title: 'Total Debt Remaining',
-      value: `$${totalRemaining.toLocaleString()}`,
-      subtext: `of $${totalOriginalAmount.toLocaleString()} original`,
+      value: money(totalRemaining),
+      subtext: `of ${money(totalOriginalAmount)} original` +
+        (portfolio.missing_rates.length ? ` • no exchange rate for ${portfolio.missing_rates.join(', ')}` : ''),
       icon: DollarSign,
       color: 'text-red-600',
       bgColor: 'bg-red-50',
@@ -54,7 +81,7 @@ export function DashboardStats({ loans }: DashboardStatsProps) {
     },
     {
       title: 'Total Monthly Payment',
-      value: `$${totalMonthly.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`,
+      value: money(totalMonthly),
       subtext: 'Sum of estimated monthly payments for open loans',
       icon: DollarSign,
       color: 'text-indigo-600',
@@ -63,7 +90,7 @@ export function DashboardStats({ loans }: DashboardStatsProps) {
     },
     {
       title: 'Total Paid Off',
-      value: `$${totalPaid.toLocaleString()}`,
+      value: money(totalPaid),
       subtext: `${Math.round(totalProgress)}% of all loans`,
       icon: TrendingUp,
       color: 'text-green-600',
@@ -72,7 +99,7 @@ export function DashboardStats({ loans }: DashboardStatsProps) {
     },
     {
       title: 'This Month',
-      value: `$${thisMonthPaid.toLocaleString()}`,
+      value: money(thisMonthPaid),
       subtext: `${currentMonthPayments.length} payments made`,
       icon: Calendar,
       color: 'text-blue-600',
@@ -81,18 +108,70 @@ export function DashboardStats({ loans }: DashboardStatsProps) {
     },
     {
       title: 'Top Contributor',
-      value: stevenTotal > katerinaTotal ? 'Steven' : katerinaTotal > stevenTotal ? 'Katerina' : 'Tied!',
-      subtext: `Steven: $${stevenTotal.toLocaleString()} • Katerina: $${katerinaTotal.toLocaleString()}`,
+      value: topContributors.length === 1 ? topContributors[0].name : topContributors.length > 1 ? 'Tied!' : '—',
+      subtext: memberTotals.length > 0
+        ? memberTotals.map(m => `${m.name}: ${money(m.total_paid)}`).join(' • ')
+        : 'No household members yet',
       icon: Users,
       color: 'text-purple-600',
       bgColor: 'bg-purple-50',
       borderColor: 'border-purple-200'
-    }
+    },
+    ...(nextDueDate ? [{
+      title: 'Next Payment Due',
+      value: money(sumInBase(dueThatDay, loan => loan.amount_due)),
+      subtext: `${format(parseLocalISODate(nextDueDate), 'MMM d')} • ${dueThatDay.map(loan => loan.name).join(', ')}`,
+      icon: Calendar,
+      color: 'text-teal-600',
+      bgColor: 'bg-teal-50',
+      borderColor: 'border-teal-200'
+    }] : []),
+    ...(promoLoans.length > 0 ? [{
+      title: 'Promo Deadlines',
+      value: promosAtRisk.length > 0
+        ? `${promosAtRisk.length} at risk`
+        : 'All on pace',
+      subtext: promosAtRisk.length > 0
+        ? `${promosAtRisk.map(loan => loan.name).join(', ')} • ~${money(interestAtRisk)} deferred interest`
+        : `${promoLoans.length} promo loan${promoLoans.length === 1 ? '' : 's'} tracked`,
+      icon: AlertTriangle,
+      color: promosAtRisk.length > 0 ? 'text-amber-600' : 'text-green-600',
+      bgColor: promosAtRisk.length > 0 ? 'bg-amber-50' : 'bg-green-50',
+      borderColor: promosAtRisk.length > 0 ? 'border-amber-300' : 'border-green-200'
+    }] : []),
+    ...(creditLoans.length > 0 ? [{
+      title: 'Credit to Refund',
+      value: money(totalCreditDue),
+      subtext: `Overpaid on ${creditLoans.map(loan => loan.name).join(', ')}`,
+      icon: Coins,
+      color: 'text-amber-600',
+      bgColor: 'bg-amber-50',
+      borderColor: 'border-amber-200'
+    }] : [])
   ]
 
+  const wideColumns = stats.length > 7 ? '2xl:grid-cols-4' : stats.length > 6 ? '2xl:grid-cols-7' : stats.length > 5 ? '2xl:grid-cols-6' : '2xl:grid-cols-5'
+
   return (
     <div className="mb-8">
-      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 xl:grid-cols-3 2xl:grid-cols-5">
+      {overdueLoans.length > 0 && (
+        <div className="mb-6 rounded-xl border-2 border-red-300 bg-red-50 p-4 shadow-lg">
+          <div className="flex items-center font-semibold text-red-800">
+            <AlertTriangle className="w-5 h-5 mr-2" />
+            {overdueLoans.length} loan{overdueLoans.length === 1 ? '' : 's'} past due • {money(totalPastDue)} to catch up
+          </div>
+          <ul className="mt-2 space-y-1 text-sm text-red-700">
+            {overdueLoans.map(loan => (
+              <li key={loan.id}>
+                <span className="font-medium">{loan.name}</span>: {money(loan.amount_due, loan.currency)} due since{' '}
+                {format(parseLocalISODate(loan.next_due_date!), 'MMM d, yyyy')} ({loan.days_past_due} day{loan.days_past_due === 1 ? '' : 's'} late
+                {loan.missed_periods > 1 ? `, ${loan.missed_periods} missed payments` : ''})
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <div className={`grid grid-cols-1 gap-6 sm:grid-cols-2 xl:grid-cols-3 ${wideColumns}`}>
         {stats.map((stat, index) => (
           <div
             key={index}
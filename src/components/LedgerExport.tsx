@@ -0,0 +1,152 @@
+'use client'
+
+import { useState } from 'react'
+import { LoanWithPayments } from '@/lib/hooks/useLoans'
+import { EXPORT_FORMATS, type ExportDataset, type ExportFormat } from '@/lib/export'
+import { Download, FileText, X } from 'lucide-react'
+import type { Member } from '../index'
+
+interface LedgerExportProps {
+  loans: LoanWithPayments[]
+  members: Member[]
+}
+
+export function LedgerExport({ loans, members }: LedgerExportProps) {
+  const [open, setOpen] = useState(false)
+  const [format, setFormat] = useState<ExportFormat>('csv')
+  const [dataset, setDataset] = useState<ExportDataset>('payments')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [person, setPerson] = useState('')
+  const [loanId, setLoanId] = useState('')
+  const [includeArchived, setIncludeArchived] = useState(false)
+  const [reportYear, setReportYear] = useState(String(new Date().getFullYear() - 1))
+
+  // The file is built by GET /api/export; the link just carries the filters
+  const params = new URLSearchParams({ format })
+  if (format === 'csv') params.set('dataset', dataset)
+  if (from) params.set('from', from)
+  if (to) params.set('to', to)
+  if (person) params.set('person', person)
+  if (loanId) params.set('loan', loanId)
+  if (includeArchived || loans.find(l => l.id === loanId)?.is_archived) params.set('include_archived', 'true')
+  const href = `/api/export?${params.toString()}`
+  const invalidRange = Boolean(from && to && from > to)
+
+  // Year-end report (GET /api/report): every year with a payment, plus this year and last
+  const years = [...new Set([
+    new Date().getFullYear(),
+    new Date().getFullYear() - 1,
+    ...loans.flatMap(l => l.payments.map(p => Number(p.payment_date.slice(0, 4)))),
+  ])].sort((a, b) => b - a)
+  const reportHref = `/api/report?kind=year_end&year=${reportYear}`
+
+  const fieldClass = 'w-48 rounded border border-gray-300 px-2 py-1 text-sm text-gray-900'
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="flex items-center gap-2 rounded-full bg-white px-4 py-2 text-sm font-semibold text-blue-700 shadow hover:bg-blue-50 transition-colors"
+      >
+        <Download className="w-4 h-4" />
+        Export
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="flex w-full max-w-lg flex-col rounded-xl bg-white shadow-xl">
+            <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Export ledger</h3>
+                <p className="text-sm text-gray-500">Download loans and payments for a spreadsheet or budgeting app</p>
+              </div>
+              <button type="button" onClick={() => setOpen(false)} className="text-gray-400 hover:text-gray-600" title="Close">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="space-y-3 px-6 py-4">
+              <label className="flex items-center justify-between gap-3 text-sm text-gray-700">
+                <span>Format</span>
+                <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} className={fieldClass}>
+                  {EXPORT_FORMATS.map(f => <option key={f.format} value={f.format}>{f.label}</option>)}
+                </select>
+              </label>
+              {format === 'csv' && (
+                <label className="flex items-center justify-between gap-3 text-sm text-gray-700">
+                  <span>Rows</span>
+                  <select value={dataset} onChange={(e) => setDataset(e.target.value as ExportDataset)} className={fieldClass}>
+                    <option value="payments">One per payment</option>
+                    <option value="loans">One per loan (balances, progress, due dates)</option>
+                  </select>
+                </label>
+              )}
+              <label className="flex items-center justify-between gap-3 text-sm text-gray-700">
+                <span>Payments from</span>
+                <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={fieldClass} />
+              </label>
+              <label className="flex items-center justify-between gap-3 text-sm text-gray-700">
+                <span>Payments to</span>
+                <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={fieldClass} />
+              </label>
+              <label className="flex items-center justify-between gap-3 text-sm text-gray-700">
+                <span>Paid by</span>
+                <select value={person} onChange={(e) => setPerson(e.target.value)} className={fieldClass}>
+                  <option value="">Everyone</option>
+                  {members.map(m => <option key={m.id} value={m.name}>{m.name}</option>)}
+                </select>
+              </label>
+              <label className="flex items-center justify-between gap-3 text-sm text-gray-700">
+                <span>Loan</span>
+                <select value={loanId} onChange={(e) => setLoanId(e.target.value)} className={fieldClass}>
+                  <option value="">All loans</option>
+                  {loans.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={includeArchived} onChange={(e) => setIncludeArchived(e.target.checked)} />
+                Include archived loans
+              </label>
+              {invalidRange && <p className="text-sm text-red-600">The start date is after the end date</p>}
+            </div>
+
+            <div className="flex items-center justify-between gap-3 border-t border-gray-200 px-6 py-4 text-sm text-gray-700">
+              <span className="flex items-center">
+                <FileText className="w-4 h-4 mr-2 text-blue-600" />
+                Year-end report
+              </span>
+              <div className="flex items-center gap-3">
+                <select value={reportYear} onChange={(e) => setReportYear(e.target.value)} className="rounded border border-gray-300 px-2 py-1 text-sm text-gray-900">
+                  {years.map(y => <option key={y} value={y}>{y}</option>)}
+                </select>
+                <a href={reportHref} target="_blank" rel="noopener noreferrer" className="font-medium text-blue-600 hover:text-blue-800">
+                  Print
+                </a>
+                <a href={`${reportHref}&format=pdf`} download className="font-medium text-blue-600 hover:text-blue-800">
+                  PDF
+                </a>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between border-t border-gray-200 px-6 py-4">
+              <button type="button" onClick={() => setOpen(false)} className="text-sm font-medium text-gray-600 hover:text-gray-800">
+                Close
+              </button>
+              <a
+                href={invalidRange ? undefined : href}
+                download
+                aria-disabled={invalidRange}
+                className={`flex items-center gap-2 rounded-full bg-blue-600 px-5 py-2 text-sm font-semibold text-white shadow hover:bg-blue-700 ${invalidRange ? 'pointer-events-none opacity-50' : ''}`}
+              >
+                <Download className="w-4 h-4" />
+                Download
+              </a>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
@@ -2,19 +2,184 @@
 
 import { useState } from 'react'
 import { LoanWithPayments } from '@/lib/hooks/useLoans'
+import { deletePayment, resolveCredit, restoreLoan, updatePayment } from '@/lib/loan-manager'
 import { format } from 'date-fns'
 import { parseLocalISODate } from '@/lib/date'
-import { Calendar, DollarSign, TrendingDown, User } from 'lucide-react'
+import { AlertTriangle, Archive, Building2, Calendar, Check, Coins, DollarSign, FileText, Flag, Loader2, Pencil, Percent, Repeat, RotateCcw, Trash2, TrendingDown, User, X } from 'lucide-react'
+import { BASE_CURRENCY, describeAutopayRule, EdgeFunctionError, formatCurrency, PROJECTION_MODEL_LABELS, type Member, type Payment } from '../index'
 
 interface LoanCardProps {
   loan: LoanWithPayments
+  members?: Member[]
+  onChange?: () => void
 }
 
-export function LoanCard({ loan }: LoanCardProps) {
+interface PaymentRowProps {
+  payment: Payment
+  currency: string
+  members: Member[]
+  onChange?: () => void
+}
+
+function PaymentRow({ payment, currency, members, onChange }: PaymentRowProps) {
+  const [editing, setEditing] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [amount, setAmount] = useState(String(payment.amount))
+  const [date, setDate] = useState(payment.payment_date)
+  const [paidBy, setPaidBy] = useState<string>(payment.paid_by)
+  // Keep the current payer selectable even if they are no longer a member
+  const payerOptions = members.some(m => m.name === payment.paid_by)
+    ? members.map(m => m.name)
+    : [...members.map(m => m.name), payment.paid_by]
+
+  async function run(fn: () => Promise<unknown>) {
+    setBusy(true)
+    setError(null)
+    try {
+      await fn()
+      setEditing(false)
+      onChange?.()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  function handleSave() {
+    const parsed = Number(amount)
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      setError('Amount must be a positive number')
+      return
+    }
+    const params = { payment_id: payment.id, amount: parsed, payment_date: date, paid_by: paidBy }
+    void run(async () => {
+      try {
+        await updatePayment(params)
+      } catch (err) {
+        // More than is owed: ask, then keep the excess as a credit to refund
+        const over = err instanceof EdgeFunctionError ? err.body?.overpayment : undefined
+        if (!over) throw err
+        const detail = `${formatCurrency(over.amount, over.currency)} is ${formatCurrency(over.excess, over.currency)} more than the ${formatCurrency(over.owed, over.currency)} owed.`
+        if (!window.confirm(`${detail} Save it anyway and keep the excess as a credit to refund?`)) throw new Error(detail)
+        await updatePayment({ ...params, allow_overpayment: true })
+      }
+    })
+  }
+
+  function handleDelete() {
+    const label = `${formatCurrency(payment.amount, currency)} by ${payment.paid_by} on ${format(parseLocalISODate(payment.payment_date), 'MMM d')}`
+    if (!window.confirm(`Delete the ${label} payment? The loan balance will be restored.`)) return
+    void run(() => deletePayment({ payment_id: payment.id }))
+  }
+
+  if (editing) {
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center gap-2 text-sm">
+          <select
+            value={paidBy}
+            onChange={(e) => setPaidBy(e.target.value)}
+            className="rounded border border-gray-300 px-1 py-0.5 text-xs text-gray-900"
+            disabled={busy}
+          >
+            {payerOptions.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="rounded border border-gray-300 px-1 py-0.5 text-xs text-gray-900"
+            disabled={busy}
+          />
+          <input
+            type="number"
+            min="0.01"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className="w-20 rounded border border-gray-300 px-1 py-0.5 text-xs text-gray-900"
+            disabled={busy}
+          />
+          <button type="button" onClick={handleSave} disabled={busy} className="text-green-600 hover:text-green-800" title="Save">
+            {busy ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />}
+          </button>
+          <button type="button" onClick={() => setEditing(false)} disabled={busy} className="text-gray-400 hover:text-gray-600" title="Cancel">
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+    )
+  }
+
+  return (
+    <div className="group">
+      <div className="flex items-center justify-between text-sm">
+        <div className="flex items-center">
+          <User className="w-3 h-3 mr-1 text-gray-400" />
+          <span className="text-gray-600">
+            {payment.paid_by} • {format(parseLocalISODate(payment.payment_date), 'MMM d')}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          {payment.id && (
+            <span className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button type="button" onClick={() => setEditing(true)} disabled={busy} className="text-gray-400 hover:text-blue-600" title="Edit payment">
+                <Pencil className="w-3 h-3" />
+              </button>
+              <button type="button" onClick={handleDelete} disabled={busy} className="text-gray-400 hover:text-red-600" title="Delete payment">
+                {busy ? <Loader2 className="w-3 h-3 animate-spin" /> : <Trash2 className="w-3 h-3" />}
+              </button>
+            </span>
+          )}
+          <span className="font-medium text-gray-900">
+            {formatCurrency(payment.amount, currency)}
+          </span>
+        </div>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
+
+export function LoanCard({ loan, members = [], onChange }: LoanCardProps) {
   const [showAllPayments, setShowAllPayments] = useState(false)
-  const progressPercentage = Math.min((loan.total_paid / loan.original_amount) * 100, 100)
+  const [restoring, setRestoring] = useState(false)
+  const [refunding, setRefunding] = useState<string | null>(null)
+  const progressPercentage = loan.progress_percentage
   const remainingAmount = loan.current_balance
   const isPaidOff = remainingAmount === 0
+  const promo = loan.promo
+  const money = (n: number) => formatCurrency(n, loan.currency)
+
+  async function handleRestore() {
+    setRestoring(true)
+    try {
+      await restoreLoan({ loan_id: loan.id })
+      onChange?.()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to restore loan')
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  // The excess of an overpayment was handed back to the payer
+  async function handleRefunded(creditId: string) {
+    setRefunding(creditId)
+    try {
+      await resolveCredit({ credit_id: creditId })
+      onChange?.()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to mark the credit as refunded')
+    } finally {
+      setRefunding(null)
+    }
+  }
 
   // Calculate the stroke-dasharray for the circular progress
   const circumference = 2 * Math.PI * 45 // radius = 45
@@ -22,7 +187,30 @@ export function LoanCard({ loan }: LoanCardProps) {
   const strokeDashoffset = circumference - (progressPercentage / 100) * circumference
 
   return (
-    <div className="bg-white rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 p-6 border border-gray-100">
+    <div
+      className={`bg-white rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 p-6 border border-gray-100 ${
+        loan.is_archived ? 'opacity-75' : ''
+      }`}
+    >
+      {/* Archived */}
+      {loan.is_archived && (
+        <div className="mb-4 flex items-center justify-between rounded-lg border border-gray-200 bg-gray-50 px-3 py-2 text-xs text-gray-600">
+          <span className="flex items-center font-medium">
+            <Archive className="w-3 h-3 mr-1" />
+            Archived{loan.archived_at ? ` ${format(new Date(loan.archived_at), 'MMM d, yyyy')}` : ''}
+          </span>
+          <button
+            type="button"
+            onClick={handleRestore}
+            disabled={restoring}
+            className="flex items-center font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+          >
+            {restoring ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <RotateCcw className="w-3 h-3 mr-1" />}
+            Restore
+          </button>
+        </div>
+      )}
+
       {/* Header */}
       <div className="flex items-start justify-between mb-4">
         <div>
@@ -30,14 +218,54 @@ export function LoanCard({ loan }: LoanCardProps) {
           <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
             {loan.loan_type}
           </span>
+          {loan.currency !== BASE_CURRENCY && (
+            <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+              {loan.currency}
+            </span>
+          )}
         </div>
         {isPaidOff && (
           <div className="bg-green-100 text-green-800 text-xs font-medium px-2 py-1 rounded-full">
             PAID OFF! 🎉
           </div>
         )}
+        {loan.is_overdue && !loan.is_archived && (
+          <div
+            className="bg-red-100 text-red-800 text-xs font-medium px-2 py-1 rounded-full flex items-center"
+            title={`${loan.missed_periods} missed payment${loan.missed_periods === 1 ? '' : 's'}; due since ${loan.next_due_date}`}
+          >
+            <AlertTriangle className="w-3 h-3 mr-1" />
+            {loan.days_past_due}d PAST DUE
+          </div>
+        )}
       </div>
 
+      {/* Deferred-interest promo */}
+      {promo && !isPaidOff && (
+        <div
+          className={`mb-4 rounded-lg border px-3 py-2 text-xs ${
+            promo.on_pace ? 'border-green-200 bg-green-50 text-green-800' : 'border-amber-300 bg-amber-50 text-amber-900'
+          }`}
+        >
+          <div className="flex items-center font-medium">
+            {!promo.on_pace && <AlertTriangle className="w-3 h-3 mr-1" />}
+            {promo.expired
+              ? `Promo ended ${format(parseLocalISODate(promo.promo_end_date), 'MMM d, yyyy')}`
+              : `Promo ends ${format(parseLocalISODate(promo.promo_end_date), 'MMM d, yyyy')}`}
+            {promo.on_pace && ' • on pace'}
+          </div>
+          {!promo.on_pace && (
+            <div className="mt-1">
+              {promo.expired
+                ? 'Balance not cleared in time'
+                : `Pay ${money(promo.required_monthly_payment)}/mo to clear it`}
+              {promo.projected_deferred_interest > 0 &&
+                ` • ~${money(promo.projected_deferred_interest)} deferred interest at risk`}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Circular Progress Gauge */}
       <div className="flex items-center justify-center mb-6">
         <div className="relative w-32 h-32">
@@ -86,7 +314,7 @@ export function LoanCard({ loan }: LoanCardProps) {
             Total Paid
           </span>
           <span className="font-semibold text-green-600">
-            ${loan.total_paid.toLocaleString()}
+            {money(loan.total_paid)}
           </span>
         </div>
         <div className="flex items-center justify-between">
@@ -95,7 +323,7 @@ export function LoanCard({ loan }: LoanCardProps) {
             Remaining
           </span>
           <span className="font-semibold text-gray-900">
-            ${remainingAmount.toLocaleString()}
+            {money(remainingAmount)}
           </span>
         </div>
         <div className="flex items-center justify-between">
@@ -113,9 +341,110 @@ export function LoanCard({ loan }: LoanCardProps) {
             Est. Monthly
           </span>
           <span className="font-semibold text-gray-900">
-            ${loan.estimated_monthly_payment.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+            {money(loan.estimated_monthly_payment)}
           </span>
         </div>
+        {(loan.apr ?? 0) > 0 && (
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-600 flex items-center">
+              <Percent className="w-4 h-4 mr-1" />
+              APR
+            </span>
+            <span className="text-sm text-gray-900">
+              {loan.apr}% • {money(loan.total_interest_paid)} interest paid
+            </span>
+          </div>
+        )}
+        {loan.next_due_date && (
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-600 flex items-center">
+              <Calendar className="w-4 h-4 mr-1" />
+              {loan.is_overdue ? 'Past Due' : 'Next Due'}
+            </span>
+            <span className={`text-sm text-right ${loan.is_overdue ? 'font-semibold text-red-600' : 'text-gray-900'}`}>
+              {money(loan.amount_due)} •{' '}
+              {format(parseLocalISODate(loan.next_due_date), 'MMM d, yyyy')}
+              {loan.missed_periods > 1 && <span className="block text-xs">{loan.missed_periods} missed payments</span>}
+            </span>
+          </div>
+        )}
+        {loan.projected_payoff_date && loan.projection_model && (
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-600 flex items-center">
+              <Flag className="w-4 h-4 mr-1" />
+              Projected Payoff
+            </span>
+            <span className="text-sm text-gray-900 text-right">
+              {format(parseLocalISODate(loan.projected_payoff_date), 'MMM yyyy')}
+              <span className="text-gray-500"> • {PROJECTION_MODEL_LABELS[loan.projection_model]}</span>
+              {loan.projection_range && loan.projection_range.optimistic !== loan.projection_range.pessimistic && (
+                <span className="block text-xs text-gray-500">
+                  {format(parseLocalISODate(loan.projection_range.optimistic), 'MMM yyyy')} –{' '}
+                  {format(parseLocalISODate(loan.projection_range.pessimistic), 'MMM yyyy')}
+                </span>
+              )}
+            </span>
+          </div>
+        )}
+        {loan.lender && (
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-600 flex items-center">
+              <Building2 className="w-4 h-4 mr-1" />
+              Lender
+            </span>
+            <span className="text-sm text-gray-900 text-right">
+              {loan.lender.website ? (
+                <a
+                  href={/^https?:\/\//.test(loan.lender.website) ? loan.lender.website : `https://${loan.lender.website}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:text-blue-800"
+                >
+                  {loan.lender.name}
+                </a>
+              ) : (
+                loan.lender.name
+              )}
+              {loan.lender.account_last4 && <span className="text-gray-500"> • ••{loan.lender.account_last4}</span>}
+              {loan.lender.phone && (
+                <a href={`tel:${loan.lender.phone}`} className="block text-xs text-gray-500 hover:text-gray-700">
+                  {loan.lender.phone}
+                </a>
+              )}
+            </span>
+          </div>
+        )}
+        {loan.autopay_rules?.filter((r) => r.active).map((rule) => (
+          <div key={rule.id} className="flex items-center justify-between">
+            <span className="text-sm text-gray-600 flex items-center">
+              <Repeat className="w-4 h-4 mr-1" />
+              Autopay
+            </span>
+            <span className="text-sm text-gray-900 text-right">{describeAutopayRule(rule, loan.currency)}</span>
+          </div>
+        ))}
+        {loan.credits.filter((c) => c.status === 'open').map((credit) => (
+          <div key={credit.id} className="flex items-center justify-between">
+            <span className="text-sm text-gray-600 flex items-center">
+              <Coins className="w-4 h-4 mr-1" />
+              Credit Due
+            </span>
+            <span className="text-sm text-right font-semibold text-amber-700">
+              {money(Number(credit.amount))} to {credit.paid_by}
+              <span className="block text-xs font-normal text-gray-500">
+                overpaid {format(parseLocalISODate(credit.credit_date), 'MMM d, yyyy')} •{' '}
+                <button
+                  type="button"
+                  onClick={() => handleRefunded(credit.id)}
+                  disabled={refunding === credit.id}
+                  className="font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                >
+                  {refunding === credit.id ? 'Saving…' : 'Mark refunded'}
+                </button>
+              </span>
+            </span>
+          </div>
+        ))}
       </div>
 
       {/* Recent Payments */}
@@ -124,17 +453,7 @@ export function LoanCard({ loan }: LoanCardProps) {
           <h4 className="text-sm font-medium text-gray-900 mb-2">Recent Payments</h4>
           <div className="space-y-2">
             {(showAllPayments ? loan.payments : loan.payments.slice(0, 2)).map((payment) => (
-              <div key={payment.id} className="flex items-center justify-between text-sm">
-                <div className="flex items-center">
-                  <User className="w-3 h-3 mr-1 text-gray-400" />
-                  <span className="text-gray-600">
-                    {payment.paid_by} • {format(parseLocalISODate(payment.payment_date), 'MMM d')}
-                  </span>
-                </div>
-                <span className="font-medium text-gray-900">
-                  ${payment.amount}
-                </span>
-              </div>
+              <PaymentRow key={payment.id} payment={payment} currency={loan.currency} members={members} onChange={onChange} />
             ))}
             {loan.payments.length > 2 && (
               <button
@@ -150,6 +469,29 @@ export function LoanCard({ loan }: LoanCardProps) {
           </div>
         </div>
       )}
+
+      {/* Statement (GET /api/report) */}
+      <div className="mt-4 flex items-center justify-end gap-3 border-t pt-3 text-xs">
+        <span className="flex items-center text-gray-500">
+          <FileText className="w-3 h-3 mr-1" />
+          Statement
+        </span>
+        <a
+          href={`/api/report?kind=statement&loan=${encodeURIComponent(loan.id)}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="font-medium text-blue-600 hover:text-blue-800"
+        >
+          Print
+        </a>
+        <a
+          href={`/api/report?kind=statement&loan=${encodeURIComponent(loan.id)}&format=pdf`}
+          download
+          className="font-medium text-blue-600 hover:text-blue-800"
+        >
+          PDF
+        </a>
+      </div>
     </div>
   )
 }
@@ -3,14 +3,20 @@ import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Ba
 import { format } from 'date-fns'
 import { parseLocalISODate } from '@/lib/date'
 import { TrendingUp } from 'lucide-react'
+import { BASE_CURRENCY, currencyConverter, formatCurrency, summarizeByMember, type ExchangeRate, type Member } from '../index'
 
 interface PaymentChartProps {
   loans: LoanWithPayments[]
+  members: Member[]
+  rates?: ExchangeRate[]
 }
 
-export function PaymentChart({ loans }: PaymentChartProps) {
-  // Get all payments and group by month
-  const allPayments = loans.flatMap(loan => loan.payments)
+export function PaymentChart({ loans, members, rates = [] }: PaymentChartProps) {
+  // Get all payments (in the base currency) and group by month
+  const toBase = currencyConverter({ rates })
+  const allPayments = loans.flatMap(loan =>
+    loan.payments.map(payment => ({ ...payment, amount: toBase(payment.amount, loan.currency) ?? 0 }))
+  )
   
   if (allPayments.length === 0) {
     return (
@@ -26,24 +32,24 @@ export function PaymentChart({ loans }: PaymentChartProps) {
     )
   }
 
+  // One stacked series per payer (members in order, then any former payers)
+  const series = summarizeByMember(loans, members, { rates })
+
   // Group payments by month and person
   const paymentsByMonth = allPayments.reduce((acc, payment) => {
     const monthKey = format(parseLocalISODate(payment.payment_date), 'MMM yyyy')
     
     if (!acc[monthKey]) {
-      acc[monthKey] = {
-        month: monthKey,
-        Steven: 0,
-        Katerina: 0,
-        total: 0
-      }
+      acc[monthKey] = { month: monthKey, total: 0 }
+      for (const s of series) acc[monthKey][s.name] = 0
     }
     
-    acc[monthKey][payment.paid_by as 'Steven' | 'Katerina'] += payment.amount
+    const payer = series.find(s => s.name.toLowerCase() === payment.paid_by.toLowerCase())?.name ?? payment.paid_by
+    acc[monthKey][payer] = ((acc[monthKey][payer] as number) ?? 0) + payment.amount
     acc[monthKey].total += payment.amount
     
     return acc
-  }, {} as Record<string, { month: string; Steven: number; Katerina: number; total: number }>)
+  }, {} as Record<string, { month: string; total: number; [payer: string]: string | number }>)
 
   // Convert to array and sort by date
   const chartData = Object.values(paymentsByMonth).sort((a, b) => {
@@ -72,7 +78,8 @@ export function PaymentChart({ loans }: PaymentChartProps) {
             <YAxis 
               tick={{ fontSize: 12 }}
               axisLine={false}
-              tickFormatter={(value) => `$${value}`}
+              tickFormatter={(value: number) =>
+                new Intl.NumberFormat(undefined, { style: 'currency', currency: BASE_CURRENCY, maximumFractionDigits: 0 }).format(value)}
             />
             <Tooltip
               contentStyle={{
@@ -81,37 +88,31 @@ export function PaymentChart({ loans }: PaymentChartProps) {
                 borderRadius: '8px',
                 boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)'
               }}
-              formatter={(value: number, name: string) => [`$${value.toLocaleString()}`, name]}
+              formatter={(value: number, name: string) => [formatCurrency(value, BASE_CURRENCY), name]}
               labelStyle={{ color: '#374151' }}
             />
-            <Bar 
-              dataKey="Steven" 
-              stackId="payments"
-              fill="#3b82f6" 
-              radius={[0, 0, 4, 4]}
-              name="Steven"
-            />
-            <Bar 
-              dataKey="Katerina" 
-              stackId="payments"
-              fill="#8b5cf6" 
-              radius={[4, 4, 0, 0]}
-              name="Katerina"
-            />
+            {series.map((s, i) => (
+              <Bar
+                key={s.name}
+                dataKey={s.name}
+                stackId="payments"
+                fill={s.color}
+                radius={i === series.length - 1 ? [4, 4, 0, 0] : i === 0 ? [0, 0, 4, 4] : [0, 0, 0, 0]}
+                name={s.name}
+              />
+            ))}
           </BarChart>
         </ResponsiveContainer>
       </div>
 
       {/* Legend */}
-      <div className="flex items-center justify-center space-x-6 mt-4">
-        <div className="flex items-center">
-          <div className="w-3 h-3 bg-blue-500 rounded mr-2"></div>
-          <span className="text-sm text-gray-600">Steven</span>
-        </div>
-        <div className="flex items-center">
-          <div className="w-3 h-3 bg-purple-500 rounded mr-2"></div>
-          <span className="text-sm text-gray-600">Katerina</span>
-        </div>
+      <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-2 mt-4">
+        {series.map(s => (
+          <div key={s.name} className="flex items-center">
+            <div className="w-3 h-3 rounded mr-2" style={{ backgroundColor: s.color }}></div>
+            <span className="text-sm text-gray-600">{s.name}</span>
+          </div>
+        ))}
       </div>
     </div>
   )
@@ -0,0 +1,262 @@
+import { useState } from 'react'
+import { LoanWithPayments } from '@/lib/hooks/useLoans'
+import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line } from 'recharts'
+import { format } from 'date-fns'
+import { parseLocalISODate } from '@/lib/date'
+import { Target, ChevronUp, ChevronDown } from 'lucide-react'
+import { BASE_CURRENCY, comparePayoffStrategies, formatCurrency, inBaseCurrency, type ExchangeRate, type PayoffPlan, type PayoffStrategy } from '../index'
+
+interface PayoffPlannerProps {
+  loans: LoanWithPayments[]
+  rates?: ExchangeRate[]
+}
+
+const STRATEGY_LABELS: Record<PayoffPlan['strategy'], string> = {
+  minimum: 'Minimums only',
+  avalanche: 'Avalanche',
+  snowball: 'Snowball',
+  custom: 'Custom order',
+}
+
+const STRATEGY_COLORS: Record<PayoffPlan['strategy'], string> = {
+  minimum: '#9ca3af',
+  avalanche: '#3b82f6',
+  snowball: '#10b981',
+  custom: '#8b5cf6',
+}
+
+const money = (n: number) => formatCurrency(n, BASE_CURRENCY)
+const monthLabel = (yyyyMm?: string) => yyyyMm ? format(parseLocalISODate(`${yyyyMm}-01`), 'MMM yyyy') : 'Never'
+
+export function PayoffPlanner({ loans, rates = [] }: PayoffPlannerProps) {
+  const [extra, setExtra] = useState('100')
+  const [selected, setSelected] = useState<PayoffStrategy>('avalanche')
+  const [customOrder, setCustomOrder] = useState<string[]>([])
+
+  // Planned in the base currency; loans without an exchange rate can't be compared and are left out
+  const unpaidLoans = loans.filter(loan => !loan.is_paid_off)
+  const openLoans = inBaseCurrency(unpaidLoans, { rates })
+  const leftOut = unpaidLoans.filter(loan => !openLoans.some(l => l.id === loan.id))
+  const extraMonthly = Math.max(0, Number(extra) || 0)
+
+  const comparison = comparePayoffStrategies(openLoans, extraMonthly, {
+    order: customOrder.length ? customOrder : undefined,
+  })
+
+  if (openLoans.length === 0) {
+    return (
+      <div className="bg-white rounded-xl p-6 shadow-lg mb-8">
+        <div className="flex items-center mb-4">
+          <Target className="w-5 h-5 mr-2 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Payoff Planner</h3>
+        </div>
+        <div className="text-center py-8">
+          <p className="text-gray-500">No open loans to plan for</p>
+        </div>
+      </div>
+    )
+  }
+
+  const rows = [comparison.baseline, ...comparison.plans]
+  const plan = comparison.plans.find(p => p.strategy === selected) ?? comparison.plans[0]
+
+  // Moving a loan turns the order on screen into the custom order
+  const orderedIds = plan.loans.map(l => l.loan_id)
+  const moveLoan = (index: number, delta: number) => {
+    const next = orderedIds.slice()
+    const [id] = next.splice(index, 1)
+    next.splice(index + delta, 0, id)
+    setCustomOrder(next)
+    setSelected('custom')
+  }
+
+  // One balance line per strategy, month by month
+  const horizon = Math.max(...rows.map(p => p.timeline.length))
+  const chartData = Array.from({ length: horizon }, (_, i) => {
+    const point: Record<string, string | number> = {
+      month: rows.find(p => p.timeline[i])!.timeline[i].date,
+    }
+    for (const p of rows) point[p.strategy] = p.timeline[i]?.balance ?? 0
+    return point
+  })
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-lg mb-8">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+        <div className="flex items-center">
+          <Target className="w-5 h-5 mr-2 text-blue-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Payoff Planner</h3>
+            <p className="text-sm text-gray-600">
+              Minimum payments of {money(comparison.baseline.monthly_budget)} plus an extra budget, one loan at a time
+            </p>
+            {leftOut.length > 0 && (
+              <p className="text-xs text-amber-700">
+                Not included (no exchange rate to {BASE_CURRENCY}): {leftOut.map(loan => loan.name).join(', ')}
+              </p>
+            )}
+          </div>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Extra per month
+          <span className="flex items-center rounded-lg border border-gray-300 px-2 py-1 focus-within:ring-2 focus-within:ring-blue-500">
+            <span className="text-gray-500">{BASE_CURRENCY}</span>
+            <input
+              type="number"
+              min={0}
+              step={25}
+              value={extra}
+              onChange={(e) => setExtra(e.target.value)}
+              className="w-24 bg-transparent px-1 outline-none"
+            />
+          </span>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Strategy comparison */}
+        <div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-3 font-medium">Strategy</th>
+                  <th className="py-2 pr-3 font-medium">Debt-free</th>
+                  <th className="py-2 pr-3 font-medium text-right">Interest</th>
+                  <th className="py-2 font-medium text-right">Saved</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(p => {
+                  const selectable = p.strategy !== 'minimum'
+                  const isSelected = p.strategy === plan.strategy
+                  return (
+                    <tr
+                      key={p.strategy}
+                      onClick={selectable ? () => setSelected(p.strategy as PayoffStrategy) : undefined}
+                      className={`border-b border-gray-100 ${selectable ? 'cursor-pointer hover:bg-gray-50' : ''} ${isSelected ? 'bg-blue-50' : ''}`}
+                    >
+                      <td className="py-2 pr-3 font-medium text-gray-900">
+                        <span className="inline-block w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: STRATEGY_COLORS[p.strategy] }}></span>
+                        {STRATEGY_LABELS[p.strategy]}
+                        {p.strategy === comparison.best && (
+                          <span className="ml-2 rounded-full bg-green-100 px-2 py-0.5 text-xs font-semibold text-green-700">Best</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-3 text-gray-700">
+                        {monthLabel(p.debt_free_date)}
+                        {p.months_to_debt_free !== undefined && (
+                          <span className="text-gray-400"> ({p.months_to_debt_free} mo)</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-3 text-right text-gray-700">{money(p.total_interest)}</td>
+                      <td className="py-2 text-right text-green-700">
+                        {p.strategy === 'minimum'
+                          ? '—'
+                          : `${money(p.interest_saved)}${p.months_saved ? ` • ${p.months_saved} mo` : ''}`}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Payoff order for the selected strategy */}
+          <h4 className="mt-6 mb-2 text-sm font-semibold text-gray-900">
+            {STRATEGY_LABELS[plan.strategy]} order
+            <span className="ml-2 font-normal text-gray-500">use the arrows to build a custom order</span>
+          </h4>
+          <ol className="space-y-2">
+            {plan.loans.map((l, index) => (
+              <li key={l.loan_id} className="flex items-center justify-between rounded-lg bg-gray-50 px-3 py-2 text-sm">
+                <div>
+                  <span className="font-medium text-gray-900">{l.priority}. {l.name}</span>
+                  <span className="ml-2 text-gray-500">
+                    {money(l.starting_balance)}{l.apr > 0 ? ` @ ${l.apr}%` : ''}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-gray-700">Paid off {monthLabel(l.payoff_date)}</span>
+                  <span className="flex flex-col">
+                    <button
+                      type="button"
+                      aria-label={`Move ${l.name} up`}
+                      disabled={index <= 0}
+                      onClick={() => moveLoan(index, -1)}
+                      className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      aria-label={`Move ${l.name} down`}
+                      disabled={index === orderedIds.length - 1}
+                      onClick={() => moveLoan(index, 1)}
+                      className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                  </span>
+                </div>
+              </li>
+            ))}
+          </ol>
+          {customOrder.length > 0 && (
+            <button
+              type="button"
+              className="mt-3 text-sm font-medium text-blue-600 hover:text-blue-800"
+              onClick={() => { setCustomOrder([]); setSelected('avalanche') }}
+            >
+              Reset custom order
+            </button>
+          )}
+        </div>
+
+        {/* Remaining balance over time */}
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+              <XAxis
+                dataKey="month"
+                tick={{ fontSize: 12 }}
+                axisLine={false}
+                tickFormatter={(value: string) => monthLabel(value)}
+              />
+              <YAxis
+                tick={{ fontSize: 12 }}
+                axisLine={false}
+                tickFormatter={(value: number) =>
+                  new Intl.NumberFormat(undefined, { style: 'currency', currency: BASE_CURRENCY, maximumFractionDigits: 0 }).format(value)}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: 'white',
+                  border: '1px solid #e5e7eb',
+                  borderRadius: '8px',
+                  boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)'
+                }}
+                formatter={(value: number, name: string) => [money(value), name]}
+                labelFormatter={(label: string) => monthLabel(label)}
+                labelStyle={{ color: '#374151' }}
+              />
+              {rows.map(p => (
+                <Line
+                  key={p.strategy}
+                  type="monotone"
+                  dataKey={p.strategy}
+                  name={STRATEGY_LABELS[p.strategy]}
+                  stroke={STRATEGY_COLORS[p.strategy]}
+                  strokeWidth={p.strategy === plan.strategy ? 3 : 1.5}
+                  strokeDasharray={p.strategy === 'minimum' ? '4 4' : undefined}
+                  dot={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,26 +1,47 @@
 import { LoanWithPayments } from '@/lib/hooks/useLoans'
 import { format, formatDistanceToNow } from 'date-fns'
 import { parseLocalISODate } from '@/lib/date'
-import { Activity, DollarSign, User, Calendar } from 'lucide-react'
+import { Activity, DollarSign, User, Users, Calendar } from 'lucide-react'
+import { formatCurrency, memberColor, type Member } from '../index'
 
 interface RecentActivityProps {
   loans: LoanWithPayments[]
+  members: Member[]
 }
 
-export function RecentActivity({ loans }: RecentActivityProps) {
+export function RecentActivity({ loans, members }: RecentActivityProps) {
   // Get all payments and sort by most recent
-  const allPayments = loans
+  const sortedPayments = loans
     .flatMap(loan => 
       loan.payments.map(payment => ({
         ...payment,
         loan_name: loan.name,
-        loan_type: loan.loan_type
+        loan_type: loan.loan_type,
+        currency: loan.currency
       }))
     )
     .sort((a, b) => parseLocalISODate(b.payment_date).getTime() - parseLocalISODate(a.payment_date).getTime())
-    .slice(0, 8) // Show last 8 activities
 
-  if (allPayments.length === 0) {
+  // Rows of one split payment (shared split_group_id) show as a single entry
+  const activities: { key: string; parts: typeof sortedPayments }[] = []
+  const bySplit = new Map<string, typeof sortedPayments>()
+  for (const payment of sortedPayments) {
+    if (!payment.split_group_id) {
+      activities.push({ key: payment.id ?? `${payment.loan_id}-${payment.payment_date}-${payment.amount}`, parts: [payment] })
+      continue
+    }
+    const parts = bySplit.get(payment.split_group_id)
+    if (parts) {
+      parts.push(payment)
+    } else {
+      const group = [payment]
+      bySplit.set(payment.split_group_id, group)
+      activities.push({ key: payment.split_group_id, parts: group })
+    }
+  }
+  const recentActivities = activities.slice(0, 8) // Show last 8 activities
+
+  if (recentActivities.length === 0) {
     return (
       <div className="bg-white rounded-xl p-6 shadow-lg">
         <div className="flex items-center mb-4">
@@ -45,47 +66,66 @@ export function RecentActivity({ loans }: RecentActivityProps) {
       </div>
 
       <div className="space-y-4 max-h-64 overflow-y-auto">
-        {allPayments.map((payment) => (
-          <div key={payment.id} className="flex items-start space-x-3 p-3 hover:bg-gray-50 rounded-lg transition-colors">
-            <div className={`p-2 rounded-full ${
-              payment.paid_by === 'Steven' ? 'bg-blue-100' : 'bg-purple-100'
-            }`}>
-              <DollarSign className={`w-4 h-4 ${
-                payment.paid_by === 'Steven' ? 'text-blue-600' : 'text-purple-600'
-              }`} />
-            </div>
+        {recentActivities.map(({ key, parts }) => {
+          const payment = parts[0]
+          const payers = [...new Set(parts.map(part => part.paid_by))]
+          const loanNames = [...new Set(parts.map(part => part.loan_name))]
+          const loanTypes = [...new Set(parts.map(part => part.loan_type))]
+          const total = parts.reduce((sum, part) => sum + part.amount, 0)
+          const isSplit = parts.length > 1
+
+          return (
+            <div key={key} className="flex items-start space-x-3 p-3 hover:bg-gray-50 rounded-lg transition-colors">
+              <div
+                className="p-2 rounded-full"
+                style={{ backgroundColor: `${memberColor(members, payment.paid_by)}1a` }}
+              >
+                {payers.length > 1
+                  ? <Users className="w-4 h-4" style={{ color: memberColor(members, payment.paid_by) }} />
+                  : <DollarSign className="w-4 h-4" style={{ color: memberColor(members, payment.paid_by) }} />}
+              </div>
             
-            <div className="flex-1 min-w-0">
-              <div className="flex items-start justify-between">
-                <div>
-                  <p className="text-sm font-medium text-gray-900">
-                    {payment.paid_by} made a payment
-                  </p>
-                  <p className="text-sm text-gray-600">
-                    ${payment.amount.toLocaleString()} toward {payment.loan_name}
-                  </p>
-                  <div className="flex items-center mt-1 space-x-3">
-                    <span className="inline-flex items-center text-xs text-gray-500">
-                      <Calendar className="w-3 h-3 mr-1" />
-                      {format(parseLocalISODate(payment.payment_date), 'MMM d, yyyy')}
-                    </span>
-                    <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
-                      {payment.loan_type}
-                    </span>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {payers.length > 1 ? `${payers.join(' & ')} split a payment` : `${payment.paid_by} made a payment`}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {formatCurrency(total, payment.currency)} toward {loanNames.join(', ')}
+                    </p>
+                    {isSplit && (
+                      <p className="text-xs text-gray-500">
+                        {parts
+                          .map(part => `${payers.length > 1 ? `${part.paid_by} ` : ''}${formatCurrency(part.amount, part.currency)}${loanNames.length > 1 ? ` → ${part.loan_name}` : ''}`)
+                          .join(' • ')}
+                      </p>
+                    )}
+                    <div className="flex items-center mt-1 space-x-3">
+                      <span className="inline-flex items-center text-xs text-gray-500">
+                        <Calendar className="w-3 h-3 mr-1" />
+                        {format(parseLocalISODate(payment.payment_date), 'MMM d, yyyy')}
+                      </span>
+                      {loanTypes.map(type => (
+                        <span key={type} className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                          {type}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-xs text-gray-500">
+                      {formatDistanceToNow(parseLocalISODate(payment.payment_date), { addSuffix: true })}
+                    </p>
                   </div>
-                </div>
-                <div className="text-right">
-                  <p className="text-xs text-gray-500">
-                    {formatDistanceToNow(parseLocalISODate(payment.payment_date), { addSuffix: true })}
-                  </p>
                 </div>
               </div>
             </div>
-          </div>
-        ))}
+          )
+        })}
       </div>
 
-      {allPayments.length === 8 && (
+      {recentActivities.length === 8 && (
         <div className="mt-4 text-center">
           <p className="text-xs text-gray-500">Showing recent 8 activities</p>
         </div>
@@ -1,28 +1,53 @@
 // src/index.ts – Web app caller + summaries for the loan tracker
 //
 // What this file does:
-// 1) Calls your Supabase Edge Function "loan-manager" with Authorization: Bearer <JWT>.
-// 2) Provides typed helpers: createLoan, addPayment, getLoans, deleteLoan.
+// 1) Calls your Supabase Edge Function "loan-manager" with Authorization: Bearer <JWT>,
+//    giving create_loan / add_payment an idempotency_key and retrying them after network errors.
+// 2) Provides typed helpers: createLoan, addPayment, addSplitPayment, updatePayment, deletePayment,
+//    addAdjustment, getLoans, reconcileLoans, updateLoan, archiveLoan, restoreLoan, purgeLoan,
+//    deleteLoan (deprecated alias of archiveLoan),
+//    getLenders, upsertLender, getMembers, upsertMember, getAutopayRules, upsertAutopayRule,
+//    deleteAutopayRule, runScheduledPayments, getReminderPrefs, upsertReminderPrefs, sendReminders,
+//    resolveCredit, getExchangeRates, upsertExchangeRate, importHistory.
 // 3) Computes rich summaries for UI dashboards (portfolio totals, per-loan derived fields,
-//    grouping by loan_type, progress %, projected payoff date, etc.).
+//    grouping by loan_type and lender, progress %, projected payoff date, etc.).
+// 4) Amortization math for interest-bearing loans (monthly payment + full schedule).
+// 5) Payoff planner: avalanche / snowball / custom orderings simulated month by month,
+//    plus "what if" projections for an extra monthly amount.
+// 6) Currencies: each loan keeps its own; portfolio totals are converted into the
+//    household base currency with the exchange rates in effect on a date.
 //
 // REQUIRED ENV (e.g., .env.local in Next.js):
 //   NEXT_PUBLIC_SUPABASE_URL=https://<your-project>.supabase.co
 //   NEXT_PUBLIC_SUPABASE_ANON_KEY=eyJhbGciOiJI...   // anon (public) key
+// OPTIONAL:
+//   NEXT_PUBLIC_BASE_CURRENCY=USD                   // household base currency (ISO 4217)
 //
 // NOTE: This file does NOT use a shared supabase client. It uses plain fetch per call.
 
-import { parseISO } from "date-fns";
+import { addMonths, differenceInCalendarDays, differenceInCalendarMonths, format, parseISO } from "date-fns";
 
 const NEXT_PUBLIC_SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const NEXT_PUBLIC_SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
 const FUNCTION_NAME = "loan-manager";
 
+/** Portfolio totals are reported in this currency */
+export const BASE_CURRENCY = (process.env.NEXT_PUBLIC_BASE_CURRENCY || "USD").toUpperCase();
+
 // ───────────────────────────────────────────────────────────────────────────────
 // Types that match your Edge Function responses
 // ───────────────────────────────────────────────────────────────────────────────
 
-export type PaidBy = "Steven" | "Katerina";
+/** Name of a household member (see getMembers); the edge function rejects anyone else */
+export type PaidBy = string;
+
+export interface Member {
+  id: string;
+  name: string;
+  color?: string | null;  // hex, e.g. "#3b82f6"; memberColor() picks one when null
+  is_default: boolean;    // payer for "I" / "me" / an omitted paid_by
+  sort_order: number;
+}
 
 export interface Payment {
   id?: string;
@@ -31,21 +56,98 @@ export interface Payment {
   paid_by: PaidBy;
   payment_date: string; // YYYY-MM-DD
   created_at?: string;  // ISO
+  // Split computed by the edge function at insert time (interest accrued since the previous payment)
+  principal_amount?: number | null;
+  interest_amount?: number | null;
+  split_group_id?: string | null; // shared by the rows of one split payment
+  autopay_rule_id?: string | null; // set when run_scheduled_payments recorded it
+}
+
+/** Manual balance change (fee, charged-back interest, lender correction). Positive raises the balance. */
+export interface Adjustment {
+  id?: string;
+  loan_id: string;
+  amount: number;
+  reason: string;
+  adjustment_date: string; // YYYY-MM-DD
+  created_at?: string;     // ISO
+}
+
+/** Excess of an overpayment: owed back to the payer until marked refunded (resolveCredit) */
+export interface LoanCredit {
+  id: string;
+  loan_id: string;
+  payment_id: string | null;
+  amount: number;
+  paid_by: PaidBy;
+  credit_date: string;            // YYYY-MM-DD (the payment's date)
+  status: "open" | "refunded";
+  refunded_date?: string | null;  // YYYY-MM-DD
+}
+
+/** 1 `currency` = `rate` `base_currency`, from effective_date until a later row for the same pair */
+export interface ExchangeRate {
+  id?: string;
+  currency: string;        // ISO 4217, e.g. "EUR"
+  base_currency: string;
+  rate: number;
+  effective_date: string;  // YYYY-MM-DD
+  created_at?: string;     // ISO
+}
+
+export interface Lender {
+  id: string;
+  name: string;
+  website?: string | null;
+  phone?: string | null;
+  account_last4?: string | null; // last four digits of the account number only
+  notes?: string | null;
+}
+
+export type AutopayCadence = "monthly" | "biweekly";
+
+/** Recurring payment; run_scheduled_payments records each due occurrence as a payment */
+export interface AutopayRule {
+  id: string;
+  loan_id: string;
+  amount: number;
+  paid_by: PaidBy;
+  cadence: AutopayCadence;
+  day_of_month?: number | null; // monthly only; 29-31 fall back to the month's last day
+  start_date: string;           // YYYY-MM-DD; biweekly occurrences are start_date + 14n
+  end_date?: string | null;
+  active: boolean;
+  last_run_date?: string | null; // occurrences up to here have been recorded
+  next_payment_date?: string | null; // from get_autopay_rules / upsert_autopay_rule
+  loan?: { id: string; name: string; currency?: string };
 }
 
 export interface Loan {
   id: string;
   name: string;
+  aliases?: string[];    // other names in bank exports; the CSV import matches them too
   original_amount: number;
   current_balance: number;
   loan_type: string;
   term_months: number;
   loan_date: string;     // YYYY-MM-DD
   created_at?: string;   // ISO
-  // Immutable at creation (interest-free): original_amount / term_months
+  currency?: string;     // ISO 4217; every amount on the loan, its payments and credits (default "USD")
+  apr?: number;          // annual percentage rate, e.g. 6.9 (0 = interest-free)
+  // Deferred-interest promo ("no interest if paid in full by ..."): if a balance remains
+  // after promo_end_date, interest at deferred_apr is charged back to loan_date.
+  promo_end_date?: string | null; // YYYY-MM-DD
+  deferred_apr?: number | null;
+  // Immutable at creation: amortized payment for (original_amount, apr, term_months)
   estimated_monthly_payment?: number;
+  archived_at?: string | null; // ISO; set by archive_loan, hidden from get_loans by default
+  lender_id?: string | null;
+  lender?: Lender | null;      // embedded by get_loans / create_loan / update_loan
+  autopay_rules?: AutopayRule[]; // embedded by get_loans (inactive rules included)
   // When fetched via get_loans, the function attaches:
   payments?: Payment[];
+  adjustments?: Adjustment[];
+  credits?: LoanCredit[];
   total_paid?: number;
   last_payment?: string | null;
 }
@@ -61,9 +163,172 @@ export interface Err {
 
 // Edge Function result unions
 export type CreateLoanOk = Ok<Loan>;
-export type AddPaymentOk = Ok<{ loan_id: string; amount: number; paid_by: PaidBy; payment_date: string }>;
+/** add_payment records the payment and moves the balance atomically, returning both rows */
+export interface PaymentRecorded {
+  payment: Payment;   // inserted row (with principal/interest split)
+  loan: Loan;         // loan row with the updated current_balance (no payments attached)
+  credit?: LoanCredit | null; // excess over what was owed (add_payment with allow_overpayment)
+}
+export type AddPaymentOk = Ok<PaymentRecorded & {
+  loan_id: string;
+  amount: number;
+  paid_by: PaidBy;
+  payment_date: string;
+  principal_amount: number;
+  interest_amount: number;
+  replayed?: boolean; // the idempotency_key repeated an earlier request; nothing new was recorded
+}>;
+/** 409 from add_payment when the same loan and amount were logged within a few days */
+export interface PossibleDuplicateErr extends Err {
+  possible_duplicate: {
+    loan_id: string;
+    loan_name: string;
+    currency: string;
+    amount: number;
+    payment_date: string;
+    matches: Payment[]; // newest first
+  };
+}
+/** 409 from add_payment / update_payment when the payment is more than is owed */
+export interface OverpaymentErr extends Err {
+  overpayment: {
+    loan_id: string;
+    loan_name: string;
+    currency: string;
+    amount: number;
+    owed: number;   // balance plus accrued interest
+    excess: number; // kept as a credit once confirmed with allow_overpayment
+  };
+}
+/** add_payment with `splits`: every part is its own payment row, linked by split_group_id */
+export type SplitPaymentOk = Ok<{
+  split_group_id: string;
+  amount: number;               // sum of the parts
+  payment_date: string;
+  parts: PaymentRecorded[];
+  replayed?: boolean;
+}>;
+/** The payment is reversed and re-recorded: loan has the new balance, credit any new excess */
+export type UpdatePaymentOk = Ok<{ previous: Payment; payment: Payment; loan: Loan; credit: LoanCredit | null }>;
+export type DeletePaymentOk = Ok<{ payment: Payment; loan: Loan; credit: LoanCredit | null }>; // credit: the open one removed with it
+export type AddAdjustmentOk = Ok<Adjustment>;
 export type GetLoansOk   = Ok<Loan[]>;
-export type DeleteLoanOk = Ok<{ loan_id: string }>;
+
+export interface BalanceDiscrepancy {
+  loan_id: string;
+  name: string | null;
+  stored_balance: number;   // current_balance column
+  derived_balance: number;  // original_amount - principal paid + adjustments
+  difference: number;       // stored - derived
+}
+export type ReconcileLoansOk = Ok<{
+  checked: number;
+  dry_run: boolean;
+  fixed: BalanceDiscrepancy[];       // empty on dry runs
+  discrepancies: BalanceDiscrepancy[];
+}>;
+export type UpdateLoanOk = Ok<Loan>;
+export type ArchiveLoanOk = Ok<Loan>;
+/** @deprecated delete_loan now archives; loan_id is kept for callers of the old { loan_id } result */
+export type DeleteLoanOk = Ok<Loan & { loan_id: string }>;
+export type RestoreLoanOk = Ok<Loan>;
+export type PurgeLoanOk = Ok<{ loan_id: string; name: string }>;
+export type GetMembersOk = Ok<Member[]>;
+export type UpsertMemberOk = Ok<Member>;
+export type GetLendersOk = Ok<Lender[]>;
+export type UpsertLenderOk = Ok<Lender>;
+export type GetAutopayRulesOk = Ok<AutopayRule[]>;
+export type UpsertAutopayRuleOk = Ok<AutopayRule>;
+export type DeleteAutopayRuleOk = Ok<AutopayRule>;
+
+/** One autopay occurrence; payment/loan are present once it has been recorded */
+export interface ScheduledPayment extends Partial<PaymentRecorded> {
+  rule_id: string;
+  loan_id: string;
+  loan_name: string;
+  amount: number;
+  paid_by: PaidBy;
+  payment_date: string;
+  reason?: string; // why it was skipped ("loan is paid off", "already recorded", ...)
+}
+/** Per-member reminder settings; a channel is used when its address is set */
+export interface ReminderPrefs {
+  member_id: string;
+  enabled: boolean;
+  email?: string | null;        // needs SMTP_* configured on the edge function
+  webhook_url?: string | null;  // receives the digest as JSON (with a `text` summary)
+  window_days: number;          // remind this many days ahead of a due date
+  last_sent_date?: string | null;
+  member?: { id: string; name: string };
+}
+
+export interface ReminderItem {
+  loan_id: string;
+  loan_name: string;
+  currency: string;
+  due_date: string;
+  amount_due: number;
+  days_past_due: number;
+  missed_periods: number;
+}
+
+export interface ReminderDigest {
+  member: string;
+  generated_on: string;
+  window_days: number;
+  overdue: ReminderItem[];
+  upcoming: ReminderItem[]; // loans on autopay are left out
+  total_due: Record<string, number>; // per currency
+}
+
+export type GetReminderPrefsOk = Ok<ReminderPrefs[]>;
+export type UpsertReminderPrefsOk = Ok<ReminderPrefs>;
+export type ResolveCreditOk = Ok<LoanCredit & { loan?: { id: string; name: string } }>;
+export type GetExchangeRatesOk = Ok<ExchangeRate[]>;
+export type UpsertExchangeRateOk = Ok<ExchangeRate>;
+export type SendRemindersOk = Ok<{
+  generated_on: string;
+  dry_run: boolean;
+  sent: { member: string; channels: { channel: string; ok?: boolean; error?: string }[]; digest: ReminderDigest }[];
+  skipped: { member: string; reason: string }[];
+}>;
+export type RunScheduledPaymentsOk = Ok<{
+  through: string;
+  dry_run: boolean;
+  recorded: ScheduledPayment[];
+  skipped: ScheduledPayment[];
+}>;
+
+/** A loan created by importHistory; payments in the same batch point at it by ref */
+export type ImportLoanInput = Parameters<typeof createLoan>[0] & { ref: string };
+export interface ImportPaymentInput {
+  row?: number;             // echoed back so results can be matched to the source line
+  loan_id?: string;
+  loan_name?: string;
+  loan_ref?: string;        // ref of a loan created by the same batch
+  amount: number;
+  paid_by?: PaidBy;         // default member when omitted
+  payment_date: string;     // YYYY-MM-DD
+  allow_duplicate?: boolean; // record it even if the same loan, day and amount is already there
+}
+/** One imported payment; payment/loan/credit are present once it has been recorded */
+export interface ImportedPayment extends Partial<PaymentRecorded> {
+  row: number;
+  loan_id: string | null;
+  loan_ref: string | null;
+  loan_name: string;
+  amount: number;
+  paid_by: PaidBy;
+  payment_date: string;
+  allow_duplicate: boolean;
+  reason?: string; // why it was skipped ("possible duplicate of a recorded payment", ...)
+}
+export type ImportHistoryOk = Ok<{
+  dry_run: boolean;
+  created: (Loan & { ref: string })[];
+  recorded: ImportedPayment[];
+  skipped: ImportedPayment[];
+}>;
 
 // ───────────────────────────────────────────────────────────────────────────────
 // Low-level caller: always sends Authorization header (fixes the 401)
@@ -75,18 +340,73 @@ async function getBearer(): Promise<string> {
   return NEXT_PUBLIC_SUPABASE_ANON_KEY;
 }
 
+// create_loan / add_payment accept an idempotency_key: a repeated key returns the first result
+// instead of recording again. postEdge adds one to any such request sent without a key, so each
+// call is one action and its retries are replays. A caller whose user can repeat the action
+// while it is in flight (a double click) holds one key for it and passes it in.
+
+/** A fresh idempotency_key for one user action */
+export function newIdempotencyKey(): string {
+  return globalThis.crypto?.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+const KEYED_ACTIONS = ["create_loan", "add_payment"];
+
+function withIdempotencyKey(body: unknown): unknown {
+  const b = body as { action?: string; idempotency_key?: string } | null;
+  if (!b || !KEYED_ACTIONS.includes(b.action ?? "") || b.idempotency_key) return body;
+  return { ...b, idempotency_key: newIdempotencyKey() };
+}
+
+const RETRY_DELAYS_MS = [500, 1500];
+const RETRYABLE_STATUS = [502, 503, 504];
+
+/**
+ * POST `body` to the Edge Function. create_loan / add_payment get an idempotency_key if they have
+ * none. A body with a key is retried after a network error or a 502-504, when the first attempt
+ * may or may not have been recorded: the server replays the key, so the action is recorded once
+ * either way.
+ */
+export async function postEdge(url: string, headers: Record<string, string>, body: unknown): Promise<Response> {
+  const keyed = withIdempotencyKey(body);
+  const payload = JSON.stringify(keyed);
+  const retries = (keyed as { idempotency_key?: unknown } | null)?.idempotency_key ? RETRY_DELAYS_MS : [];
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const res = await fetch(url, { method: "POST", headers, body: payload });
+      if (attempt >= retries.length || !RETRYABLE_STATUS.includes(res.status)) return res;
+    } catch (e) {
+      if (attempt >= retries.length) throw e;
+    }
+    await new Promise((resolve) => setTimeout(resolve, retries[attempt]));
+  }
+}
+
+/**
+ * Thrown by callEdge / callLoanManager for a non-2xx or `success: false` reply. `body` is the
+ * parsed JSON, so callers can branch on its possible_duplicate / overpayment fields.
+ */
+export class EdgeFunctionError extends Error {
+  readonly status: number;
+  readonly body: (Err & Partial<PossibleDuplicateErr & OverpaymentErr>) | null;
+
+  constructor(message: string, status: number, body: EdgeFunctionError["body"]) {
+    super(message);
+    this.name = "EdgeFunctionError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
 async function callEdge<T>(body: unknown): Promise<T> {
   const token = await getBearer();
 
-  const res = await fetch(`${NEXT_PUBLIC_SUPABASE_URL}/functions/v1/${FUNCTION_NAME}`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${token}`, // 👈 caller identity for RLS
-      "x-client-info": "loan-tracker-client",
-    },
-    body: JSON.stringify(body),
-  });
+  const res = await postEdge(`${NEXT_PUBLIC_SUPABASE_URL}/functions/v1/${FUNCTION_NAME}`, {
+    "Content-Type": "application/json",
+    "Authorization": `Bearer ${token}`, // 👈 caller identity for RLS
+    "x-client-info": "loan-tracker-client",
+  }, body);
 
   let json: any = null;
   try {
@@ -97,12 +417,12 @@ async function callEdge<T>(body: unknown): Promise<T> {
 
   if (!res.ok) {
     const msg = (json && (json.error || json.message)) || `${res.status} ${res.statusText}`;
-    throw new Error(msg);
+    throw new EdgeFunctionError(msg, res.status, json);
   }
 
   // Edge function returns { success, data } or { success, error }
   if (!json?.success) {
-    throw new Error(json?.error || "Unknown error from edge function");
+    throw new EdgeFunctionError(json?.error || "Unknown error from edge function", res.status, json);
   }
 
   return json as T;
@@ -118,7 +438,12 @@ export function createLoan(params: {
   loan_type?: string;
   term_months: number;     // REQUIRED
   loan_date: string;       // REQUIRED (YYYY-MM-DD)
-  lender?: string;
+  lender?: string;         // lender name; created on first use
+  apr?: number;            // percent; omit or 0 for interest-free
+  promo_end_date?: string; // deferred-interest promo deadline (YYYY-MM-DD)
+  deferred_apr?: number;   // percent charged retroactively if the promo is missed
+  currency?: string;       // ISO 4217 (default "USD"); fixed once created
+  idempotency_key?: string; // default: a new one per call; pass one to cover repeats of the same user action
 }) {
   return callEdge<CreateLoanOk>({ action: "create_loan", ...params });
 }
@@ -127,20 +452,241 @@ export function addPayment(params: {
   loan_id?: string;      // preferred
   loan_name?: string;    // optional fallback
   amount: number;
-  paid_by?: PaidBy;      // default handled server-side ("Steven"); also "I" maps to "Steven"
+  paid_by?: PaidBy;      // omitted, "I" and "me" map to the default member server-side
   payment_date?: string; // YYYY-MM-DD
+  allow_overpayment?: boolean; // otherwise paying more than is owed is refused (409, OverpaymentErr)
+  allow_duplicate?: boolean;   // otherwise a likely duplicate is refused (409, PossibleDuplicateErr)
+  idempotency_key?: string;    // default: a new one per call; pass one to cover repeats of the same user action
 }) {
   return callEdge<AddPaymentOk>({ action: "add_payment", ...params });
 }
 
-export function getLoans() {
-  return callEdge<GetLoansOk>({ action: "get_loans" });
+/** One part of a split payment. Omitted loan / payer fall back to the top-level ones. */
+export interface SplitPart {
+  loan_id?: string;
+  loan_name?: string;
+  paid_by?: PaidBy;
+  amount?: number;   // give every part an amount,
+  percent?: number;  // or every part a percent (summing to 100), or neither for an even split
+}
+
+/**
+ * Record one real-world payment shared by several people and/or loans, atomically.
+ * e.g. { loan_name: "Couch", amount: 300, splits: [{ paid_by: "Katerina" }, { paid_by: "Steven" }] }
+ */
+export function addSplitPayment(params: {
+  loan_id?: string;
+  loan_name?: string;
+  amount?: number;       // total; required for percent / even splits
+  paid_by?: PaidBy;
+  payment_date?: string; // YYYY-MM-DD
+  splits: SplitPart[];   // at least two
+  allow_duplicate?: boolean; // otherwise a part matching a recent payment is refused (409, PossibleDuplicateErr)
+  idempotency_key?: string; // as for addPayment
+}) {
+  return callEdge<SplitPaymentOk>({ action: "add_payment", ...params });
+}
+
+/**
+ * Payments are identified by payment_id, or by loan (id/name) plus match_amount / match_date
+ * when exactly one payment matches. updatePayment re-records the payment in one transaction:
+ * its principal and credit are reversed, then it is applied again with the interest split and
+ * overpayment check of addPayment, so the excess over what is owed becomes (or stops being) a
+ * credit. deletePayment puts its principal back and drops its open credit.
+ */
+export interface PaymentSelector {
+  payment_id?: string;
+  loan_id?: string;
+  loan_name?: string;
+  match_amount?: number;
+  match_date?: string;   // YYYY-MM-DD
+}
+
+export function updatePayment(params: PaymentSelector & {
+  amount?: number;
+  paid_by?: PaidBy;
+  payment_date?: string; // YYYY-MM-DD
+  allow_overpayment?: boolean; // otherwise raising it past what is owed is refused (409)
+}) {
+  return callEdge<UpdatePaymentOk>({ action: "update_payment", ...params });
 }
 
+export function deletePayment(params: PaymentSelector) {
+  return callEdge<DeletePaymentOk>({ action: "delete_payment", ...params });
+}
+
+export function addAdjustment(params: {
+  loan_id?: string;
+  loan_name?: string;
+  amount: number;          // + raises the balance (fee), − lowers it (credit)
+  reason: string;
+  adjustment_date?: string; // YYYY-MM-DD
+}) {
+  return callEdge<AddAdjustmentOk>({ action: "add_adjustment", ...params });
+}
+
+/** Active loans only, unless include_archived is set. `lender` filters by lender name. */
+export function getLoans(params: { include_archived?: boolean; lender?: string } = {}) {
+  return callEdge<GetLoansOk>({ action: "get_loans", ...params });
+}
+
+/** Recompute current_balance from the ledger (all loans, or one). dry_run only reports. */
+export function reconcileLoans(params: { loan_id?: string; loan_name?: string; dry_run?: boolean } = {}) {
+  return callEdge<ReconcileLoansOk>({ action: "reconcile_loans", ...params });
+}
+
+/** Fix descriptive fields in place (payment history is kept). Identify the loan by id or current name. */
+export function updateLoan(params: {
+  loan_id?: string;
+  loan_name?: string;    // current name, used when loan_id is unknown
+  name?: string;         // new name
+  loan_type?: string;
+  loan_date?: string;    // YYYY-MM-DD
+  lender?: string | null; // lender name (created on first use); null unlinks
+  aliases?: string[];    // replaces the list
+}) {
+  return callEdge<UpdateLoanOk>({ action: "update_loan", ...params });
+}
+
+export function getMembers() {
+  return callEdge<GetMembersOk>({ action: "get_members" });
+}
+
+/** Add a household member, or update one by member_id / name. Renaming also renames their payments. */
+export function upsertMember(params: {
+  member_id?: string;
+  name?: string;
+  color?: string | null;
+  is_default?: boolean;   // setting true clears the previous default
+  sort_order?: number;
+}) {
+  return callEdge<UpsertMemberOk>({ action: "upsert_member", ...params });
+}
+
+export function getLenders() {
+  return callEdge<GetLendersOk>({ action: "get_lenders" });
+}
+
+/** Create a lender, or update it by lender_id / name. Omitted fields are left unchanged. */
+export function upsertLender(params: {
+  lender_id?: string;
+  name?: string;
+  website?: string | null;
+  phone?: string | null;
+  account_last4?: string | null; // exactly 4 digits
+  notes?: string | null;
+}) {
+  return callEdge<UpsertLenderOk>({ action: "upsert_lender", ...params });
+}
+
+/** Soft delete: hides the loan from get_loans but keeps its payments. Undo with restoreLoan. */
+export function archiveLoan(params: { loan_id?: string; loan_name?: string }) {
+  return callEdge<ArchiveLoanOk>({ action: "archive_loan", ...params });
+}
+
+/**
+ * @deprecated Use archiveLoan, or purgeLoan to delete permanently. Kept for existing callers:
+ * the loan is archived (restorable), not deleted.
+ */
 export function deleteLoan(params: { loan_id?: string; loan_name?: string }) {
   return callEdge<DeleteLoanOk>({ action: "delete_loan", ...params });
 }
 
+export function restoreLoan(params: { loan_id?: string; loan_name?: string }) {
+  return callEdge<RestoreLoanOk>({ action: "restore_loan", ...params });
+}
+
+/** Permanently deletes the loan and its payments. `confirm` must repeat the loan's name. */
+export function purgeLoan(params: { loan_id?: string; loan_name?: string; confirm: string }) {
+  return callEdge<PurgeLoanOk>({ action: "purge_loan", ...params });
+}
+
+/** Active rules only, unless include_inactive is set. Each carries next_payment_date. */
+export function getAutopayRules(params: { loan_id?: string; loan_name?: string; include_inactive?: boolean } = {}) {
+  return callEdge<GetAutopayRulesOk>({ action: "get_autopay_rules", ...params });
+}
+
+/**
+ * Create or update an autopay rule, by rule_id or else by loan + payer (one rule each).
+ * New rules start today unless start_date is given; monthly rules default to the start date's day.
+ */
+export function upsertAutopayRule(params: {
+  rule_id?: string;
+  loan_id?: string;
+  loan_name?: string;
+  paid_by?: PaidBy;        // default member when omitted
+  amount?: number;         // required for a new rule
+  cadence?: AutopayCadence;
+  day_of_month?: number;   // monthly
+  start_date?: string;     // YYYY-MM-DD; past dates are backfilled by the next run
+  end_date?: string | null;
+  active?: boolean;
+}) {
+  return callEdge<UpsertAutopayRuleOk>({ action: "upsert_autopay_rule", ...params });
+}
+
+/** Stop an autopay rule; payments it already recorded are kept. paid_by picks among several rules. */
+export function deleteAutopayRule(params: { rule_id?: string; loan_id?: string; loan_name?: string; paid_by?: PaidBy }) {
+  return callEdge<DeleteAutopayRuleOk>({ action: "delete_autopay_rule", ...params });
+}
+
+/** Record every autopay occurrence due through `through` (default today). Safe to call repeatedly. */
+export function runScheduledPayments(params: { through?: string; loan_id?: string; loan_name?: string; dry_run?: boolean } = {}) {
+  return callEdge<RunScheduledPaymentsOk>({ action: "run_scheduled_payments", ...params });
+}
+
+export function getReminderPrefs() {
+  return callEdge<GetReminderPrefsOk>({ action: "get_reminder_prefs" });
+}
+
+/** Set a member's reminder channels and window, by member_id or name. Omitted fields are left unchanged. */
+export function upsertReminderPrefs(params: {
+  member_id?: string;
+  member?: string;
+  email?: string | null;
+  webhook_url?: string | null;
+  window_days?: number;   // 0-60
+  enabled?: boolean;
+}) {
+  return callEdge<UpsertReminderPrefsOk>({ action: "upsert_reminder_prefs", ...params });
+}
+
+/**
+ * Send each member a digest of loans due within their window plus anything past due.
+ * At most one digest per member per day unless force is set; dry_run only builds the digests.
+ */
+export function sendReminders(params: { window_days?: number; member?: string; dry_run?: boolean; force?: boolean } = {}) {
+  return callEdge<SendRemindersOk>({ action: "send_reminders", ...params });
+}
+
+/** Mark an overpayment credit as paid back (refunded_date defaults to today) */
+export function resolveCredit(params: { credit_id: string; refunded_date?: string }) {
+  return callEdge<ResolveCreditOk>({ action: "resolve_credit", ...params });
+}
+
+/** Every stored rate, oldest first (pass them to summarizePortfolio) */
+export function getExchangeRates(params: { currency?: string } = {}) {
+  return callEdge<GetExchangeRatesOk>({ action: "get_exchange_rates", ...params });
+}
+
+/** Add a rate, or replace the one for the same pair and effective_date (default today) */
+export function upsertExchangeRate(params: {
+  currency: string;
+  rate: number;            // 1 currency = rate base_currency
+  base_currency?: string;  // default BASE_CURRENCY
+  effective_date?: string; // YYYY-MM-DD
+}) {
+  return callEdge<UpsertExchangeRateOk>({ action: "upsert_exchange_rate", base_currency: BASE_CURRENCY, ...params });
+}
+
+/**
+ * Back-fill history in one transaction: create `loans`, then record `payments` oldest first.
+ * A bad row rejects the whole batch; likely duplicates are skipped unless allow_duplicate.
+ */
+export function importHistory(params: { loans?: ImportLoanInput[]; payments?: ImportPaymentInput[]; dry_run?: boolean }) {
+  return callEdge<ImportHistoryOk>({ action: "import_history", ...params });
+}
+
 // ───────────────────────────────────────────────────────────────────────────────
 // Formatting helpers
 // ───────────────────────────────────────────────────────────────────────────────
@@ -157,69 +703,402 @@ export function toISODate(d: Date) {
   return d.toISOString().slice(0, 10); // YYYY-MM-DD
 }
 
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function ordinal(n: number) {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] ?? "th";
+  return `${n}${suffix}`;
+}
+
+/** e.g. "$63.14 monthly on the 15th by Katerina" / "$200.00 every two weeks by Alex (paused)" */
+export function describeAutopayRule(rule: AutopayRule, currency = "USD") {
+  const when = rule.cadence === "biweekly"
+    ? `every two weeks from ${rule.start_date}`
+    : `monthly on the ${ordinal(rule.day_of_month ?? 1)}`;
+  const until = rule.end_date ? ` until ${rule.end_date}` : "";
+  return `${formatCurrency(rule.amount, currency)} ${when} by ${rule.paid_by}${until}${rule.active ? "" : " (paused)"}`;
+}
+
+/** Days apart two payments of the same loan and amount can be and still look like one (as add_payment checks) */
+export const DUPLICATE_WINDOW_DAYS = 3;
+
+/** Same loan and amount, dates at most DUPLICATE_WINDOW_DAYS apart. Mirrors isPossibleDuplicate() in the Edge Function. */
+export function isPossibleDuplicate(
+  a: { loan_id: string; amount: number; payment_date: string },
+  b: { loan_id: string; amount: number; payment_date: string },
+) {
+  return a.loan_id === b.loan_id
+    && Math.abs(a.amount - b.amount) < 0.005
+    && Math.abs(Date.parse(a.payment_date) - Date.parse(b.payment_date)) <= DUPLICATE_WINDOW_DAYS * 86_400_000;
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Currencies
+// ───────────────────────────────────────────────────────────────────────────────
+
+/** How summaries convert loan amounts: into base_currency at the rates in effect on as_of */
+export interface CurrencyOptions {
+  base_currency?: string; // default BASE_CURRENCY
+  rates?: ExchangeRate[]; // from getExchangeRates
+  as_of?: Date;           // default today
+}
+
+/**
+ * Units of `to` per unit of `from` on `asOf`: the latest rate effective on or before it.
+ * A row for the opposite pair counts (inverted). undefined when there is none.
+ */
+export function exchangeRate(rates: ExchangeRate[], from: string, to: string, asOf = new Date()): number | undefined {
+  if (from === to) return 1;
+  const day = toISODate(asOf);
+  let best: { date: string; rate: number } | undefined;
+  for (const r of rates) {
+    if (r.effective_date > day || !(Number(r.rate) > 0)) continue;
+    const rate = r.currency === from && r.base_currency === to ? Number(r.rate)
+      : r.currency === to && r.base_currency === from ? 1 / Number(r.rate)
+      : undefined;
+    if (rate !== undefined && (!best || r.effective_date > best.date)) best = { date: r.effective_date, rate };
+  }
+  return best?.rate;
+}
+
+/** Converts amounts in a loan's currency into the base currency; undefined without a rate */
+export function currencyConverter(options: CurrencyOptions = {}) {
+  const base = options.base_currency ?? BASE_CURRENCY;
+  const rates = options.rates ?? [];
+  const asOf = options.as_of ?? new Date();
+  return (amount: number, currency = "USD"): number | undefined => {
+    const rate = exchangeRate(rates, currency, base, asOf);
+    return rate === undefined ? undefined : round2(amount * rate);
+  };
+}
+
+/**
+ * Balances and minimum payments restated in the base currency, so loans in different
+ * currencies can be planned together (planPayoff, simulateWhatIf). Loans without a rate are left out.
+ */
+export function inBaseCurrency(loans: LoanComputed[], options: CurrencyOptions = {}): LoanComputed[] {
+  const base = options.base_currency ?? BASE_CURRENCY;
+  const asOf = options.as_of ?? new Date();
+  return loans.flatMap(l => {
+    const rate = exchangeRate(options.rates ?? [], l.currency, base, asOf);
+    if (rate === undefined) return [];
+    if (rate === 1) return [l];
+    return [{
+      ...l,
+      currency: base,
+      original_amount: round2(l.original_amount * rate),
+      current_balance: round2(l.current_balance * rate),
+      remaining_balance: round2(l.remaining_balance * rate),
+      estimated_monthly_payment: round2(l.estimated_monthly_payment * rate),
+    }];
+  });
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Household members
+// ───────────────────────────────────────────────────────────────────────────────
+
+/** Fallback colors for members without one, assigned in sort order */
+export const MEMBER_PALETTE = ["#3b82f6", "#8b5cf6", "#10b981", "#f59e0b", "#ef4444", "#06b6d4", "#ec4899", "#84cc16"];
+
+export function memberColor(members: Member[], name: string): string {
+  const i = members.findIndex(m => m.name.toLowerCase() === name.toLowerCase());
+  if (i >= 0 && members[i].color) return members[i].color!;
+  return MEMBER_PALETTE[(i >= 0 ? i : members.length) % MEMBER_PALETTE.length];
+}
+
+/**
+ * Same rules as the edge function: "I" / "me" / empty mean the default member,
+ * otherwise a case-insensitive name match. null when the payer is not a member.
+ */
+export function resolveMemberName(members: Member[], input?: string | null): string | null {
+  const p = (input ?? "").trim().toLowerCase();
+  if (!p || p === "i" || p === "me" || p === "myself") {
+    return members.find(m => m.is_default)?.name ?? null;
+  }
+  return members.find(m => m.name.toLowerCase() === p)?.name ?? null;
+}
+
+export interface MemberTotal {
+  name: string;
+  color: string;
+  total_paid: number;
+  payments_count: number;
+}
+
+/**
+ * Payments per member, in member order. Payers on older rows who are no longer members
+ * are appended so totals still add up. total_paid is in the base currency (see CurrencyOptions);
+ * payments on loans without a rate are counted but not added.
+ */
+export function summarizeByMember(loans: Loan[], members: Member[], options: CurrencyOptions = {}): MemberTotal[] {
+  const toBase = currencyConverter(options);
+  const totals = new Map<string, MemberTotal>();
+  for (const m of members) {
+    totals.set(m.name, { name: m.name, color: memberColor(members, m.name), total_paid: 0, payments_count: 0 });
+  }
+  for (const l of loans) {
+    for (const p of l.payments ?? []) {
+      const name = resolveMemberName(members, p.paid_by) ?? p.paid_by;
+      let t = totals.get(name);
+      if (!t) {
+        t = { name, color: memberColor(members, name), total_paid: 0, payments_count: 0 };
+        totals.set(name, t);
+      }
+      t.total_paid = round2(t.total_paid + (toBase(p.amount, l.currency) ?? 0));
+      t.payments_count += 1;
+    }
+  }
+  return [...totals.values()];
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Amortization
+// ───────────────────────────────────────────────────────────────────────────────
+
+export interface AmortizationRow {
+  period: number;        // 1..term_months
+  due_date: string;      // YYYY-MM-DD (loan_date + period months)
+  payment: number;
+  principal: number;
+  interest: number;
+  balance: number;       // remaining principal after this period
+}
+
+/**
+ * Standard fixed-rate amortized payment: P·r / (1 − (1 + r)^−n), r = APR / 12.
+ * With apr = 0 this reduces to the interest-free principal / n.
+ * Mirrors amortized_monthly_payment() in the database.
+ */
+export function amortizedMonthlyPayment(principal: number, aprPct: number | undefined, termMonths: number) {
+  const n = Math.max(1, termMonths || 0);
+  const r = (aprPct ?? 0) / 100 / 12;
+  if (r <= 0) return round2(principal / n);
+  return round2((principal * r) / (1 - Math.pow(1 + r, -n)));
+}
+
+/**
+ * Full schedule from origination: one row per month with the principal/interest split.
+ * The final period absorbs rounding so the balance lands exactly on 0.
+ */
+export function buildAmortizationSchedule(
+  loan: Pick<Loan, "original_amount" | "term_months" | "loan_date" | "apr" | "estimated_monthly_payment">,
+): AmortizationRow[] {
+  const n = Math.max(1, loan.term_months || 0);
+  const r = (loan.apr ?? 0) / 100 / 12;
+  const payment = typeof loan.estimated_monthly_payment === "number"
+    ? loan.estimated_monthly_payment
+    : amortizedMonthlyPayment(loan.original_amount, loan.apr, n);
+  const start = parseDateSafe(loan.loan_date);
+
+  const rows: AmortizationRow[] = [];
+  let balance = loan.original_amount;
+  for (let period = 1; period <= n && balance > 0; period++) {
+    const interest = round2(balance * r);
+    const principal = period === n ? balance : Math.min(balance, round2(payment - interest));
+    balance = round2(balance - principal);
+    rows.push({
+      period,
+      due_date: start ? format(addMonths(start, period), "yyyy-MM-dd") : "",
+      payment: round2(principal + interest),
+      principal: round2(principal),
+      interest,
+      balance,
+    });
+  }
+  return rows;
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Payment schedule & due dates
+// ───────────────────────────────────────────────────────────────────────────────
+
+export type InstallmentStatus = "paid" | "partial" | "past_due" | "upcoming";
+
+export interface ScheduledInstallment {
+  period: number;        // 1..term_months
+  due_date: string;      // YYYY-MM-DD (loan_date + period months)
+  amount: number;        // installment from the amortization schedule
+  paid: number;          // payments applied to it, oldest installment first
+  status: InstallmentStatus; // past_due: due before today and not fully paid
+}
+
+/**
+ * One installment per month from loan_date, as in buildAmortizationSchedule.
+ * Everything paid so far (early and extra payments included) is applied to the
+ * installments in order, so paying ahead covers future due dates. Payments count
+ * gross, not as principal: each installment's amount includes its interest.
+ */
+export function buildPaymentSchedule(loan: Loan, today = new Date()): ScheduledInstallment[] {
+  const todayISO = format(today, "yyyy-MM-dd");
+  let unapplied = typeof loan.total_paid === "number"
+    ? loan.total_paid
+    : (loan.payments ?? []).reduce((s, p) => s + p.amount, 0);
+
+  return buildAmortizationSchedule(loan).map(row => {
+    const paid = round2(Math.min(row.payment, Math.max(0, unapplied)));
+    unapplied -= paid;
+    const status: InstallmentStatus = paid + 0.005 >= row.payment
+      ? "paid"
+      : row.due_date < todayISO
+        ? "past_due"
+        : paid > 0 ? "partial" : "upcoming";
+    return { period: row.period, due_date: row.due_date, amount: row.payment, paid, status };
+  });
+}
+
+export interface DueStatus {
+  next_due_date?: string; // oldest installment not fully paid (in the past when overdue)
+  amount_due: number;     // to be current through next_due_date
+  days_past_due: number;  // 0 when current
+  missed_periods: number; // installments already due and not fully paid
+}
+
+function computeDueStatus(schedule: ScheduledInstallment[], remaining: number, today = new Date()): DueStatus {
+  if (remaining <= 0.005 || schedule.length === 0) {
+    return { next_due_date: undefined, amount_due: 0, days_past_due: 0, missed_periods: 0 };
+  }
+
+  const todayISO = format(today, "yyyy-MM-dd");
+  const pastDue = schedule.filter(i => i.status === "past_due");
+  // Every installment covered but a balance remains (interest, fees): it's due as of the last date
+  const next = schedule.find(i => i.status !== "paid")
+    ?? { ...schedule[schedule.length - 1], amount: remaining, paid: 0 };
+  const owed = [...pastDue, ...(next.due_date >= todayISO ? [next] : [])]
+    .reduce((s, i) => s + (i.amount - i.paid), 0);
+  const pastDueDate = next.due_date < todayISO ? parseDateSafe(next.due_date) : undefined;
+
+  return {
+    next_due_date: next.due_date,
+    amount_due: round2(Math.min(remaining, Math.max(owed, next.amount - next.paid))),
+    days_past_due: pastDueDate ? differenceInCalendarDays(today, pastDueDate) : 0,
+    missed_periods: pastDue.length,
+  };
+}
+
 // ───────────────────────────────────────────────────────────────────────────────
 // Derivation helpers for dashboard views
 // ───────────────────────────────────────────────────────────────────────────────
 
 export interface LoanComputed extends Loan {
+  currency: string;              // ensure present
   payments: Payment[];           // ensure present
   total_paid: number;            // ensure present
-  progress_percentage: number;   // ensure present (0..100)
+  total_principal_paid: number;  // payments applied to the balance
+  total_interest_paid: number;   // payments absorbed by accrued interest
+  progress_percentage: number;   // ensure present (0..100), by principal
   is_paid_off: boolean;
+  is_archived: boolean;
   remaining_balance: number;     // == current_balance
+  total_adjustments: number;     // sum of adjustments (+ raises the balance)
+  ledger_balance: number;        // original_amount - principal paid + adjustments
+  balance_discrepancy: number;   // current_balance - ledger_balance (0 when in sync)
+  credits: LoanCredit[];         // newest first
+  credit_due: number;            // open credits: overpaid, owed back to the payer
   estimated_monthly_payment: number;
   first_payment_date?: string;
   last_payment_date?: string | null;
   payments_count: number;
   average_payment?: number;
   average_days_between_payments?: number;
-  projected_payoff_date?: string; // best-effort projection
+  projected_payoff_date?: string; // from projection_model (see PayoffProjection)
+  projection_model?: ProjectionModel;
+  projection_range?: ProjectionRange; // earliest / latest date across the models
+  projections: PayoffProjection[];    // every model with enough data; empty once paid off
+  promo?: PromoStatus;            // only for loans with a promo_end_date
+  // Due dates from loan_date + N months (see buildPaymentSchedule)
+  next_due_date?: string;         // oldest unpaid due date; undefined once paid off
+  amount_due: number;
+  days_past_due: number;
+  missed_periods: number;
+  is_overdue: boolean;            // days_past_due > 0
+}
+
+/**
+ * schedule: estimated_monthly_payment from here on
+ * ewma:     recent monthly pace (exponentially weighted, so one big early payment fades out)
+ * linear:   trend of the monthly totals, extrapolated
+ */
+export type ProjectionModel = "schedule" | "ewma" | "linear";
+
+export const PROJECTION_MODEL_LABELS: Record<ProjectionModel, string> = {
+  schedule: "scheduled payment",
+  ewma: "recent pace",
+  linear: "payment trend",
+};
+
+export interface PayoffProjection {
+  model: ProjectionModel;
+  monthly_payment: number; // what the model expects to be paid next month
+  payoff_date?: string;    // YYYY-MM-DD; undefined when that pace never clears the balance
+}
+
+export interface ProjectionRange {
+  optimistic: string;      // YYYY-MM-DD
+  pessimistic: string;
+}
+
+export interface PromoStatus {
+  promo_end_date: string;
+  deferred_apr: number;
+  months_left: number;               // whole months until promo_end_date (0 when expired)
+  required_monthly_payment: number;  // to clear the balance by promo_end_date
+  current_monthly_pace: number;      // principal paid per month so far (or the estimate if no payments)
+  on_pace: boolean;
+  expired: boolean;                  // promo ended with a balance remaining
+  projected_deferred_interest: number; // charged if the balance is not cleared in time
+}
+
+export interface PortfolioGroup {
+  loan_count: number;
+  total_original: number;
+  total_paid: number;
+  total_principal_paid: number;
+  total_interest_paid: number;
+  total_remaining: number;
+  progress_pct: number;           // principal paid / original, like portfolio_progress_pct
 }
 
+/** Amounts are in base_currency; loans in a currency without a rate are counted but not added */
 export interface PortfolioSummary {
+  base_currency: string;
+  missing_rates: string[];        // currencies left out of the totals for lack of a rate
   loan_count: number;
   paid_off_count: number;
   open_count: number;
   total_original: number;
   total_paid: number;
+  total_interest_paid: number;
   total_remaining: number;
-  portfolio_progress_pct: number; // weighted by original amounts
-  by_type: Record<string, {
-    loan_count: number;
-    total_original: number;
-    total_paid: number;
-    total_remaining: number;
-    progress_pct: number;
-  }>;
+  total_credit_due: number;       // open overpayment credits across loans
+  portfolio_progress_pct: number; // principal paid, weighted by original amounts
+  by_type: Record<string, PortfolioGroup>;
+  by_lender: Record<string, PortfolioGroup>; // keyed by lender name; UNASSIGNED_LENDER for loans without one
 }
 
+/** by_lender key for loans with no lender linked */
+export const UNASSIGNED_LENDER = "Unassigned";
+
 function parseDateSafe(s?: string): Date | undefined {
   if (!s) return undefined;
   const d = parseISO(s);
   return Number.isNaN(d.getTime()) ? undefined : d;
 }
 
-/**
- * Best-effort projection:
- * - If there are ≥2 payments, compute average days between payments and average payment amount.
- * - Project how many intervals remain to pay off the remaining balance using average payment.
- * - projected_payoff_date = last_payment_date + intervals_remaining * avg_interval_days
- * Falls back to undefined if insufficient data.
- */
-function computeProjection(payments: Payment[], remaining: number): {
+/** Average payment size and spacing, for display ("~30d cadence") */
+function computePaymentCadence(payments: Payment[]): {
   average_payment?: number;
   average_days_between_payments?: number;
-  projected_payoff_date?: string;
 } {
-  if (!payments || payments.length === 0 || remaining <= 0) {
-    return { average_payment: undefined, average_days_between_payments: undefined, projected_payoff_date: undefined };
+  if (!payments || payments.length === 0) {
+    return { average_payment: undefined, average_days_between_payments: undefined };
   }
 
   // Sort by payment_date asc
   const sorted = [...payments].sort((a, b) => a.payment_date.localeCompare(b.payment_date));
-  const amounts = sorted.map(p => p.amount);
-  const totalPaid = amounts.reduce((s, a) => s + a, 0);
-  const average_payment = totalPaid / amounts.length;
+  const average_payment = sorted.reduce((s, p) => s + p.amount, 0) / sorted.length;
 
   let average_days_between_payments: number | undefined;
   if (sorted.length >= 2) {
@@ -234,16 +1113,169 @@ function computeProjection(payments: Payment[], remaining: number): {
     average_days_between_payments = Math.round(avg);
   }
 
-  let projected_payoff_date: string | undefined;
-  const lastDate = parseDateSafe(sorted[sorted.length - 1].payment_date);
-  if (average_payment && average_payment > 0 && lastDate && average_days_between_payments) {
-    const intervalsRemaining = Math.ceil(remaining / average_payment);
-    const projected = new Date(lastDate);
-    projected.setDate(projected.getDate() + intervalsRemaining * average_days_between_payments);
-    projected_payoff_date = toISODate(projected);
+  return { average_payment, average_days_between_payments };
+}
+
+/** Smoothing for the ewma model: each month's total counts half, the history before it the other half */
+const EWMA_ALPHA = 0.5;
+const MIN_HISTORY_MONTHS = 3; // below this, the schedule is the primary model
+
+/**
+ * Total paid per calendar month, oldest first, from the first payment's month through last
+ * month. Months without payments count as 0. The current month is included only once
+ * something was paid in it.
+ */
+function monthlyPaymentTotals(payments: Payment[], today: Date): number[] {
+  if (payments.length === 0) return [];
+
+  const byMonth = new Map<string, number>();
+  for (const p of payments) {
+    const key = p.payment_date.slice(0, 7);
+    byMonth.set(key, (byMonth.get(key) ?? 0) + p.amount);
+  }
+  const thisMonth = format(today, "yyyy-MM");
+  let cursor = parseISO(`${[...byMonth.keys()].sort()[0]}-01`);
+
+  const totals: number[] = [];
+  for (let key = format(cursor, "yyyy-MM"); key < thisMonth; key = format(cursor, "yyyy-MM")) {
+    totals.push(byMonth.get(key) ?? 0);
+    cursor = addMonths(cursor, 1);
+  }
+  if (byMonth.has(thisMonth)) totals.push(byMonth.get(thisMonth)!);
+  return totals;
+}
+
+/** Months until the balance is cleared at APR / 12, paying paymentFor(month); undefined if never (within 50 years) */
+function monthsToClear(balance: number, aprPct: number | undefined, paymentFor: (month: number) => number) {
+  const r = (aprPct ?? 0) / 100 / 12;
+  for (let month = 1; month <= 600; month++) {
+    balance = balance * (1 + r) - Math.max(0, paymentFor(month));
+    if (balance <= 0.005) return month;
+  }
+  return undefined;
+}
+
+/**
+ * Payoff projections, one per model with enough data:
+ * - schedule: keeps paying estimated_monthly_payment (always available)
+ * - ewma:     keeps the recent monthly pace, recent months weighted most
+ * - linear:   continues the trend in monthly totals (rising or falling payments); needs 3 months
+ * The primary date comes from ewma once there are MIN_HISTORY_MONTHS months of history,
+ * otherwise (or when the recent pace never clears the balance) from the schedule.
+ * The range spans every model's date.
+ */
+function computeProjection(
+  loan: Pick<Loan, "apr">,
+  payments: Payment[],
+  remaining: number,
+  estimatedMonthly: number,
+  today = new Date(),
+): {
+  projected_payoff_date?: string;
+  projection_model?: ProjectionModel;
+  projection_range?: ProjectionRange;
+  projections: PayoffProjection[];
+} {
+  if (remaining <= 0.005) return { projections: [] };
+
+  const project = (model: ProjectionModel, monthly: number, paymentFor: (month: number) => number): PayoffProjection => {
+    const months = monthsToClear(remaining, loan.apr, paymentFor);
+    return {
+      model,
+      monthly_payment: round2(Math.max(0, monthly)),
+      payoff_date: months === undefined ? undefined : format(addMonths(today, months), "yyyy-MM-dd"),
+    };
+  };
+
+  const projections: PayoffProjection[] = [project("schedule", estimatedMonthly, () => estimatedMonthly)];
+
+  const totals = monthlyPaymentTotals(payments, today);
+  if (totals.length > 0) {
+    const pace = totals.slice(1).reduce((s, x) => EWMA_ALPHA * x + (1 - EWMA_ALPHA) * s, totals[0]);
+    projections.push(project("ewma", pace, () => pace));
+  }
+  if (totals.length >= MIN_HISTORY_MONTHS) {
+    // Least squares over (month index, total): total ≈ intercept + slope · index
+    const n = totals.length;
+    const meanX = (n - 1) / 2;
+    const meanY = totals.reduce((s, y) => s + y, 0) / n;
+    const slope = totals.reduce((s, y, x) => s + (x - meanX) * (y - meanY), 0)
+      / totals.reduce((s, _y, x) => s + (x - meanX) ** 2, 0);
+    const intercept = meanY - slope * meanX;
+    projections.push(project("linear", intercept + slope * n, (month) => intercept + slope * (n - 1 + month)));
+  }
+
+  const dated = projections.filter(p => p.payoff_date).map(p => p.payoff_date!).sort();
+  const primaryModel: ProjectionModel = totals.length >= MIN_HISTORY_MONTHS ? "ewma" : "schedule";
+  const primary = projections.find(p => p.model === primaryModel && p.payoff_date)
+    ?? projections.find(p => p.payoff_date);
+
+  return {
+    projected_payoff_date: primary?.payoff_date,
+    projection_model: primary?.model,
+    projection_range: dated.length ? { optimistic: dated[0], pessimistic: dated[dated.length - 1] } : undefined,
+    projections,
+  };
+}
+
+/**
+ * Deferred-interest promo status.
+ * - Pace is principal paid per elapsed month; with no payments yet we assume the estimate.
+ * - The interest at risk replays the balance month by month from loan_date to promo_end_date
+ *   (actual payments for past months, the current pace afterwards) at deferred_apr / 12.
+ */
+function computePromoStatus(
+  loan: Loan,
+  payments: Payment[],
+  remaining: number,
+  principalPaid: number,
+  estimatedMonthly: number,
+  today = new Date(),
+): PromoStatus | undefined {
+  const end = parseDateSafe(loan.promo_end_date ?? undefined);
+  const start = parseDateSafe(loan.loan_date);
+  if (!end || !start) return undefined;
+
+  const deferred_apr = Number(loan.deferred_apr ?? 0);
+  const monthsElapsed = Math.max(1, differenceInCalendarMonths(today, start));
+  const months_left = Math.max(0, differenceInCalendarMonths(end, today));
+  const expired = today > end && remaining > 0.005;
+
+  const current_monthly_pace = payments.length > 0 ? round2(principalPaid / monthsElapsed) : estimatedMonthly;
+  const required_monthly_payment = remaining <= 0 ? 0 : round2(remaining / Math.max(1, months_left));
+  const on_pace = remaining <= 0.005 || (!expired && current_monthly_pace + 0.005 >= required_monthly_payment);
+
+  let projected_deferred_interest = 0;
+  if (!on_pace && deferred_apr > 0) {
+    const promoMonths = Math.max(1, differenceInCalendarMonths(end, start));
+    let projected = remaining;
+    for (let m = 0; m < promoMonths; m++) {
+      const monthStart = addMonths(start, m);
+      let balance: number;
+      if (monthStart <= today) {
+        const paidBefore = payments
+          .filter(p => (parseDateSafe(p.payment_date) ?? today) < monthStart)
+          .reduce((s, p) => s + (p.principal_amount ?? p.amount), 0);
+        balance = Math.max(0, loan.original_amount - paidBefore);
+      } else {
+        projected = Math.max(0, projected - current_monthly_pace);
+        balance = projected;
+      }
+      projected_deferred_interest += balance * (deferred_apr / 100 / 12);
+    }
+    projected_deferred_interest = round2(projected_deferred_interest);
   }
 
-  return { average_payment, average_days_between_payments, projected_payoff_date };
+  return {
+    promo_end_date: loan.promo_end_date!,
+    deferred_apr,
+    months_left,
+    required_monthly_payment,
+    current_monthly_pace,
+    on_pace,
+    expired,
+    projected_deferred_interest,
+  };
 }
 
 /** Compute rich derived fields for one loan row */
@@ -254,86 +1286,150 @@ export function deriveLoan(loan: Loan): LoanComputed {
     ? loan.total_paid
     : rawPayments.reduce((s, p) => s + p.amount, 0);
 
+  // Rows recorded before the APR split have no principal_amount: the whole payment was principal.
+  const total_interest_paid = rawPayments.reduce((s, p) => s + (p.interest_amount ?? 0), 0);
+  const total_principal_paid = rawPayments.reduce((s, p) => s + (p.principal_amount ?? p.amount), 0);
+
   const remaining_balance = loan.current_balance;
-  const progress_percentage = Math.min(100, Math.max(0, (total_paid / Math.max(1, loan.original_amount)) * 100));
+  const total_adjustments = round2((loan.adjustments ?? []).reduce((s, a) => s + a.amount, 0));
+  const ledger_balance = Math.max(0, round2(loan.original_amount - total_principal_paid + total_adjustments));
+  const balance_discrepancy = round2(remaining_balance - ledger_balance);
+  const credits = loan.credits ?? [];
+  const credit_due = round2(credits.filter(c => c.status === "open").reduce((s, c) => s + Number(c.amount), 0));
+  const progress_percentage = Math.min(100, Math.max(0, (total_principal_paid / Math.max(1, loan.original_amount)) * 100));
   const is_paid_off = remaining_balance <= 0.000001;
+  const is_archived = !!loan.archived_at;
 
-  // Interest-free estimate; immutable. Fallback compute if not provided by API.
-  const n = Math.max(1, loan.term_months || 0);
+  // Amortized estimate; immutable. Fallback compute if not provided by API.
   const est = typeof loan.estimated_monthly_payment === "number"
     ? loan.estimated_monthly_payment
-    : loan.original_amount / n;
-  const estimated_monthly_payment = Math.round(est * 100) / 100;
+    : amortizedMonthlyPayment(loan.original_amount, loan.apr, loan.term_months);
+  const estimated_monthly_payment = round2(est);
 
   const paymentsAsc = rawPayments.slice().sort((a, b) => a.payment_date.localeCompare(b.payment_date));
   const first_payment_date = paymentsAsc[0]?.payment_date;
   const last_payment_date = (loan as any).last_payment ?? payments[0]?.payment_date ?? paymentsAsc[paymentsAsc.length - 1]?.payment_date;
   const payments_count = payments.length;
 
-  const { average_payment, average_days_between_payments, projected_payoff_date } =
-    computeProjection(rawPayments, remaining_balance);
+  const { average_payment, average_days_between_payments } = computePaymentCadence(rawPayments);
+  const projection = computeProjection(loan, rawPayments, remaining_balance, estimated_monthly_payment);
+
+  const promo = computePromoStatus(loan, rawPayments, remaining_balance, total_principal_paid, estimated_monthly_payment);
+
+  const due = computeDueStatus(
+    buildPaymentSchedule({ ...loan, total_paid, estimated_monthly_payment }),
+    remaining_balance,
+  );
 
   return {
     ...loan,
+    currency: loan.currency ?? "USD",
     payments,
     total_paid,
+    total_principal_paid,
+    total_interest_paid,
     progress_percentage,
     is_paid_off,
+    is_archived,
     remaining_balance,
+    total_adjustments,
+    ledger_balance,
+    balance_discrepancy,
+    credits,
+    credit_due,
     estimated_monthly_payment,
     first_payment_date,
     last_payment_date,
     payments_count,
     average_payment,
     average_days_between_payments,
-    projected_payoff_date,
+    ...projection,
+    promo,
+    ...due,
+    is_overdue: due.days_past_due > 0,
   };
 }
 
 /** Build a portfolio summary and group by loan_type */
-export function summarizePortfolio(loans: LoanComputed[]): PortfolioSummary {
+function emptyGroup(): PortfolioGroup {
+  return {
+    loan_count: 0,
+    total_original: 0,
+    total_paid: 0,
+    total_principal_paid: 0,
+    total_interest_paid: 0,
+    total_remaining: 0,
+    progress_pct: 0,
+  };
+}
+
+export function summarizePortfolio(loans: LoanComputed[], options: CurrencyOptions = {}): PortfolioSummary {
+  const base = options.base_currency ?? BASE_CURRENCY;
+  const asOf = options.as_of ?? new Date();
   const acc: PortfolioSummary = {
+    base_currency: base,
+    missing_rates: [],
     loan_count: loans.length,
     paid_off_count: loans.filter(l => l.is_paid_off).length,
     open_count: loans.filter(l => !l.is_paid_off).length,
     total_original: 0,
     total_paid: 0,
+    total_interest_paid: 0,
     total_remaining: 0,
+    total_credit_due: 0,
     portfolio_progress_pct: 0,
     by_type: {},
+    by_lender: {},
   };
 
   let weightedPaid = 0;
   let weightedOriginal = 0;
 
   for (const l of loans) {
-    acc.total_original += l.original_amount;
-    acc.total_paid += l.total_paid;
-    acc.total_remaining += Math.max(0, l.remaining_balance);
-
-    weightedPaid += l.total_paid;
-    weightedOriginal += l.original_amount;
-
-    const key = l.loan_type ?? "unknown";
-    const group = (acc.by_type[key] ??= {
-      loan_count: 0,
-      total_original: 0,
-      total_paid: 0,
-      total_remaining: 0,
-      progress_pct: 0,
-    });
-    group.loan_count += 1;
-    group.total_original += l.original_amount;
-    group.total_paid += l.total_paid;
-    group.total_remaining += Math.max(0, l.remaining_balance);
+    const rate = exchangeRate(options.rates ?? [], l.currency, base, asOf);
+    const groups = [
+      (acc.by_type[l.loan_type ?? "unknown"] ??= emptyGroup()),
+      (acc.by_lender[l.lender?.name ?? UNASSIGNED_LENDER] ??= emptyGroup()),
+    ];
+    for (const group of groups) group.loan_count += 1;
+    if (rate === undefined) {
+      if (!acc.missing_rates.includes(l.currency)) acc.missing_rates.push(l.currency);
+      continue;
+    }
+    const original = l.original_amount * rate;
+    const paid = l.total_paid * rate;
+    const principal = l.total_principal_paid * rate;
+    const interest = l.total_interest_paid * rate;
+    const remaining = Math.max(0, l.remaining_balance) * rate;
+
+    acc.total_original += original;
+    acc.total_paid += paid;
+    acc.total_interest_paid += interest;
+    acc.total_remaining += remaining;
+    acc.total_credit_due += l.credit_due * rate;
+
+    weightedPaid += principal;
+    weightedOriginal += original;
+
+    for (const group of groups) {
+      group.total_original += original;
+      group.total_paid += paid;
+      group.total_principal_paid += principal;
+      group.total_interest_paid += interest;
+      group.total_remaining += remaining;
+    }
   }
 
+  acc.total_original = round2(acc.total_original);
+  acc.total_paid = round2(acc.total_paid);
+  acc.total_interest_paid = round2(acc.total_interest_paid);
+  acc.total_remaining = round2(acc.total_remaining);
+  acc.total_credit_due = round2(acc.total_credit_due);
   acc.portfolio_progress_pct = weightedOriginal > 0 ? (weightedPaid / weightedOriginal) * 100 : 0;
 
   // compute group progress
-  for (const key of Object.keys(acc.by_type)) {
-    const g = acc.by_type[key];
-    g.progress_pct = g.total_original > 0 ? (g.total_paid / g.total_original) * 100 : 0;
+  for (const g of [...Object.values(acc.by_type), ...Object.values(acc.by_lender)]) {
+    g.progress_pct = g.total_original > 0 ? (g.total_principal_paid / g.total_original) * 100 : 0;
   }
 
   return acc;
@@ -350,30 +1446,418 @@ export function toDisplayRows(loans: LoanComputed[]) {
       id: l.id,
       name: l.name,
       type: l.loan_type,
-      original: formatCurrency(l.original_amount),
-      paid: formatCurrency(l.total_paid),
-      remaining: formatCurrency(Math.max(0, l.remaining_balance)),
+      lender: l.lender?.name ?? "—",
+      currency: l.currency,
+      original: formatCurrency(l.original_amount, l.currency),
+      paid: formatCurrency(l.total_paid, l.currency),
+      remaining: formatCurrency(Math.max(0, l.remaining_balance), l.currency),
+      apr: formatPercent(l.apr ?? 0, 2),
       progress: formatPercent(l.progress_percentage),
       last_payment: l.last_payment_date ?? "—",
-      avg_payment: l.average_payment ? formatCurrency(l.average_payment) : "—",
-      projected_payoff: l.projected_payoff_date ?? "—",
+      next_due: l.next_due_date
+        ? `${l.next_due_date} (${formatCurrency(l.amount_due, l.currency)}${l.is_overdue ? `, ${l.days_past_due}d late` : ""})`
+        : "—",
+      avg_payment: l.average_payment ? formatCurrency(l.average_payment, l.currency) : "—",
+      projected_payoff: l.projected_payoff_date && l.projection_model
+        ? `${l.projected_payoff_date} (${PROJECTION_MODEL_LABELS[l.projection_model]})`
+        : "—",
+      projection_range: l.projection_range && l.projection_range.optimistic !== l.projection_range.pessimistic
+        ? `${l.projection_range.optimistic} – ${l.projection_range.pessimistic}`
+        : "—",
+      credit_due: l.credit_due > 0 ? formatCurrency(l.credit_due, l.currency) : "—",
     }));
 }
 
+// ───────────────────────────────────────────────────────────────────────────────
+// Payoff planner
+// ───────────────────────────────────────────────────────────────────────────────
+
+/**
+ * avalanche: highest APR first (ties, e.g. all interest-free: earliest deadline, then smallest balance)
+ * snowball:  smallest remaining balance first
+ * custom:    the caller's order; loans left out follow in avalanche order
+ */
+export type PayoffStrategy = "avalanche" | "snowball" | "custom";
+
+export interface PayoffPlanOptions {
+  strategy: PayoffStrategy;
+  extra_monthly: number;   // on top of the minimum payments
+  order?: string[];        // custom: loan ids or names, first = paid off first
+  start?: Date;            // first simulated payment is one month later (default today)
+  max_months?: number;     // give up after this many months (default 600)
+}
+
+export interface PayoffPlanLoan {
+  loan_id: string;
+  name: string;
+  priority: number;          // 1 = receives the extra budget first
+  starting_balance: number;
+  apr: number;
+  minimum_payment: number;   // estimated_monthly_payment
+  payoff_month?: number;     // 1-based; undefined when not paid off within max_months
+  payoff_date?: string;      // YYYY-MM
+  interest: number;          // simulated interest (deferred promo interest included)
+  total_paid: number;
+}
+
+export interface PayoffPlanMonth {
+  month: number;
+  date: string;              // YYYY-MM
+  balance: number;           // total across loans after this month's payments
+  interest: number;
+}
+
+export interface PayoffPlan {
+  strategy: PayoffStrategy | "minimum";
+  extra_monthly: number;
+  monthly_budget: number;        // minimums + extra; freed minimums roll over to the next loan
+  months_to_debt_free?: number;  // undefined when the budget never clears the debt
+  debt_free_date?: string;       // YYYY-MM
+  total_interest: number;
+  total_paid: number;
+  interest_saved: number;        // vs. minimum payments only
+  months_saved: number;
+  loans: PayoffPlanLoan[];
+  timeline: PayoffPlanMonth[];
+}
+
+export interface PayoffComparison {
+  baseline: PayoffPlan;          // minimum payments only, no extra
+  plans: PayoffPlan[];           // avalanche, snowball (+ custom when an order is given)
+  best: PayoffStrategy;          // least interest, then fewest months
+}
+
+interface PlannedLoan {
+  loan: LoanComputed;
+  deadline: string;              // promo_end_date while the promo runs, else the end of the term
+  promoEnd?: Date;
+}
+
+function plannableLoans(loans: LoanComputed[], start: Date): PlannedLoan[] {
+  return loans
+    .filter(l => !l.is_paid_off && !l.is_archived && l.remaining_balance > 0.005)
+    .map(loan => {
+      const promoEnd = parseDateSafe(loan.promo_end_date ?? undefined);
+      const termEnd = parseDateSafe(loan.loan_date);
+      const activePromo = promoEnd && promoEnd > start ? promoEnd : undefined;
+      return {
+        loan,
+        promoEnd: activePromo,
+        deadline: activePromo
+          ? loan.promo_end_date!
+          : termEnd ? format(addMonths(termEnd, loan.term_months), "yyyy-MM-dd") : "9999-12-31",
+      };
+    });
+}
+
+/** An active deferred-interest promo ranks at deferred_apr: the rate at stake if it isn't cleared in time */
+function avalancheRate(p: PlannedLoan) {
+  return p.promoEnd ? Number(p.loan.deferred_apr ?? 0) : (p.loan.apr ?? 0);
+}
+
+function avalancheCompare(a: PlannedLoan, b: PlannedLoan) {
+  return avalancheRate(b) - avalancheRate(a)
+    || a.deadline.localeCompare(b.deadline)
+    || a.loan.remaining_balance - b.loan.remaining_balance;
+}
+
+function orderForStrategy(planned: PlannedLoan[], strategy: PayoffStrategy, order: string[] = []): PlannedLoan[] {
+  const avalanche = planned.slice().sort(avalancheCompare);
+  if (strategy === "avalanche") return avalanche;
+  if (strategy === "snowball") {
+    return planned.slice().sort((a, b) =>
+      a.loan.remaining_balance - b.loan.remaining_balance || avalancheCompare(a, b));
+  }
+
+  const rank = (p: PlannedLoan) => {
+    const i = order.findIndex(key =>
+      key === p.loan.id || key.trim().toLowerCase() === p.loan.name.toLowerCase());
+    return i === -1 ? order.length : i;
+  };
+  // Array.prototype.sort is stable, so unlisted loans keep their avalanche order
+  return avalanche.sort((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * Month-by-month simulation. Each month every open loan accrues interest at APR / 12 and
+ * gets its minimum payment; with rollover the rest of the budget (extra + minimums freed by
+ * paid-off loans) goes to the loans in priority order. A deferred-interest promo accrues at
+ * deferred_apr without charging it; if a balance is left when the promo ends, the accrued
+ * interest lands on the balance and deferred_apr applies from then on. Months before the
+ * simulation are counted at the current balance, so that charge is a lower bound.
+ */
+function simulatePayoff(
+  ordered: PlannedLoan[],
+  extra: number,
+  rollover: boolean,
+  start: Date,
+  maxMonths: number,
+): Omit<PayoffPlan, "strategy" | "interest_saved" | "months_saved"> {
+  const state = ordered.map((p, i) => {
+    const deferredApr = Number(p.loan.deferred_apr ?? 0);
+    const loanStart = parseDateSafe(p.loan.loan_date);
+    const elapsed = p.promoEnd && loanStart ? Math.max(0, differenceInCalendarMonths(start, loanStart)) : 0;
+    return {
+      planned: p,
+      balance: p.loan.remaining_balance,
+      minimum: Math.max(0.01, p.loan.estimated_monthly_payment),
+      deferredApr,
+      deferredAccrued: p.promoEnd ? p.loan.remaining_balance * (deferredApr / 100 / 12) * elapsed : 0,
+      result: {
+        loan_id: p.loan.id,
+        name: p.loan.name,
+        priority: i + 1,
+        starting_balance: round2(p.loan.remaining_balance),
+        apr: p.loan.apr ?? 0,
+        minimum_payment: round2(p.loan.estimated_monthly_payment),
+        payoff_month: undefined as number | undefined,
+        payoff_date: undefined as string | undefined,
+        interest: 0,
+        total_paid: 0,
+      },
+    };
+  });
+
+  const minimums = state.reduce((s, l) => s + l.minimum, 0);
+  const budget = round2(minimums + Math.max(0, extra));
+  const timeline: PayoffPlanMonth[] = [];
+  let month = 0;
+
+  while (state.some(l => l.balance > 0.005) && month < maxMonths) {
+    month += 1;
+    const date = addMonths(start, month);
+    const open = state.filter(l => l.balance > 0.005);
+    let monthInterest = 0;
+
+    for (const l of open) {
+      const promoEnd = l.planned.promoEnd;
+      let interest = 0;
+      if (promoEnd && date <= promoEnd) {
+        l.deferredAccrued += l.balance * (l.deferredApr / 100 / 12);
+      } else {
+        if (promoEnd && l.deferredAccrued > 0) {
+          interest += l.deferredAccrued;
+          l.deferredAccrued = 0;
+        }
+        const apr = promoEnd ? l.deferredApr : (l.planned.loan.apr ?? 0);
+        interest += l.balance * (apr / 100 / 12);
+      }
+      interest = round2(interest);
+      l.balance = round2(l.balance + interest);
+      l.result.interest += interest;
+      monthInterest += interest;
+    }
+
+    let available = rollover ? budget : Math.max(0, extra);
+    const pay = (l: (typeof state)[number], amount: number) => {
+      const paid = round2(Math.min(l.balance, amount));
+      l.balance = round2(l.balance - paid);
+      l.result.total_paid += paid;
+      return paid;
+    };
+    for (const l of open) {
+      const paid = pay(l, l.minimum);
+      if (rollover) available -= paid;
+    }
+    for (const l of open) {
+      if (available <= 0.005) break;
+      available -= pay(l, available);
+    }
+
+    for (const l of open) {
+      if (l.balance <= 0.005 && l.result.payoff_month === undefined) {
+        l.result.payoff_month = month;
+        l.result.payoff_date = format(date, "yyyy-MM");
+      }
+    }
+    timeline.push({
+      month,
+      date: format(date, "yyyy-MM"),
+      balance: round2(state.reduce((s, l) => s + l.balance, 0)),
+      interest: round2(monthInterest),
+    });
+  }
+
+  const done = state.every(l => l.balance <= 0.005);
+  const loans = state.map(l => ({
+    ...l.result,
+    interest: round2(l.result.interest),
+    total_paid: round2(l.result.total_paid),
+  }));
+  return {
+    extra_monthly: round2(Math.max(0, extra)),
+    monthly_budget: budget,
+    months_to_debt_free: done ? month : undefined,
+    debt_free_date: done && month > 0 ? format(addMonths(start, month), "yyyy-MM") : undefined,
+    total_interest: round2(loans.reduce((s, l) => s + l.interest, 0)),
+    total_paid: round2(loans.reduce((s, l) => s + l.total_paid, 0)),
+    loans,
+    timeline,
+  };
+}
+
+function minimumOnlyPlan(planned: PlannedLoan[], start: Date, maxMonths: number): PayoffPlan {
+  const sim = simulatePayoff(planned.slice().sort(avalancheCompare), 0, false, start, maxMonths);
+  return { ...sim, strategy: "minimum", interest_saved: 0, months_saved: 0 };
+}
+
+function withSavings(plan: Omit<PayoffPlan, "interest_saved" | "months_saved">, baseline: PayoffPlan): PayoffPlan {
+  return {
+    ...plan,
+    interest_saved: round2(Math.max(0, baseline.total_interest - plan.total_interest)),
+    months_saved: baseline.months_to_debt_free !== undefined && plan.months_to_debt_free !== undefined
+      ? Math.max(0, baseline.months_to_debt_free - plan.months_to_debt_free)
+      : 0,
+  };
+}
+
+/**
+ * Simulate paying off the open loans with their minimum payments plus extra_monthly,
+ * aimed at one loan at a time in the strategy's order. Paid-off and archived loans are skipped.
+ */
+export function planPayoff(loans: LoanComputed[], options: PayoffPlanOptions): PayoffPlan {
+  const start = options.start ?? new Date();
+  const maxMonths = options.max_months ?? 600;
+  const planned = plannableLoans(loans, start);
+  const baseline = minimumOnlyPlan(planned, start, maxMonths);
+  const ordered = orderForStrategy(planned, options.strategy, options.order);
+  const sim = simulatePayoff(ordered, options.extra_monthly, true, start, maxMonths);
+  return withSavings({ ...sim, strategy: options.strategy }, baseline);
+}
+
+/** Avalanche vs. snowball (and a custom order when given) against minimum payments only */
+export function comparePayoffStrategies(
+  loans: LoanComputed[],
+  extra_monthly: number,
+  options: Omit<PayoffPlanOptions, "strategy" | "extra_monthly"> = {},
+): PayoffComparison {
+  const start = options.start ?? new Date();
+  const maxMonths = options.max_months ?? 600;
+  const planned = plannableLoans(loans, start);
+  const baseline = minimumOnlyPlan(planned, start, maxMonths);
+
+  const strategies: PayoffStrategy[] = options.order?.length
+    ? ["avalanche", "snowball", "custom"]
+    : ["avalanche", "snowball"];
+  const plans = strategies.map(strategy => {
+    const ordered = orderForStrategy(planned, strategy, options.order);
+    return withSavings({ ...simulatePayoff(ordered, extra_monthly, true, start, maxMonths), strategy }, baseline);
+  });
+
+  const months = (p: PayoffPlan) => p.months_to_debt_free ?? Number.POSITIVE_INFINITY;
+  const best = plans
+    .slice()
+    .sort((a, b) => a.total_interest - b.total_interest || months(a) - months(b))[0];
+  return { baseline, plans, best: (best?.strategy ?? "avalanche") as PayoffStrategy };
+}
+
+export interface WhatIfOptions {
+  loan_id?: string;          // only this loan (the others are unaffected); omit for every open loan
+  extra_monthly?: number;    // on top of the minimum payments
+  monthly_budget?: number;   // or a total per month, minimums included
+  strategy?: Exclude<PayoffStrategy, "custom">; // which loan the extra goes to first (default avalanche)
+  start?: Date;
+}
+
+export interface WhatIfOutcome {
+  months_to_debt_free?: number;
+  debt_free_date?: string;   // YYYY-MM
+  total_interest: number;
+  total_paid: number;
+}
+
+export interface WhatIfSimulation {
+  scope: "loan" | "portfolio";
+  strategy: Exclude<PayoffStrategy, "custom">;
+  minimum_monthly: number;   // sum of the minimum payments in scope
+  extra_monthly: number;
+  budget_shortfall: number;  // how far monthly_budget falls below the minimums (0 otherwise)
+  before: WhatIfOutcome;     // minimum payments only
+  after: WhatIfOutcome;     // minimums plus the extra; freed minimums roll over
+  interest_saved: number;
+  months_saved: number;
+  loans: { loan_id: string; name: string; before?: string; after?: string }[]; // payoff YYYY-MM
+}
+
+/** "What if we paid $X more a month?": minimum payments only vs. minimums plus the extra. Nothing is written. */
+export function simulateWhatIf(loans: LoanComputed[], options: WhatIfOptions): WhatIfSimulation {
+  const start = options.start ?? new Date();
+  const strategy = options.strategy ?? "avalanche";
+  const inScope = options.loan_id ? loans.filter(l => l.id === options.loan_id) : loans;
+  const planned = plannableLoans(inScope, start);
+
+  const minimum_monthly = round2(planned.reduce((s, p) => s + p.loan.estimated_monthly_payment, 0));
+  const requested = typeof options.monthly_budget === "number"
+    ? options.monthly_budget - minimum_monthly
+    : options.extra_monthly ?? 0;
+  const extra = round2(Math.max(0, requested));
+
+  const baseline = minimumOnlyPlan(planned, start, 600);
+  const plan = withSavings(
+    { ...simulatePayoff(orderForStrategy(planned, strategy), extra, true, start, 600), strategy },
+    baseline,
+  );
+  const outcome = (p: PayoffPlan): WhatIfOutcome => ({
+    months_to_debt_free: p.months_to_debt_free,
+    debt_free_date: p.debt_free_date,
+    total_interest: p.total_interest,
+    total_paid: p.total_paid,
+  });
+
+  return {
+    scope: options.loan_id ? "loan" : "portfolio",
+    strategy,
+    minimum_monthly,
+    extra_monthly: extra,
+    budget_shortfall: round2(Math.max(0, -requested)),
+    before: outcome(baseline),
+    after: outcome(plan),
+    interest_saved: plan.interest_saved,
+    months_saved: plan.months_saved,
+    loans: plan.loans.map(l => ({
+      loan_id: l.loan_id,
+      name: l.name,
+      before: baseline.loans.find(b => b.loan_id === l.loan_id)?.payoff_date,
+      after: l.payoff_date,
+    })),
+  };
+}
+
 // ───────────────────────────────────────────────────────────────────────────────
 // One-call dashboard data: fetch loans, derive, summarize
 // ───────────────────────────────────────────────────────────────────────────────
 
+/** Loans whose stored current_balance disagrees with the ledger (fix with reconcileLoans) */
+export function findBalanceDiscrepancies(loans: LoanComputed[]): BalanceDiscrepancy[] {
+  return loans
+    .filter(l => Math.abs(l.balance_discrepancy) >= 0.01)
+    .map(l => ({
+      loan_id: l.id,
+      name: l.name,
+      stored_balance: l.current_balance,
+      derived_balance: l.ledger_balance,
+      difference: l.balance_discrepancy,
+    }));
+}
+
 export async function getDashboardData() {
-  const { data: rawLoans } = await getLoans();
+  const [{ data: rawLoans }, { data: rates }] = await Promise.all([getLoans(), getExchangeRates()]);
   const loans = rawLoans.map(deriveLoan);
-  const portfolio = summarizePortfolio(loans);
+  const portfolio = summarizePortfolio(loans, { rates });
   const rows = toDisplayRows(loans);
+  const discrepancies = findBalanceDiscrepancies(loans);
 
   return {
     loans,        // rich per-loan objects with derived fields
     portfolio,    // overall summary + by_type
     rows,         // ready for a simple table view
+    integrity: {  // stored vs. ledger-derived balances
+      ok: discrepancies.length === 0,
+      warning: discrepancies.length
+        ? `${discrepancies.length} loan balance${discrepancies.length === 1 ? "" : "s"} disagree with the payment ledger; run reconcile_loans.`
+        : null,
+      discrepancies,
+    },
   };
 }
 
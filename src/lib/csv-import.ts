@@ -0,0 +1,296 @@
+// src/lib/csv-import.ts
+// Bank-export CSV → import_history request, for back-filling loans and payments in one go.
+//
+// 1) parseCsv reads the file (quoted fields, "" escapes, CRLF; the delimiter is guessed).
+// 2) guessMapping / guessDateFormat pick the columns and date order; the user can change both.
+// 3) buildImportPreview turns every row into an operation: a payment on a loan matched by
+//    name or alias, a new loan (rows with a term), or the reason it can't be imported.
+//    Rows that look like a payment that is already recorded (or repeat an earlier row) are
+//    flagged as duplicates and left unselected.
+// 4) toImportRequest sends the selected operations; the edge function commits them in one
+//    transaction and skips duplicates it finds itself unless allow_duplicate is set.
+
+import { isPossibleDuplicate, resolveMemberName, type ImportLoanInput, type ImportPaymentInput, type LoanComputed, type Member } from '../index'
+
+export type ImportField = 'date' | 'amount' | 'loan' | 'paid_by' | 'term_months' | 'apr' | 'loan_type'
+
+/** Column index per field; date, amount and loan are required */
+export type ColumnMapping = Partial<Record<ImportField, number>>
+
+export type DateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY'
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean }[] = [
+  { field: 'date', label: 'Date', required: true },
+  { field: 'amount', label: 'Amount', required: true },
+  { field: 'loan', label: 'Loan / description', required: true },
+  { field: 'paid_by', label: 'Paid by' },
+  { field: 'term_months', label: 'Term (months), for new loans' },
+  { field: 'apr', label: 'APR, for new loans' },
+  { field: 'loan_type', label: 'Loan type, for new loans' },
+]
+
+const HEADER_HINTS: Record<ImportField, RegExp> = {
+  date: /date|posted|when/i,
+  amount: /amount|debit|payment|value|sum/i,
+  loan: /loan|description|payee|memo|merchant|details|name/i,
+  paid_by: /paid.?by|payer|member|person|who/i,
+  term_months: /term|months/i,
+  apr: /apr|rate|interest/i,
+  loan_type: /type|category/i,
+}
+
+export interface ImportOperation {
+  row: number                // line in the file (the header is line 1)
+  kind: 'add_payment' | 'create_loan'
+  status: 'ready' | 'duplicate' | 'invalid'
+  note?: string              // why the row is flagged or can't be imported
+  loan_name: string          // as written in the file
+  loan_id?: string           // matched existing loan
+  loan_ref?: string          // loan created by this import
+  matched_name?: string      // name of the matched loan
+  currency?: string          // of the matched loan
+  date?: string              // YYYY-MM-DD: payment_date, or loan_date for new loans
+  amount?: number            // payment amount, or original_amount for new loans
+  paid_by?: string
+  term_months?: number
+  apr?: number
+  loan_type?: string
+}
+
+/** RFC 4180-ish: quoted fields may hold delimiters, newlines and "" escapes. Blank lines are dropped. */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '')
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? ''
+  const delimiter = [',', ';', '\t'].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best, ',')
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  for (let i = 0; i < source.length; i++) {
+    const c = source[i]
+    if (quoted) {
+      if (c === '"' && source[i + 1] === '"') { field += '"'; i++ }
+      else if (c === '"') quoted = false
+      else field += c
+    } else if (c === '"' && field === '') {
+      quoted = true
+    } else if (c === delimiter) {
+      row.push(field.trim()); field = ''
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && source[i + 1] === '\n') i++
+      row.push(field.trim()); field = ''
+      if (row.some(Boolean)) rows.push(row)
+      row = []
+    } else {
+      field += c
+    }
+  }
+  row.push(field.trim())
+  if (row.some(Boolean)) rows.push(row)
+  return rows
+}
+
+/** First unused header matching each field's hint */
+export function guessMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {}
+  const used = new Set<number>()
+  for (const { field } of IMPORT_FIELDS) {
+    const index = headers.findIndex((h, i) => !used.has(i) && HEADER_HINTS[field].test(h))
+    if (index >= 0) {
+      mapping[field] = index
+      used.add(index)
+    }
+  }
+  return mapping
+}
+
+/** ISO when every date is; otherwise day-first as soon as a first part is above 12 */
+export function guessDateFormat(values: string[]): DateFormat {
+  const dates = values.filter(Boolean)
+  if (dates.length && dates.every(v => /^\d{4}-\d{1,2}-\d{1,2}/.test(v))) return 'YYYY-MM-DD'
+  return dates.some(v => Number(v.split(/[/.-]/)[0]) > 12) ? 'DD/MM/YYYY' : 'MM/DD/YYYY'
+}
+
+/** YYYY-MM-DD, or null when the text is not a real date in that format (ISO is always accepted) */
+export function parseImportDate(value: string, format: DateFormat): string | null {
+  const v = value.trim()
+  let y: number, m: number, d: number
+  const iso = v.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+  if (iso) {
+    [y, m, d] = iso.slice(1).map(Number)
+  } else {
+    const parts = v.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/)
+    if (!parts || format === 'YYYY-MM-DD') return null
+    const [a, b, year] = parts.slice(1).map(Number)
+    ;[m, d] = format === 'MM/DD/YYYY' ? [a, b] : [b, a]
+    y = year < 100 ? 2000 + year : year
+  }
+  const date = new Date(Date.UTC(y, m - 1, d))
+  if (date.getUTCFullYear() !== y || date.getUTCMonth() !== m - 1 || date.getUTCDate() !== d) return null
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * "$1,234.56", "-45.00", "(45.00)", "1.234,56" or "45,00" → number; null when unreadable.
+ * The sign is kept; bank exports show payments as debits (negative) or positive amounts.
+ */
+export function parseImportAmount(value: string): number | null {
+  let v = value.trim().replace(/[^\d.,()-]/g, '')
+  const negative = /^\(.*\)$/.test(v) || v.startsWith('-')
+  v = v.replace(/[()-]/g, '')
+  if (/^\d{1,3}(\.\d{3})+,\d{1,2}$/.test(v) || /^\d+,\d{1,2}$/.test(v)) {
+    v = v.replace(/\./g, '').replace(',', '.') // decimal comma
+  } else {
+    v = v.replace(/,/g, '')
+  }
+  if (!/^\d+(\.\d+)?$/.test(v)) return null
+  const n = Math.round(Number(v) * 100) / 100
+  return negative ? -n : n
+}
+
+const normalize = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+
+/**
+ * The loan a bank description refers to: an exact name or alias first, otherwise the loan whose
+ * name or alias appears in the description (the longest one wins). Archived loans are left out.
+ */
+export function matchLoan(loans: LoanComputed[], text: string): { loan?: LoanComputed; ambiguous?: boolean } {
+  const q = normalize(text)
+  if (!q) return {}
+  const active = loans.filter(l => !l.is_archived)
+  const names = (l: LoanComputed) => [l.name, ...(l.aliases ?? [])].map(normalize).filter(Boolean)
+
+  const exact = active.find(l => names(l).includes(q))
+  if (exact) return { loan: exact }
+
+  let best: { loan: LoanComputed; length: number }[] = []
+  for (const l of active) {
+    const length = Math.max(0, ...names(l).filter(n => ` ${q} `.includes(` ${n} `)).map(n => n.length))
+    if (!length) continue
+    if (!best.length || length > best[0].length) best = [{ loan: l, length }]
+    else if (length === best[0].length) best.push({ loan: l, length })
+  }
+  if (best.length > 1) return { ambiguous: true }
+  return { loan: best[0]?.loan }
+}
+
+/**
+ * One operation per data row. Rows with a term create a loan (amount = original amount, date =
+ * loan date); every other row is a payment on a loan matched by name or alias, or on a loan
+ * created by this import.
+ */
+export function buildImportPreview(
+  rows: string[][],
+  options: { mapping: ColumnMapping; date_format: DateFormat; loans: LoanComputed[]; members: Member[] },
+): ImportOperation[] {
+  const { mapping, date_format, loans, members } = options
+  const cell = (r: string[], field: ImportField) => mapping[field] === undefined ? '' : (r[mapping[field]!] ?? '').trim()
+
+  const ops: ImportOperation[] = rows.slice(1).map((r, i) => {
+    const term = cell(r, 'term_months')
+    const op: ImportOperation = {
+      row: i + 2,
+      kind: term ? 'create_loan' : 'add_payment',
+      status: 'ready',
+      loan_name: cell(r, 'loan'),
+    }
+    const invalid = (note: string) => ({ ...op, status: 'invalid' as const, note })
+
+    if (!op.loan_name) return invalid('No loan or description')
+    const date = parseImportDate(cell(r, 'date'), date_format)
+    if (!date) return invalid(`Unreadable date “${cell(r, 'date')}”`)
+    const amount = parseImportAmount(cell(r, 'amount'))
+    if (amount === null || amount === 0) return invalid(`Unreadable amount “${cell(r, 'amount')}”`)
+    Object.assign(op, { date, amount: Math.abs(amount) })
+
+    if (op.kind === 'create_loan') {
+      const term_months = Number(term)
+      if (!Number.isInteger(term_months) || term_months <= 0) return invalid(`Term “${term}” is not a number of months`)
+      const apr = cell(r, 'apr') ? parseImportAmount(cell(r, 'apr').replace('%', '')) : 0
+      if (apr === null || apr < 0 || apr >= 100) return invalid(`APR “${cell(r, 'apr')}” is not a percentage`)
+      return { ...op, term_months, apr, loan_type: cell(r, 'loan_type') || undefined, loan_ref: `row-${op.row}` }
+    }
+
+    const payer = cell(r, 'paid_by')
+    if (payer) {
+      const name = resolveMemberName(members, payer)
+      if (!name) return invalid(`“${payer}” is not a household member`)
+      op.paid_by = name
+    }
+    return op
+  })
+
+  // New loans: one per name, and not one that already exists
+  const newLoans = new Map<string, ImportOperation>()
+  for (const op of ops) {
+    if (op.kind !== 'create_loan' || op.status !== 'ready') continue
+    const key = normalize(op.loan_name)
+    const { loan } = matchLoan(loans, op.loan_name)
+    if (loan && normalize(loan.name) === key) Object.assign(op, { status: 'invalid', note: `“${loan.name}” already exists` })
+    else if (newLoans.has(key)) Object.assign(op, { status: 'invalid', note: `Same loan as row ${newLoans.get(key)!.row}` })
+    else newLoans.set(key, op)
+  }
+
+  // Payments: match a loan, then look for the same payment already recorded or earlier in the file,
+  // within the few days add_payment's duplicate check allows (posting dates shift between exports)
+  const seen: { loan_id: string; amount: number; payment_date: string; row: number }[] = []
+  for (const op of ops) {
+    if (op.kind !== 'add_payment' || op.status !== 'ready') continue
+    const created = newLoans.get(normalize(op.loan_name))
+    const { loan, ambiguous } = created ? {} : matchLoan(loans, op.loan_name)
+    if (created) {
+      Object.assign(op, { loan_ref: created.loan_ref, matched_name: created.loan_name })
+    } else if (loan) {
+      Object.assign(op, { loan_id: loan.id, matched_name: loan.name, currency: loan.currency })
+    } else {
+      Object.assign(op, { status: 'invalid', note: ambiguous ? 'Matches several loans' : 'No matching loan' })
+      continue
+    }
+
+    const payment = { loan_id: op.loan_id ?? `ref:${op.loan_ref}`, amount: op.amount!, payment_date: op.date! }
+    const recorded = loan?.payments.find(p => isPossibleDuplicate(p, payment))
+    const earlier = seen.find(p => isPossibleDuplicate(p, payment))
+    if (recorded) {
+      Object.assign(op, { status: 'duplicate', note: `Already recorded (${recorded.paid_by}, ${recorded.payment_date})` })
+    } else if (earlier) {
+      Object.assign(op, { status: 'duplicate', note: `Same as row ${earlier.row}` })
+    } else {
+      seen.push({ ...payment, row: op.row })
+    }
+  }
+
+  return ops
+}
+
+/**
+ * import_history body for the selected rows. Duplicates that were selected anyway are sent with
+ * allow_duplicate; payments on a new loan that isn't selected are left out.
+ */
+export function toImportRequest(ops: ImportOperation[], selected: Set<number>) {
+  const picked = ops.filter(op => selected.has(op.row) && op.status !== 'invalid')
+  const loans: ImportLoanInput[] = picked
+    .filter(op => op.kind === 'create_loan')
+    .map(op => ({
+      ref: op.loan_ref!,
+      name: op.loan_name,
+      original_amount: op.amount!,
+      loan_date: op.date!,
+      term_months: op.term_months!,
+      apr: op.apr,
+      loan_type: op.loan_type,
+    }))
+  const refs = new Set(loans.map(l => l.ref))
+  const payments: ImportPaymentInput[] = picked
+    .filter(op => op.kind === 'add_payment' && (op.loan_id || refs.has(op.loan_ref!)))
+    .map(op => ({
+      row: op.row,
+      ...(op.loan_id ? { loan_id: op.loan_id } : { loan_ref: op.loan_ref }),
+      amount: op.amount!,
+      paid_by: op.paid_by,
+      payment_date: op.date!,
+      allow_duplicate: op.status === 'duplicate' || undefined,
+    }))
+  return { loans, payments }
+}
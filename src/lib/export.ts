@@ -0,0 +1,208 @@
+// src/lib/export.ts
+// Ledger export for spreadsheets and budgeting apps (GET /api/export, MCP export_ledger).
+//
+// Formats:
+//   csv        one row per payment (dataset "payments"), or one row per loan with its
+//              deriveLoan fields (dataset "loans")
+//   json       the whole document: filters, portfolio summary and every loan with its payments
+//   ofx / qfx  one credit-line statement per loan with its payments as transactions (OFX 1.02
+//              SGML; QFX is the same file under the extension Quicken looks for)
+//
+// Filters narrow the payments (from / to are inclusive payment dates, person is the payer) and
+// the loans (loan is an id or a name). Derived fields such as remaining_balance always describe
+// the whole loan.
+
+import { summarizePortfolio, toISODate, type ExchangeRate, type LoanComputed, type Payment } from '../index'
+
+export type ExportFormat = 'csv' | 'json' | 'ofx' | 'qfx'
+export type ExportDataset = 'payments' | 'loans'
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV (spreadsheet)' },
+  { format: 'json', label: 'JSON (everything)' },
+  { format: 'ofx', label: 'OFX (budgeting apps)' },
+  { format: 'qfx', label: 'QFX (Quicken)' },
+]
+
+export interface ExportFilters {
+  from?: string   // YYYY-MM-DD
+  to?: string     // YYYY-MM-DD
+  person?: string // payer name, case-insensitive
+  loan?: string   // loan id or name, case-insensitive
+}
+
+export interface ExportFile {
+  filename: string
+  content_type: string
+  body: string
+}
+
+/**
+ * Loans matching `loan`, each with only the payments inside the date range and by `person`.
+ * With a person, loans they never paid toward are left out.
+ */
+export function filterLedger(loans: LoanComputed[], filters: ExportFilters): LoanComputed[] {
+  const loanQuery = filters.loan?.trim().toLowerCase()
+  const person = filters.person?.trim().toLowerCase()
+  const keep = (p: Payment) =>
+    (!filters.from || p.payment_date >= filters.from) &&
+    (!filters.to || p.payment_date <= filters.to) &&
+    (!person || p.paid_by.toLowerCase() === person)
+
+  return loans
+    .filter(l => !loanQuery || l.id === filters.loan || l.name.toLowerCase() === loanQuery)
+    .map(l => ({ ...l, payments: l.payments.filter(keep) }))
+    .filter(l => !person || l.payments.length > 0)
+}
+
+// Quoted when needed; text starting with = + - @ is prefixed so spreadsheets don't run it as a formula
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  let s = String(value)
+  if (/^[=+\-@]/.test(s)) s = `'${s}`
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+function toCsv(header: string[], rows: unknown[][]) {
+  return [header, ...rows].map(r => r.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+const byDate = (a: Payment, b: Payment) => a.payment_date.localeCompare(b.payment_date)
+
+function paymentsCsv(loans: LoanComputed[]) {
+  const rows = loans
+    .flatMap(l => l.payments.map(p => ({ l, p })))
+    .sort((a, b) => byDate(a.p, b.p))
+    .map(({ l, p }) => [
+      p.payment_date, l.name, l.loan_type, l.lender?.name, l.currency, p.amount,
+      p.principal_amount, p.interest_amount, p.paid_by, p.autopay_rule_id ? 'autopay' : p.split_group_id ? 'split' : '',
+      p.id, l.id,
+    ])
+  return toCsv(
+    ['payment_date', 'loan_name', 'loan_type', 'lender', 'currency', 'amount',
+      'principal_amount', 'interest_amount', 'paid_by', 'source', 'payment_id', 'loan_id'],
+    rows,
+  )
+}
+
+function loansCsv(loans: LoanComputed[]) {
+  const rows = loans.map(l => [
+    l.id, l.name, l.loan_type, l.lender?.name, l.currency, l.loan_date, l.term_months, l.apr ?? 0,
+    l.original_amount, l.remaining_balance, l.total_paid, l.total_principal_paid, l.total_interest_paid,
+    l.total_adjustments, l.credit_due, l.estimated_monthly_payment, l.progress_percentage, l.payments_count,
+    l.last_payment_date, l.next_due_date, l.amount_due, l.days_past_due, l.projected_payoff_date,
+    l.projection_model, l.is_paid_off, l.is_archived,
+  ])
+  return toCsv(
+    ['loan_id', 'name', 'loan_type', 'lender', 'currency', 'loan_date', 'term_months', 'apr',
+      'original_amount', 'remaining_balance', 'total_paid', 'total_principal_paid', 'total_interest_paid',
+      'total_adjustments', 'credit_due', 'estimated_monthly_payment', 'progress_percentage', 'payments_count',
+      'last_payment_date', 'next_due_date', 'amount_due', 'days_past_due', 'projected_payoff_date',
+      'projection_model', 'is_paid_off', 'is_archived'],
+    rows,
+  )
+}
+
+const ofxText = (s: string, max: number) =>
+  s.slice(0, max).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+const ofxDate = (iso: string) => iso.slice(0, 10).replace(/-/g, '')
+const ofxAmount = (n: number) => (Math.round(n * 100) / 100).toFixed(2)
+
+/** Each loan is a credit line: payments are positive transactions and the balance owed is negative */
+function ofxDocument(loans: LoanComputed[], filters: ExportFilters, now: Date) {
+  const today = ofxDate(toISODate(now))
+  const statements = loans.map((l, i) => {
+    const payments = l.payments.slice().sort(byDate)
+    const start = filters.from ?? payments[0]?.payment_date ?? l.loan_date
+    const end = filters.to ?? toISODate(now)
+    const transactions = payments.map((p, j) => [
+      '<STMTTRN>',
+      '<TRNTYPE>PAYMENT',
+      `<DTPOSTED>${ofxDate(p.payment_date)}`,
+      `<TRNAMT>${ofxAmount(p.amount)}`,
+      `<FITID>${p.id ?? `${l.id}-${p.payment_date}-${j}`}`,
+      `<NAME>${ofxText(`${l.name} payment`, 32)}`,
+      `<MEMO>${ofxText(
+        `Paid by ${p.paid_by}` +
+          (p.interest_amount ? `; principal ${ofxAmount(p.principal_amount ?? p.amount)}, interest ${ofxAmount(p.interest_amount)}` : ''),
+        255,
+      )}`,
+      '</STMTTRN>',
+    ].join('\n'))
+
+    return [
+      '<CCSTMTTRNRS>',
+      `<TRNUID>${i + 1}`,
+      '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+      '<CCSTMTRS>',
+      `<CURDEF>${l.currency}`,
+      `<CCACCTFROM><ACCTID>${l.id.replace(/-/g, '').slice(0, 22)}</CCACCTFROM>`,
+      '<BANKTRANLIST>',
+      `<DTSTART>${ofxDate(start)}`,
+      `<DTEND>${ofxDate(end)}`,
+      ...transactions,
+      '</BANKTRANLIST>',
+      `<LEDGERBAL><BALAMT>${ofxAmount(-Math.max(0, l.remaining_balance))}<DTASOF>${today}</LEDGERBAL>`,
+      '</CCSTMTRS>',
+      '</CCSTMTTRNRS>',
+    ].join('\n')
+  })
+
+  return [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    'VERSION:102',
+    'SECURITY:NONE',
+    'ENCODING:USASCII',
+    'CHARSET:1252',
+    'COMPRESSION:NONE',
+    'OLDFILEUID:NONE',
+    'NEWFILEUID:NONE',
+    '',
+    '<OFX>',
+    '<SIGNONMSGSRSV1><SONRS>',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    `<DTSERVER>${today}`,
+    '<LANGUAGE>ENG',
+    '<FI><ORG>Loan Tracker<FID>0</FI>',
+    '</SONRS></SIGNONMSGSRSV1>',
+    '<CREDITCARDMSGSRSV1>',
+    ...statements,
+    '</CREDITCARDMSGSRSV1>',
+    '</OFX>',
+    '',
+  ].join('\n')
+}
+
+/** Build the download for `loans` (deriveLoan output); rates feed the JSON portfolio summary */
+export function exportLedger(
+  loans: LoanComputed[],
+  options: { format: ExportFormat; dataset?: ExportDataset; filters?: ExportFilters; rates?: ExchangeRate[]; now?: Date },
+): ExportFile {
+  const { format, dataset = 'payments', filters = {}, rates = [], now = new Date() } = options
+  const selected = filterLedger(loans, filters)
+  const stem = `loan-ledger-${toISODate(now)}`
+
+  if (format === 'csv') {
+    return {
+      filename: `${stem}-${dataset}.csv`,
+      content_type: 'text/csv; charset=utf-8',
+      body: dataset === 'loans' ? loansCsv(selected) : paymentsCsv(selected),
+    }
+  }
+  if (format === 'json') {
+    const document = {
+      exported_at: now.toISOString(),
+      filters,
+      summary: summarizePortfolio(selected, { rates, as_of: now }),
+      loans: selected,
+    }
+    return { filename: `${stem}.json`, content_type: 'application/json', body: JSON.stringify(document, null, 2) }
+  }
+  return {
+    filename: `${stem}.${format}`,
+    content_type: format === 'qfx' ? 'application/vnd.intu.qfx' : 'application/x-ofx',
+    body: ofxDocument(selected, filters, now),
+  }
+}
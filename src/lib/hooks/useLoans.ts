@@ -1,12 +1,13 @@
 import { useEffect, useState } from 'react'
 import { callLoanManager } from '@/lib/loan-manager'
-import type { Loan as LoanRow, LoanComputed } from '../../index'
+import type { ExchangeRate, Loan as LoanRow, LoanComputed, PaymentRecorded } from '../../index'
 import { deriveLoan } from '../../index'
 
 export type LoanWithPayments = LoanComputed
 
 export function useLoans() {
   const [loans, setLoans] = useState<LoanWithPayments[]>([])
+  const [rates, setRates] = useState<ExchangeRate[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -18,10 +19,19 @@ export function useLoans() {
     setLoading(true)
     setError(null)
     try {
-      const { data } = await callLoanManager<{ success: true; data: LoanRow[] }>({ action: 'get_loans' })
+      // Read-only: autopay is recorded by the scheduled run_scheduled_payments job, not by page loads.
+      // Archived loans are included so the dashboard can toggle them without a refetch.
+      // Without rates, totals only cover loans in the base currency.
+      const [{ data }, rateRows] = await Promise.all([
+        callLoanManager<{ success: true; data: LoanRow[] }>({ action: 'get_loans', include_archived: true }),
+        callLoanManager<{ success: true; data: ExchangeRate[] }>({ action: 'get_exchange_rates' })
+          .then((res) => res.data)
+          .catch((): ExchangeRate[] => []),
+      ])
       const mapped: LoanWithPayments[] = (data || []).map((loan) => deriveLoan(loan as any))
 
       setLoans(mapped)
+      setRates(rateRows)
     } catch (err: any) {
       setError(err?.message || 'Failed to load loans')
     } finally {
@@ -29,5 +39,27 @@ export function useLoans() {
     }
   }
 
-  return { loans, loading, error, refetch: fetchLoans }
+  // Merge an add_payment result (payment + updated loan row) without a full get_loans round trip
+  function applyPayment({ payment, loan, credit }: PaymentRecorded) {
+    setLoans((prev) =>
+      prev.map((existing) => {
+        if (existing.id !== payment.loan_id) return existing
+        // A replayed add_payment (same idempotency_key) returns the payment already merged
+        if (payment.id && existing.payments.some(p => p.id === payment.id)) return existing
+        const lastPayment = existing.last_payment_date && existing.last_payment_date > payment.payment_date
+          ? existing.last_payment_date
+          : payment.payment_date
+        return deriveLoan({
+          ...existing,
+          ...loan,
+          payments: [payment, ...existing.payments],
+          credits: credit ? [credit, ...existing.credits] : existing.credits,
+          total_paid: existing.total_paid + payment.amount,
+          last_payment: lastPayment,
+        })
+      })
+    )
+  }
+
+  return { loans, rates, loading, error, refetch: fetchLoans, applyPayment }
 }
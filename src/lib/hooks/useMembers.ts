@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react'
+import { callLoanManager } from '@/lib/loan-manager'
+import type { Member } from '../../index'
+
+export function useMembers() {
+  const [members, setMembers] = useState<Member[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    void fetchMembers()
+  }, [])
+
+  async function fetchMembers() {
+    setLoading(true)
+    setError(null)
+    try {
+      const { data } = await callLoanManager<{ success: true; data: Member[] }>({ action: 'get_members' })
+      setMembers(data || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load household members')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return { members, loading, error, refetch: fetchMembers }
+}
@@ -1,39 +1,65 @@
 // dashboard/src/lib/loan-manager.ts
 // Single caller for the Supabase Edge Function from the dashboard
 
+import { EdgeFunctionError, postEdge, type ImportHistoryOk, type ImportLoanInput, type ImportPaymentInput, type Member, type RunScheduledPaymentsOk } from '../index'
+
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL as string
 const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY as string
 const FUNCTION_NAME = 'loan-manager'
 
 export async function callLoanManager<T>(body: unknown): Promise<T> {
-  const res = await fetch(`${SUPABASE_URL}/functions/v1/${FUNCTION_NAME}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
-      'x-client-info': 'loan-tracker-dashboard',
-    },
-    body: JSON.stringify(body),
-  })
+  // create_loan / add_payment get an idempotency_key (one per call unless the body has one)
+  // and are retried after network errors
+  const res = await postEdge(`${SUPABASE_URL}/functions/v1/${FUNCTION_NAME}`, {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+    'x-client-info': 'loan-tracker-dashboard',
+  }, body)
 
   let json: any = null
   try { json = await res.json() } catch {}
 
   if (!res.ok) {
     const msg = (json && (json.error || json.message)) || `${res.status} ${res.statusText}`
-    throw new Error(msg)
+    throw new EdgeFunctionError(msg, res.status, json)
   }
 
   if (!json?.success) {
-    throw new Error(json?.error || 'Unknown error from edge function')
+    throw new EdgeFunctionError(json?.error || 'Unknown error from edge function', res.status, json)
   }
 
   return json as T
 }
 
 // Convenience wrappers (optional)
-export const getLoans = () => callLoanManager<{ success: true; data: any[] }>({ action: 'get_loans' })
+export const getLoans = (params: { include_archived?: boolean; lender?: string } = {}) => callLoanManager<{ success: true; data: any[] }>({ action: 'get_loans', ...params })
 export const createLoan = (params: Record<string, unknown>) => callLoanManager({ action: 'create_loan', ...params })
 export const addPayment = (params: Record<string, unknown>) => callLoanManager({ action: 'add_payment', ...params })
+export const updatePayment = (params: Record<string, unknown>) => callLoanManager({ action: 'update_payment', ...params })
+export const deletePayment = (params: Record<string, unknown>) => callLoanManager({ action: 'delete_payment', ...params })
+export const addAdjustment = (params: Record<string, unknown>) => callLoanManager({ action: 'add_adjustment', ...params })
+export const reconcileLoans = (params: Record<string, unknown> = {}) => callLoanManager({ action: 'reconcile_loans', ...params })
+export const updateLoan = (params: Record<string, unknown>) => callLoanManager({ action: 'update_loan', ...params })
+export const getMembers = () => callLoanManager<{ success: true; data: Member[] }>({ action: 'get_members' })
+export const upsertMember = (params: Record<string, unknown>) => callLoanManager({ action: 'upsert_member', ...params })
+export const getLenders = () => callLoanManager({ action: 'get_lenders' })
+export const upsertLender = (params: Record<string, unknown>) => callLoanManager({ action: 'upsert_lender', ...params })
+export const archiveLoan = (params: Record<string, unknown>) => callLoanManager({ action: 'archive_loan', ...params })
+// Deprecated alias of archiveLoan (delete_loan archives; the loan can be restored)
 export const deleteLoan = (params: Record<string, unknown>) => callLoanManager({ action: 'delete_loan', ...params })
-
+export const restoreLoan = (params: Record<string, unknown>) => callLoanManager({ action: 'restore_loan', ...params })
+// Permanent; `confirm` must repeat the loan's name
+export const purgeLoan = (params: Record<string, unknown> & { confirm: string }) => callLoanManager({ action: 'purge_loan', ...params })
+export const getAutopayRules = (params: Record<string, unknown> = {}) => callLoanManager({ action: 'get_autopay_rules', ...params })
+export const upsertAutopayRule = (params: Record<string, unknown>) => callLoanManager({ action: 'upsert_autopay_rule', ...params })
+export const deleteAutopayRule = (params: Record<string, unknown>) => callLoanManager({ action: 'delete_autopay_rule', ...params })
+// Idempotent: records autopay occurrences due through `through` (default today)
+export const runScheduledPayments = (params: Record<string, unknown> = {}) => callLoanManager<RunScheduledPaymentsOk>({ action: 'run_scheduled_payments', ...params })
+export const getReminderPrefs = () => callLoanManager({ action: 'get_reminder_prefs' })
+export const upsertReminderPrefs = (params: Record<string, unknown>) => callLoanManager({ action: 'upsert_reminder_prefs', ...params })
+export const sendReminders = (params: Record<string, unknown> = {}) => callLoanManager({ action: 'send_reminders', ...params })
+export const resolveCredit = (params: { credit_id: string; refunded_date?: string }) => callLoanManager({ action: 'resolve_credit', ...params })
+export const getExchangeRates = (params: { currency?: string } = {}) => callLoanManager({ action: 'get_exchange_rates', ...params })
+export const upsertExchangeRate = (params: { currency: string; rate: number; base_currency?: string; effective_date?: string }) => callLoanManager({ action: 'upsert_exchange_rate', ...params })
+// One transaction; a bad row rejects the batch (see src/lib/csv-import.ts)
+export const importHistory = (params: { loans?: ImportLoanInput[]; payments?: ImportPaymentInput[]; dry_run?: boolean }) => callLoanManager<ImportHistoryOk>({ action: 'import_history', ...params })
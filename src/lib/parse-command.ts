@@ -2,11 +2,29 @@
 // LLM-driven parser contract: Types, JSON Schema, and System Prompt
 // ---------------------------------------------------------------
 
-/** Supported actors for payments */
-export type PaidBy = "Steven" | "Katerina";
+/** Supported actors for payments: a household member's name (see loan_tracker_members) */
+export type PaidBy = string;
+
+/** What the prompt needs to know about each household member */
+export interface PromptMember {
+  name: string;
+  is_default?: boolean;
+}
 
 /** Actions the model can choose */
-export type Action = "create_loan" | "add_payment" | "get_loans" | "delete_loan" | "unknown";
+export type Action =
+  | "create_loan"
+  | "add_payment"
+  | "update_payment"
+  | "delete_payment"
+  | "get_loans"
+  | "update_loan"
+  | "delete_loan"
+  | "restore_loan"
+  | "set_autopay"
+  | "cancel_autopay"
+  | "simulate"
+  | "unknown";
 
 /** Parameter shapes per action */
 export interface CreateLoanParams {
@@ -16,21 +34,86 @@ export interface CreateLoanParams {
   loan_date: string;         // REQUIRED, YYYY-MM-DD
   lender?: string;
   loan_type?: string;        // default "general" is OK
+  apr?: number;              // annual percentage rate, e.g. 6.9; omit when not stated
+  promo_end_date?: string;   // YYYY-MM-DD, deferred-interest promo deadline
+  deferred_apr?: number;     // APR charged retroactively if the promo is missed
+  currency?: string;         // ISO 4217 when not dollars, e.g. "EUR"
 }
 
 export interface AddPaymentParams {
-  amount: number;
-  loan_name: string;
+  amount: number;            // total, when splits are given
+  loan_name: string;         // may be omitted when every split names its loan
   person?: PaidBy;
   payment_date?: string;     // YYYY-MM-DD
+  splits?: PaymentSplit[];   // one payment shared by several people and/or loans
+}
+
+/** One part of a split payment; missing fields fall back to the top-level ones */
+export interface PaymentSplit {
+  person?: PaidBy;
+  loan_name?: string;
+  amount?: number;           // every part has an amount,
+  percent?: number;          // or every part a percent, or neither (even split)
+}
+
+/** Identify an existing payment: loan plus whatever the user said about it */
+export interface PaymentMatch {
+  loan_name: string;
+  match_amount?: number;
+  match_date?: string;       // YYYY-MM-DD
+}
+
+export interface UpdatePaymentParams extends PaymentMatch {
+  amount?: number;           // corrected amount
+  person?: PaidBy;           // corrected payer
+  payment_date?: string;     // corrected date
 }
 
-export type GetLoansParams = { loan_name?: string };
+export type DeletePaymentParams = PaymentMatch;
 
+export type GetLoansParams = { loan_name?: string; lender?: string };
+
+export interface UpdateLoanParams {
+  loan_name: string;         // current name
+  new_name?: string;
+  loan_type?: string;
+  loan_date?: string;        // YYYY-MM-DD
+  lender?: string;           // lender name to link
+}
+
+/** delete_loan archives (soft delete); restore_loan undoes it */
 export interface DeleteLoanParams {
   loan_name: string;
 }
 
+export interface RestoreLoanParams {
+  loan_name: string;
+}
+
+/** Create or change the recurring payment for a loan (one rule per loan and payer) */
+export interface SetAutopayParams {
+  loan_name: string;
+  amount?: number;           // required for a new rule
+  person?: PaidBy;
+  cadence?: "monthly" | "biweekly";
+  day_of_month?: number;     // monthly: "on the 15th" → 15
+  start_date?: string;       // YYYY-MM-DD; biweekly rules repeat every 14 days from here
+  end_date?: string;         // YYYY-MM-DD
+}
+
+export interface CancelAutopayParams {
+  loan_name: string;
+  person?: PaidBy;           // only when the loan has several payers on autopay
+}
+
+/** "What if" projection against the current loans; nothing is written */
+export interface SimulateParams {
+  loan_name?: string;        // extra aimed at one loan; omit for all open loans
+  extra_monthly?: number;    // "$200 extra each month"
+  monthly_budget?: number;   // "$1,000/month toward everything" (minimums included)
+  strategy?: "avalanche" | "snowball"; // portfolio-wide only: which loan gets the extra first
+}
+
 export type UnknownParams = Record<string, never>;
 
 /** Unified response the model must return */
@@ -39,8 +122,15 @@ export interface LLMParseResponse {
   parameters:
     | CreateLoanParams
     | AddPaymentParams
+    | UpdatePaymentParams
+    | DeletePaymentParams
     | GetLoansParams
+    | UpdateLoanParams
     | DeleteLoanParams
+    | RestoreLoanParams
+    | SetAutopayParams
+    | CancelAutopayParams
+    | SimulateParams
     | UnknownParams;
   message: string;            // brief status (e.g., "Ready to create loan." or "Missing required fields.")
   need_followup: boolean;     // true if required fields are missing/ambiguous
@@ -57,7 +147,20 @@ export const RESPONSE_JSON_SCHEMA = {
   properties: {
     action: {
       type: "string",
-      enum: ["create_loan", "add_payment", "get_loans", "delete_loan", "unknown"],
+      enum: [
+        "create_loan",
+        "add_payment",
+        "update_payment",
+        "delete_payment",
+        "get_loans",
+        "update_loan",
+        "delete_loan",
+        "restore_loan",
+        "set_autopay",
+        "cancel_autopay",
+        "simulate",
+        "unknown",
+      ],
     },
     parameters: {
       // permissive; model is guided by prompt, server enforces per-action
@@ -72,10 +175,15 @@ export const RESPONSE_JSON_SCHEMA = {
 
 /**
  * Build the system prompt.
- * Pass today's date in America/Chicago (YYYY-MM-DD) so the model can resolve relative dates.
- * Example: makeSystemPrompt("2025-08-27")
+ * Pass today's date in America/Chicago (YYYY-MM-DD) so the model can resolve relative dates,
+ * and the household members so payer names are checked against the real list.
+ * Example: makeSystemPrompt("2025-08-27", [{ name: "Alex", is_default: true }, { name: "Sam" }])
  */
-export function makeSystemPrompt(todayISO: string) {
+export function makeSystemPrompt(todayISO: string, members: PromptMember[] = []) {
+  const memberList = members.length ? members.map((m) => `"${m.name}"`).join(", ") : "(none configured)";
+  const defaultMember = members.find((m) => m.is_default)?.name;
+  const examplePayer = defaultMember ?? members[0]?.name ?? "Alex";
+  const examplePartner = members.find((m) => m.name !== examplePayer)?.name ?? "Sam";
   return `
 Developer: You are the deterministic parser for a loan-management chat app. Your job is to convert natural-language user input into a single JSON object that exactly matches the Output contract below, or ask a concise follow-up if any required fields are missing.
 
@@ -88,7 +196,8 @@ Strict Rules:
 - Dates must be absolute in "YYYY-MM-DD" format, resolved for America/Chicago timezone, with today as ${todayISO}.
 - For loan names quoted in the message, use the quoted text. Otherwise, extract a concise, human-friendly loan name from phrases like “for ...”, “on ...”, or “to ...”. Remove any leading "the " and any trailing " loan"; trim whitespace and punctuation.
 - Amounts: Use explicit values marked by "$", "amount", "price", or "total". If absent, choose the largest non-date number.
-- For payments, only valid people are "Steven" and "Katerina" (match case-insensitive, output with exact case).
+- For payments, the only valid people are the household members: ${memberList} (match case-insensitive, output with exact case).${defaultMember ? ` "I", "me" or no payer at all means "${defaultMember}"; omit "person" in that case.` : ""}
+  If the payer named is not a household member, never substitute someone else: set "need_followup" to true and ask who made the payment, listing the members.
 - If the intent is unclear, use action="unknown" and provide an informative "message" with "need_followup": false.
 
 REQUIRED fields by action:
@@ -96,17 +205,39 @@ REQUIRED fields by action:
   If any are missing, follow up with one short question including ALL missing fields together.
   Accept relative dates (like “yesterday”, “last Friday”) and resolve to YYYY-MM-DD using America/Chicago.
   Recognize phrasing such as “18 months financing”, “for 18 months”, “18-month” as term_months = 18.
+  Recognize “at 6.9%”, “6.9% APR”, “6.9 percent interest” as apr = 6.9. "0% financing" is apr = 0. Never ask for apr; omit it if not stated.
+  Deferred-interest promos (“no interest if paid in full within 12 months”, “12 months special financing”, “deferred interest”): set promo_end_date = loan_date + N months (YYYY-MM-DD) and apr = 0. If the rate charged when the promo is missed is stated (“otherwise 29.99%”), set deferred_apr. Never ask for promo fields.
+  Loans in another currency (“€5,000”, “5000 EUR”, “£800”, “in euros”): set currency to the ISO 4217 code ("EUR", "GBP") and amount to the number. Omit currency for dollars; never ask for it.
+- add_payment: amount and loan_name. For ONE payment shared by several people or loans, add "splits" (at least two parts):
+  “${examplePartner} and I split $300 on the Couch” → amount 300, loan_name "Couch", splits [{ person: "${examplePartner}" }, { person: ${defaultMember ? `"${defaultMember}"` : "<the default member>"} }] (no amounts = even split).
+  “60/40” or “I paid 60%” → percent on every part. “$200 to Couch and $100 to Tesla” → amount on every part, each with its own loan_name (top-level loan_name may be omitted).
+  Inside splits, always name the person explicitly ("I"/"me" → the default member). Never invent a split for a single payer and loan.
+- update_payment: loan_name plus at least one correction (amount, person, payment_date). Put what identifies the EXISTING payment in match_amount / match_date.
+- delete_payment: loan_name; include match_amount / match_date whenever the user mentions them.
+- update_loan: loan_name (current name) plus at least one of new_name, loan_type, loan_date, lender
+- set_autopay: loan_name and amount; monthly rules also need day_of_month (“on the 15th” → 15), biweekly rules (“every two weeks”, “biweekly”) need start_date (the first payment).
+  When changing an existing autopay (“move the Couch autopay to the 20th”), loan_name plus the changed fields is enough. Use person for the payer, as with payments.
+- cancel_autopay: loan_name (person only if the user names whose autopay to stop)
+- simulate: extra_monthly or monthly_budget. “$200 extra on the Tesla each month” → loan_name "Tesla", extra_monthly 200. “$1,000/month toward everything” → monthly_budget 1000 (no loan_name).
+  Use it for hypothetical questions (“what if”, “how much sooner”, “when will we be debt-free if ...”); nothing is recorded. strategy only when the user asks for highest-interest-first (avalanche) or smallest-balance-first (snowball).
 
 Actions to return:
-- "create_loan" with { loan_name, amount, loan_date, term_months, lender?, loan_type?="general" }
-- "add_payment" with { amount, loan_name, person?, payment_date? }
-- "get_loans" with { loan_name? } // optional: only if requesting a specific loan
-- "delete_loan" with { loan_name }
+- "create_loan" with { loan_name, amount, loan_date, term_months, lender?, loan_type?="general", apr?, promo_end_date?, deferred_apr?, currency? }
+- "add_payment" with { amount, loan_name, person?, payment_date?, splits?: [{ person?, loan_name?, amount?, percent? }] }
+- "update_payment" with { loan_name, match_amount?, match_date?, amount?, person?, payment_date? }
+- "delete_payment" with { loan_name, match_amount?, match_date? }
+- "get_loans" with { loan_name?, lender? } // loan_name only if requesting a specific loan; lender for "show all Synchrony loans"
+- "update_loan" with { loan_name, new_name?, loan_type?, loan_date?, lender? } // loan_name is the CURRENT name; at least one change required
+- "delete_loan" with { loan_name } // also for "archive"/"remove"; the loan is archived and can be restored
+- "restore_loan" with { loan_name } // "restore", "unarchive", "bring back"
+- "set_autopay" with { loan_name, amount?, person?, cadence?="monthly", day_of_month?, start_date?, end_date? } // "set up autopay", "pay $X every month on the Nth"
+- "cancel_autopay" with { loan_name, person? } // "stop", "cancel", "turn off" autopay
+- "simulate" with { loan_name?, extra_monthly?, monthly_budget?, strategy? } // "what if we pay ...", never records a payment
 - "unknown" with {}
 
 OUTPUT CONTRACT:
 {
-  "action": string,                   // One of: "create_loan", "add_payment", "get_loans", "delete_loan", "unknown"
+  "action": string,                   // One of: "create_loan", "add_payment", "update_payment", "delete_payment", "get_loans", "update_loan", "delete_loan", "restore_loan", "set_autopay", "cancel_autopay", "simulate", "unknown"
   "parameters": object,               // Only fields valid for the chosen action, populated only when certain
   "message": string,                  // Brief status or guidance
   "need_followup": boolean,           // True if follow-up required
@@ -134,6 +265,43 @@ User: Create a new loan for "Couch" was purchased on 08/23/2025 for 757.74. We h
   "followup_question": null
 }
 
+1b) create_loan with APR:
+User: We financed the Tesla on 2025-03-01 for $42,000 over 72 months at 6.49% APR.
+{
+  "action": "create_loan",
+  "parameters": {
+    "loan_name": "Tesla",
+    "amount": 42000,
+    "term_months": 72,
+    "loan_date": "2025-03-01",
+    "loan_type": "auto",
+    "apr": 6.49
+  },
+  "message": "Ready to create loan.",
+  "need_followup": false,
+  "followup_question": null
+}
+
+1c) create_loan with a deferred-interest promo:
+User: Bought a sectional on 2025-06-10 for $2,400 through Synchrony, 24 months, no interest if paid in full in 12 months, otherwise 29.99%.
+{
+  "action": "create_loan",
+  "parameters": {
+    "loan_name": "Sectional",
+    "amount": 2400,
+    "term_months": 24,
+    "loan_date": "2025-06-10",
+    "lender": "Synchrony",
+    "loan_type": "general",
+    "apr": 0,
+    "promo_end_date": "2026-06-10",
+    "deferred_apr": 29.99
+  },
+  "message": "Ready to create loan.",
+  "need_followup": false,
+  "followup_question": null
+}
+
 2) create_loan, needs fields:
 User: I would like to add a loan.
 {
@@ -155,13 +323,13 @@ User: The loan is "Mirror" and I purchased it for $1,000.
 }
 
 3) Add payment with relative date:
-User: Steven paid $125 to "Dining Chairs" yesterday.
+User: ${examplePayer} paid $125 to "Dining Chairs" yesterday.
 {
   "action": "add_payment",
   "parameters": {
     "amount": 125,
     "loan_name": "Dining Chairs",
-    "person": "Steven",
+    "person": "${examplePayer}",
     "payment_date": "${todayISO ? resolveRelative(todayISO, -1) : "YYYY-MM-DD"}"
   },
   "message": "Ready to add payment.",
@@ -169,6 +337,57 @@ User: Steven paid $125 to "Dining Chairs" yesterday.
   "followup_question": null
 }
 
+3b) update_payment, fix a typo:
+User: The $1250 payment on the Couch should have been $125.
+{
+  "action": "update_payment",
+  "parameters": { "loan_name": "Couch", "match_amount": 1250, "amount": 125 },
+  "message": "Ready to update payment.",
+  "need_followup": false,
+  "followup_question": null
+}
+
+3c) delete_payment with relative date:
+User: Delete the $1250 payment on Couch from yesterday.
+{
+  "action": "delete_payment",
+  "parameters": {
+    "loan_name": "Couch",
+    "match_amount": 1250,
+    "match_date": "${todayISO ? resolveRelative(todayISO, -1) : "YYYY-MM-DD"}"
+  },
+  "message": "Ready to delete payment.",
+  "need_followup": false,
+  "followup_question": null
+}
+
+3d) add_payment, split between people:
+User: ${examplePartner} and I split $300 on the Couch.
+{
+  "action": "add_payment",
+  "parameters": {
+    "amount": 300,
+    "loan_name": "Couch",
+    "splits": [{ "person": "${examplePartner}" }, { "person": "${examplePayer}" }]
+  },
+  "message": "Ready to add split payment.",
+  "need_followup": false,
+  "followup_question": null
+}
+
+3e) add_payment, one transfer across loans:
+User: One $500 transfer: $300 to Couch and $200 to Tesla.
+{
+  "action": "add_payment",
+  "parameters": {
+    "amount": 500,
+    "splits": [{ "loan_name": "Couch", "amount": 300 }, { "loan_name": "Tesla", "amount": 200 }]
+  },
+  "message": "Ready to add split payment.",
+  "need_followup": false,
+  "followup_question": null
+}
+
 4) get_loans, summary:
 User: Summarize my loans.
 {
@@ -189,22 +408,112 @@ User: Tell me more about the Tesla loan.
   "followup_question": null
 }
 
+4c) update_loan, rename:
+User: Rename the Couch loan to Living Room Couch.
+{
+  "action": "update_loan",
+  "parameters": { "loan_name": "Couch", "new_name": "Living Room Couch" },
+  "message": "Ready to update loan.",
+  "need_followup": false,
+  "followup_question": null
+}
+
+4d) update_loan, correct date and type:
+User: The Tesla loan actually started on March 3rd 2025 and it's an auto loan.
+{
+  "action": "update_loan",
+  "parameters": { "loan_name": "Tesla", "loan_date": "2025-03-03", "loan_type": "auto" },
+  "message": "Ready to update loan.",
+  "need_followup": false,
+  "followup_question": null
+}
+
+4e) get_loans, by lender:
+User: Show all Synchrony loans.
+{
+  "action": "get_loans",
+  "parameters": { "lender": "Synchrony" },
+  "message": "Fetching loans from Synchrony.",
+  "need_followup": false,
+  "followup_question": null
+}
+
 5) delete_loan:
 User: Delete the Dining Chairs loan.
 {
   "action": "delete_loan",
   "parameters": { "loan_name": "Dining Chairs" },
-  "message": "Ready to delete loan.",
+  "message": "Ready to archive loan.",
+  "need_followup": false,
+  "followup_question": null
+}
+
+5b) restore_loan:
+User: Bring back the Dining Chairs loan.
+{
+  "action": "restore_loan",
+  "parameters": { "loan_name": "Dining Chairs" },
+  "message": "Ready to restore loan.",
+  "need_followup": false,
+  "followup_question": null
+}
+
+6) set_autopay, monthly:
+User: Set up autopay of $63.14 on the Couch on the 15th, paid by ${examplePartner}.
+{
+  "action": "set_autopay",
+  "parameters": { "loan_name": "Couch", "amount": 63.14, "person": "${examplePartner}", "cadence": "monthly", "day_of_month": 15 },
+  "message": "Ready to set up autopay.",
+  "need_followup": false,
+  "followup_question": null
+}
+
+6b) set_autopay, biweekly without a start:
+User: Autopay $200 every two weeks on the Tesla.
+{
+  "action": "set_autopay",
+  "parameters": { "loan_name": "Tesla", "amount": 200, "cadence": "biweekly" },
+  "message": "Missing required fields.",
+  "need_followup": true,
+  "followup_question": "When is the first biweekly payment (YYYY-MM-DD)?"
+}
+
+6c) cancel_autopay:
+User: Turn off autopay on the Couch.
+{
+  "action": "cancel_autopay",
+  "parameters": { "loan_name": "Couch" },
+  "message": "Ready to cancel autopay.",
+  "need_followup": false,
+  "followup_question": null
+}
+
+7) simulate, one loan:
+User: What if we pay $200 extra on the Tesla each month?
+{
+  "action": "simulate",
+  "parameters": { "loan_name": "Tesla", "extra_monthly": 200 },
+  "message": "Running a what-if projection.",
+  "need_followup": false,
+  "followup_question": null
+}
+
+7b) simulate, whole portfolio:
+User: When will we be debt-free if we put $1,000/month toward everything?
+{
+  "action": "simulate",
+  "parameters": { "monthly_budget": 1000 },
+  "message": "Running a what-if projection.",
   "need_followup": false,
   "followup_question": null
 }
 
-6) Unknown:
+8) Unknown:
 User: Can you make it nicer somehow?
 {
   "action": "unknown",
   "parameters": {},
-  "message": "I can create loans, add payments, show loans, or delete a loan. What would you like to do?",
+  "message": "I can create loans, add payments, set up autopay, run what-if projections, show, update, archive, or restore a loan. What would you like to do?",
   "need_followup": false,
   "followup_question": null
 }
@@ -0,0 +1,193 @@
+// src/lib/pdf.ts
+// Minimal PDF writer for statements and reports (server-side, no dependencies).
+//
+// Lays out a ReportDocument on US Letter pages with the built-in Helvetica fonts: a title,
+// then per section a heading, label/value facts, a table (header repeated on each page,
+// optional bold total row) and a note. Text is WinAnsi-encoded; characters outside it print
+// as "?". Pages are numbered in the footer.
+
+import type { ReportDocument, ReportTable } from './statements'
+
+const PAGE_WIDTH = 612
+const PAGE_HEIGHT = 792
+const MARGIN = 48
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+
+// Helvetica advance widths (1/1000 em) for ASCII 32..126; bold figures share them, which
+// is what right-aligned columns need
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+]
+
+// Unicode characters WinAnsi places in 0x80..0x9F
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '•': 0x95, '–': 0x96, '—': 0x97,
+  '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '™': 0x99,
+}
+
+function encode(text: string): string {
+  let out = ''
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!
+    if (WIN_ANSI[ch] !== undefined) out += String.fromCharCode(WIN_ANSI[ch])
+    else if (code === 0x202f || code === 0x2009) out += ' ' // narrow spaces from Intl currency formats
+    else if (code >= 0x20 && code <= 0x7e) out += ch
+    else if (code >= 0xa0 && code <= 0xff) out += ch
+    else out += '?'
+  }
+  return out
+}
+
+function textWidth(text: string, size: number) {
+  let units = 0
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : ch === '…' || ch === '—' ? 1000 : 556
+  }
+  return (units / 1000) * size
+}
+
+function fit(text: string, size: number, width: number) {
+  if (textWidth(text, size) <= width) return text
+  let cut = text
+  while (cut.length > 1 && textWidth(`${cut}…`, size) > width) cut = cut.slice(0, -1)
+  return `${cut}…`
+}
+
+const pdfString = (text: string) => `(${encode(text).replace(/[\\()]/g, m => `\\${m}`)})`
+const num = (n: number) => String(Math.round(n * 100) / 100)
+
+interface TextStyle {
+  size: number
+  bold?: boolean
+  gray?: boolean
+}
+
+/** Render `doc` as a PDF file */
+export function renderPdf(doc: ReportDocument): Buffer {
+  const pages: string[][] = []
+  let ops: string[] = []
+  let y = 0
+
+  const newPage = () => {
+    ops = []
+    pages.push(ops)
+    y = PAGE_HEIGHT - MARGIN
+  }
+  const text = (value: string, x: number, style: TextStyle, align: 'left' | 'right' = 'left') => {
+    const left = align === 'right' ? x - textWidth(value, style.size) : x
+    ops.push(`${style.gray ? '0.4' : '0'} g BT /${style.bold ? 'F2' : 'F1'} ${style.size} Tf 1 0 0 1 ${num(left)} ${num(y)} Tm ${pdfString(value)} Tj ET`)
+  }
+  const rule = (offset = 3) => {
+    ops.push(`0.75 G 0.5 w ${MARGIN} ${num(y - offset)} m ${PAGE_WIDTH - MARGIN} ${num(y - offset)} l S`)
+  }
+  // Break before a block of `height` points that doesn't fit; true when a page was started
+  const ensure = (height: number) => {
+    if (y - height >= MARGIN + 16) return false
+    newPage()
+    return true
+  }
+
+  const tableRow = (table: ReportTable, cells: string[], style: TextStyle) => {
+    let x = MARGIN
+    table.columns.forEach((col, i) => {
+      const width = col.width * CONTENT_WIDTH
+      const value = fit(cells[i] ?? '', style.size, width - 6)
+      if (col.align === 'right') text(value, x + width - 2, style, 'right')
+      else text(value, x, style)
+      x += width
+    })
+  }
+  const tableHeader = (table: ReportTable) => {
+    tableRow(table, table.columns.map(c => c.label), { size: 8.5, bold: true })
+    rule()
+    y -= 13
+  }
+
+  newPage()
+  text(doc.title, MARGIN, { size: 18, bold: true })
+  y -= 18
+  text(doc.subtitle, MARGIN, { size: 10 })
+  y -= 13
+  text(doc.generated_at, MARGIN, { size: 8, gray: true })
+  y -= 26
+
+  for (const section of doc.sections) {
+    ensure(48)
+    text(section.heading, MARGIN, { size: 12, bold: true })
+    y -= 17
+
+    for (const [label, value] of section.facts ?? []) {
+      ensure(12)
+      text(label, MARGIN, { size: 9, gray: true })
+      text(fit(value, 9, CONTENT_WIDTH - 160), MARGIN + 160, { size: 9 })
+      y -= 12.5
+    }
+    if (section.facts?.length) y -= 6
+
+    const table = section.table
+    if (table) {
+      tableHeader(table)
+      for (const row of table.rows) {
+        if (ensure(12)) tableHeader(table)
+        tableRow(table, row, { size: 8.5 })
+        y -= 12
+      }
+      if (table.total) {
+        if (ensure(16)) tableHeader(table)
+        y -= 2
+        ops.push(`0.75 G 0.5 w ${MARGIN} ${num(y + 10)} m ${PAGE_WIDTH - MARGIN} ${num(y + 10)} l S`)
+        tableRow(table, table.total, { size: 8.5, bold: true })
+        y -= 12
+      }
+      y -= 6
+    }
+
+    if (section.note) {
+      ensure(12)
+      text(fit(section.note, 8.5, CONTENT_WIDTH), MARGIN, { size: 8.5, gray: true })
+      y -= 12
+    }
+    y -= 14
+  }
+
+  pages.forEach((page, i) => {
+    page.push(`0.4 g BT /F1 8 Tf 1 0 0 1 ${MARGIN} ${MARGIN - 20} Tm ${pdfString(doc.title)} Tj ET`)
+    const label = `Page ${i + 1} of ${pages.length}`
+    page.push(`0.4 g BT /F1 8 Tf 1 0 0 1 ${num(PAGE_WIDTH - MARGIN - textWidth(label, 8))} ${MARGIN - 20} Tm ${pdfString(label)} Tj ET`)
+  })
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content stream per page
+  const objects: string[] = []
+  const pageIds = pages.map((_, i) => 6 + i * 2)
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>'
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+  objects[5] = `<< /Title ${pdfString(doc.title)} /Producer (Loan Tracker) >>`
+  pages.forEach((page, i) => {
+    const stream = page.join('\n')
+    objects[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`
+    objects[pageIds[i] + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+  })
+
+  // Every character is one byte (encode() output), so string lengths are byte offsets
+  let out = '%PDF-1.4\n'
+  const offsets: number[] = []
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = out.length
+    out += `${id} 0 obj\n${objects[id]}\nendobj\n`
+  }
+  const xref = out.length
+  out += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+  for (let id = 1; id < objects.length; id++) out += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`
+  out += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+
+  return Buffer.from(out, 'latin1')
+}
@@ -0,0 +1,460 @@
+// src/lib/statements.ts
+// Printable loan statements and the year-end household report (GET /api/report).
+//
+// buildLoanStatement / buildYearEndReport turn deriveLoan output into a ReportDocument:
+// titled sections of label/value facts and tables with the amounts already formatted.
+// renderReportHtml prints it as a standalone page; renderPdf (src/lib/pdf.ts) as a PDF.
+//
+// Balances are replayed from the ledger (original amount, minus principal paid, plus
+// adjustments), the same way deriveLoan computes ledger_balance.
+
+import { format } from 'date-fns'
+import { parseLocalISODate } from './date'
+import {
+  BASE_CURRENCY,
+  currencyConverter,
+  formatCurrency,
+  formatPercent,
+  PROJECTION_MODEL_LABELS,
+  resolveMemberName,
+  toISODate,
+  type CurrencyOptions,
+  type LoanComputed,
+  type Member,
+} from '../index'
+
+export interface ReportTable {
+  columns: { label: string; align?: 'left' | 'right'; width: number }[] // width: share of the page
+  rows: string[][]
+  total?: string[]
+}
+
+export interface ReportSection {
+  heading: string
+  facts?: [string, string][]
+  table?: ReportTable
+  note?: string
+}
+
+export interface ReportDocument {
+  title: string
+  subtitle: string
+  generated_at: string
+  sections: ReportSection[]
+}
+
+interface LedgerEntry {
+  date: string
+  description: string
+  paid_by: string
+  amount: number
+  principal: number
+  interest: number
+  balance: number // after this entry
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+const day = (iso: string) => format(parseLocalISODate(iso), 'MMM d, yyyy')
+const generatedAt = (now: Date) => `Generated ${format(now, 'MMM d, yyyy h:mm a')}`
+
+/** Payments and adjustments oldest first, with the balance after each */
+function ledgerEntries(loan: LoanComputed): LedgerEntry[] {
+  const events = [
+    ...loan.payments.map(p => ({
+      date: p.payment_date,
+      created_at: p.created_at ?? '',
+      description: p.autopay_rule_id ? 'Payment (autopay)' : p.split_group_id ? 'Payment (split)' : 'Payment',
+      paid_by: p.paid_by,
+      amount: p.amount,
+      principal: p.principal_amount ?? p.amount,
+      interest: p.interest_amount ?? 0,
+      change: -(p.principal_amount ?? p.amount),
+    })),
+    ...(loan.adjustments ?? []).map(a => ({
+      date: a.adjustment_date,
+      created_at: a.created_at ?? '',
+      description: `Adjustment: ${a.reason}`,
+      paid_by: '',
+      amount: a.amount,
+      principal: 0,
+      interest: 0,
+      change: a.amount,
+    })),
+  ].sort((a, b) => a.date.localeCompare(b.date) || a.created_at.localeCompare(b.created_at))
+
+  let balance = loan.original_amount
+  return events.map(e => {
+    balance = Math.max(0, round2(balance + e.change))
+    return {
+      date: e.date,
+      description: e.description,
+      paid_by: e.paid_by,
+      amount: e.amount,
+      principal: e.principal,
+      interest: e.interest,
+      balance,
+    }
+  })
+}
+
+/** Ledger balance at the start of `date` (YYYY-MM-DD) */
+function balanceBefore(loan: LoanComputed, entries: LedgerEntry[], date: string) {
+  const before = entries.filter(e => e.date < date)
+  return before.length ? before[before.length - 1].balance : loan.original_amount
+}
+
+/**
+ * Statement for one loan: where it stands today, then every payment and adjustment in
+ * from..to (default: all of them) with the running balance, and the totals per payer.
+ */
+export function buildLoanStatement(
+  loan: LoanComputed,
+  options: { from?: string; to?: string; now?: Date } = {},
+): ReportDocument {
+  const now = options.now ?? new Date()
+  const money = (n: number) => formatCurrency(n, loan.currency)
+  const entries = ledgerEntries(loan)
+  const inPeriod = entries.filter(e => (!options.from || e.date >= options.from) && (!options.to || e.date <= options.to))
+  const opening = options.from ? balanceBefore(loan, entries, options.from) : loan.original_amount
+  const closing = inPeriod.length ? inPeriod[inPeriod.length - 1].balance : opening
+
+  const period = options.from && options.to
+    ? `${day(options.from)} – ${day(options.to)}`
+    : options.from
+      ? `Since ${day(options.from)}`
+      : `All activity through ${day(options.to ?? toISODate(now))}`
+
+  const facts: [string, string][] = [
+    ['Lender', loan.lender?.name ?? '—'],
+    ['Opened', `${day(loan.loan_date)} • ${money(loan.original_amount)} over ${loan.term_months} months`],
+    ['APR', loan.apr ? formatPercent(loan.apr, 2) : 'Interest-free'],
+    ['Monthly payment', money(loan.estimated_monthly_payment)],
+    ['Remaining balance', money(loan.remaining_balance)],
+    ['Paid to date', `${money(loan.total_paid)} (${money(loan.total_principal_paid)} principal, ${money(loan.total_interest_paid)} interest)`],
+    ['Progress', formatPercent(loan.progress_percentage)],
+  ]
+  if (loan.is_paid_off) {
+    facts.push(['Status', loan.last_payment_date ? `Paid off ${day(loan.last_payment_date)}` : 'Paid off'])
+  } else {
+    if (loan.next_due_date) {
+      facts.push(['Next due', `${money(loan.amount_due)} on ${day(loan.next_due_date)}` +
+        (loan.days_past_due > 0 ? ` (${loan.days_past_due} days past due)` : '')])
+    }
+    if (loan.projected_payoff_date && loan.projection_model) {
+      const range = loan.projection_range
+        ? ` (between ${day(loan.projection_range.optimistic)} and ${day(loan.projection_range.pessimistic)})`
+        : ''
+      facts.push(['Projected payoff', `${day(loan.projected_payoff_date)} at the ${PROJECTION_MODEL_LABELS[loan.projection_model]}${range}`])
+    }
+    if (loan.promo) {
+      facts.push(['Promo', `No interest if paid by ${day(loan.promo.promo_end_date)}; ` +
+        `${money(loan.promo.required_monthly_payment)}/month needed (${loan.promo.on_pace ? 'on pace' : 'behind'})`])
+    }
+  }
+  if (loan.credit_due > 0) facts.push(['Credit due', `${money(loan.credit_due)} overpaid, owed back to the payer`])
+
+  const payments = inPeriod.filter(e => e.paid_by)
+  const sum = (list: LedgerEntry[], key: 'amount' | 'principal' | 'interest') => round2(list.reduce((s, e) => s + e[key], 0))
+  const payers = [...new Set(payments.map(e => e.paid_by))]
+
+  return {
+    title: `${loan.name} statement`,
+    subtitle: `${period}${loan.is_archived ? ' • archived loan' : ''}`,
+    generated_at: generatedAt(now),
+    sections: [
+      { heading: 'Summary', facts },
+      {
+        heading: 'Activity',
+        table: {
+          columns: [
+            { label: 'Date', width: 0.13 },
+            { label: 'Description', width: 0.26 },
+            { label: 'Paid by', width: 0.13 },
+            { label: 'Amount', align: 'right', width: 0.12 },
+            { label: 'Principal', align: 'right', width: 0.12 },
+            { label: 'Interest', align: 'right', width: 0.11 },
+            { label: 'Balance', align: 'right', width: 0.13 },
+          ],
+          rows: [
+            [day(options.from ?? loan.loan_date), 'Opening balance', '', '', '', '', money(opening)],
+            ...inPeriod.map(e => [
+              day(e.date), e.description, e.paid_by, money(e.amount),
+              e.paid_by ? money(e.principal) : '', e.paid_by ? money(e.interest) : '', money(e.balance),
+            ]),
+          ],
+          total: ['', `${payments.length} payment${payments.length === 1 ? '' : 's'}`, '',
+            money(sum(payments, 'amount')), money(sum(payments, 'principal')), money(sum(payments, 'interest')), money(closing)],
+        },
+        note: Math.abs(loan.balance_discrepancy) >= 0.01
+          ? `The recorded balance (${money(loan.remaining_balance)}) differs from this ledger by ${money(loan.balance_discrepancy)}; run reconcile_loans.`
+          : undefined,
+      },
+      {
+        heading: 'By payer',
+        table: {
+          columns: [
+            { label: 'Paid by', width: 0.4 },
+            { label: 'Payments', align: 'right', width: 0.15 },
+            { label: 'Principal', align: 'right', width: 0.15 },
+            { label: 'Interest', align: 'right', width: 0.15 },
+            { label: 'Total', align: 'right', width: 0.15 },
+          ],
+          rows: payers.map(name => {
+            const mine = payments.filter(e => e.paid_by === name)
+            return [name, String(mine.length), money(sum(mine, 'principal')), money(sum(mine, 'interest')), money(sum(mine, 'amount'))]
+          }),
+        },
+        note: payers.length ? undefined : 'No payments in this period.',
+      },
+    ],
+  }
+}
+
+interface Totals {
+  payments: number
+  principal: number
+  interest: number
+  total: number
+}
+
+const emptyTotals = (): Totals => ({ payments: 0, principal: 0, interest: 0, total: 0 })
+
+/**
+ * Year-end household report: what each person paid in `year`, by loan and by month, and
+ * where every loan stood on December 31. Totals are in the base currency at the rates in
+ * effect at year end; loans in a currency without a rate are listed but not added.
+ */
+export function buildYearEndReport(
+  loans: LoanComputed[],
+  members: Member[],
+  year: number,
+  options: CurrencyOptions & { now?: Date } = {},
+): ReportDocument {
+  const now = options.now ?? new Date()
+  const base = options.base_currency ?? BASE_CURRENCY
+  const yearStart = `${year}-01-01`
+  const yearEnd = `${year}-12-31`
+  const toBase = currencyConverter({ ...options, base_currency: base, as_of: new Date(`${yearEnd}T12:00:00Z`) })
+  const money = (n: number) => formatCurrency(n, base)
+
+  // person → loan → totals, person → month → total
+  const people = new Map<string, { byLoan: Map<string, Totals>; byMonth: number[]; totals: Totals }>()
+  const person = (name: string) => {
+    let p = people.get(name)
+    if (!p) {
+      p = { byLoan: new Map(), byMonth: Array(12).fill(0), totals: emptyTotals() }
+      people.set(name, p)
+    }
+    return p
+  }
+  for (const m of members) person(m.name)
+
+  const missing = new Set<string>()
+  const household = emptyTotals()
+  const loanRows: string[][] = []
+  const paidOff: string[] = []
+
+  for (const loan of loans.slice().sort((a, b) => a.name.localeCompare(b.name))) {
+    if (loan.loan_date > yearEnd) continue
+    const entries = ledgerEntries(loan)
+    const yearPayments = loan.payments.filter(p => p.payment_date >= yearStart && p.payment_date <= yearEnd)
+    const startBalance = balanceBefore(loan, entries, yearStart)
+    const endBalance = balanceBefore(loan, entries, `${year + 1}-01-01`)
+    if (!yearPayments.length && startBalance <= 0) continue
+
+    const native = (n: number) => formatCurrency(n, loan.currency)
+    const paidInYear = round2(yearPayments.reduce((s, p) => s + p.amount, 0))
+    const interestInYear = round2(yearPayments.reduce((s, p) => s + (p.interest_amount ?? 0), 0))
+    const clearedThisYear = startBalance > 0 && endBalance <= 0
+    if (clearedThisYear) paidOff.push(loan.name)
+    loanRows.push([
+      loan.name, native(paidInYear), native(interestInYear), native(endBalance),
+      clearedThisYear ? 'Paid off' : endBalance <= 0 ? 'Closed' : loan.is_archived ? 'Archived' : 'Open',
+    ])
+
+    for (const p of yearPayments) {
+      const amount = toBase(p.amount, loan.currency)
+      if (amount === undefined) {
+        missing.add(loan.currency)
+        continue
+      }
+      const principal = toBase(p.principal_amount ?? p.amount, loan.currency) ?? 0
+      const interest = toBase(p.interest_amount ?? 0, loan.currency) ?? 0
+      const who = person(resolveMemberName(members, p.paid_by) ?? p.paid_by)
+      const onLoan = who.byLoan.get(loan.name) ?? emptyTotals()
+      who.byLoan.set(loan.name, onLoan)
+      for (const t of [onLoan, who.totals, household]) {
+        t.payments += 1
+        t.principal = round2(t.principal + principal)
+        t.interest = round2(t.interest + interest)
+        t.total = round2(t.total + amount)
+      }
+      const month = Number(p.payment_date.slice(5, 7)) - 1
+      who.byMonth[month] = round2(who.byMonth[month] + amount)
+    }
+  }
+
+  const payers = [...people.entries()].filter(([, p]) => p.totals.payments > 0)
+  const totalsRow = (label: string, t: Totals) => [label, String(t.payments), money(t.principal), money(t.interest), money(t.total)]
+  const totalsColumns: ReportTable['columns'] = [
+    { label: 'Loan', width: 0.4 },
+    { label: 'Payments', align: 'right', width: 0.15 },
+    { label: 'Principal', align: 'right', width: 0.15 },
+    { label: 'Interest', align: 'right', width: 0.15 },
+    { label: 'Total', align: 'right', width: 0.15 },
+  ]
+  const missingNote = missing.size
+    ? `Not added (no exchange rate to ${base}): payments in ${[...missing].join(', ')}.`
+    : undefined
+
+  // Months as rows, one column per payer: fits the page better than twelve month columns
+  const personWidth = payers.length ? Math.min(0.2, 0.7 / (payers.length + 1)) : 0.2
+  const monthTable: ReportTable = {
+    columns: [
+      { label: 'Month', width: 0.16 },
+      ...payers.map(([name]) => ({ label: name, align: 'right' as const, width: personWidth })),
+      { label: 'Total', align: 'right', width: personWidth },
+    ],
+    rows: Array.from({ length: 12 }, (_, m) => [
+      format(new Date(year, m, 1), 'MMMM'),
+      ...payers.map(([, p]) => money(p.byMonth[m])),
+      money(round2(payers.reduce((s, [, p]) => s + p.byMonth[m], 0))),
+    ]),
+    total: ['Year', ...payers.map(([, p]) => money(p.totals.total)), money(household.total)],
+  }
+
+  return {
+    title: `${year} household report`,
+    subtitle: `Payments from ${day(yearStart)} to ${day(yearEnd)}, in ${base}`,
+    generated_at: generatedAt(now),
+    sections: [
+      {
+        heading: 'Household',
+        facts: [
+          ['Total paid', money(household.total)],
+          ['Principal', money(household.principal)],
+          ['Interest', money(household.interest)],
+          ['Payments', String(household.payments)],
+          ['Loans paid off', paidOff.length ? paidOff.join(', ') : 'None'],
+        ],
+        note: missingNote,
+      },
+      {
+        heading: 'By person',
+        table: {
+          columns: [
+            { label: 'Person', width: 0.34 },
+            { label: 'Payments', align: 'right', width: 0.12 },
+            { label: 'Principal', align: 'right', width: 0.14 },
+            { label: 'Interest', align: 'right', width: 0.14 },
+            { label: 'Total', align: 'right', width: 0.14 },
+            { label: 'Share', align: 'right', width: 0.12 },
+          ],
+          rows: payers.map(([name, p]) => [
+            ...totalsRow(name, p.totals),
+            formatPercent(household.total ? (p.totals.total / household.total) * 100 : 0),
+          ]),
+          total: [...totalsRow('Household', household), formatPercent(household.total ? 100 : 0)],
+        },
+        note: payers.length ? undefined : `No payments in ${year}.`,
+      },
+      ...payers.map(([name, p]) => ({
+        heading: `${name} by loan`,
+        table: {
+          columns: totalsColumns,
+          rows: [...p.byLoan.entries()].map(([loanName, t]) => totalsRow(loanName, t)),
+          total: totalsRow('Total', p.totals),
+        },
+      })),
+      { heading: 'By month', table: monthTable },
+      {
+        heading: `Loans on ${day(yearEnd)}`,
+        table: {
+          columns: [
+            { label: 'Loan', width: 0.34 },
+            { label: `Paid in ${year}`, align: 'right', width: 0.17 },
+            { label: 'Interest', align: 'right', width: 0.15 },
+            { label: 'Balance', align: 'right', width: 0.17 },
+            { label: 'Status', align: 'right', width: 0.17 },
+          ],
+          rows: loanRows,
+        },
+        note: 'Amounts in each loan\'s own currency; balances from the payment ledger.',
+      },
+    ],
+  }
+}
+
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+function tableHtml(table: ReportTable) {
+  const cell = (tag: 'th' | 'td', value: string, i: number) =>
+    `<${tag}${table.columns[i]?.align === 'right' ? ' class="num"' : ''}>${escapeHtml(value)}</${tag}>`
+  return [
+    '<table>',
+    `<colgroup>${table.columns.map(c => `<col style="width:${(c.width * 100).toFixed(1)}%">`).join('')}</colgroup>`,
+    `<thead><tr>${table.columns.map((c, i) => cell('th', c.label, i)).join('')}</tr></thead>`,
+    `<tbody>${table.rows.map(r => `<tr>${r.map((v, i) => cell('td', v, i)).join('')}</tr>`).join('')}</tbody>`,
+    table.total ? `<tfoot><tr>${table.total.map((v, i) => cell('td', v, i)).join('')}</tr></tfoot>` : '',
+    '</table>',
+  ].join('\n')
+}
+
+/** Standalone print-ready page; pdf_href adds a download link next to the Print button */
+export function renderReportHtml(doc: ReportDocument, options: { pdf_href?: string } = {}) {
+  const sections = doc.sections.map(s => [
+    '<section>',
+    `<h2>${escapeHtml(s.heading)}</h2>`,
+    s.facts?.length
+      ? `<dl>${s.facts.map(([k, v]) => `<dt>${escapeHtml(k)}</dt><dd>${escapeHtml(v)}</dd>`).join('')}</dl>`
+      : '',
+    s.table ? tableHtml(s.table) : '',
+    s.note ? `<p class="note">${escapeHtml(s.note)}</p>` : '',
+    '</section>',
+  ].join('\n'))
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(doc.title)}</title>
+<style>
+  body { font: 13px/1.45 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #111827; max-width: 820px; margin: 32px auto; padding: 0 24px; }
+  h1 { font-size: 24px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 28px 0 8px; }
+  .subtitle { color: #374151; margin: 0; }
+  .generated, .note { color: #6b7280; font-size: 11px; }
+  dl { display: grid; grid-template-columns: 160px 1fr; gap: 4px 12px; margin: 0; }
+  dt { color: #6b7280; }
+  dd { margin: 0; }
+  table { width: 100%; border-collapse: collapse; table-layout: fixed; font-size: 12px; }
+  th { text-align: left; border-bottom: 1px solid #d1d5db; padding: 4px 6px 4px 0; }
+  td { padding: 3px 6px 3px 0; border-bottom: 1px solid #f3f4f6; overflow-wrap: anywhere; }
+  tfoot td { font-weight: 600; border-top: 1px solid #d1d5db; border-bottom: none; }
+  .num { text-align: right; font-variant-numeric: tabular-nums; }
+  .toolbar { display: flex; gap: 8px; margin-bottom: 24px; }
+  .toolbar a, .toolbar button { font: inherit; padding: 6px 14px; border-radius: 9999px; border: 1px solid #2563eb; background: #2563eb; color: white; text-decoration: none; cursor: pointer; }
+  .toolbar a { background: white; color: #2563eb; }
+  section { break-inside: avoid-page; }
+  thead { display: table-header-group; }
+  @media print {
+    .toolbar { display: none; }
+    body { margin: 0; max-width: none; }
+    @page { margin: 16mm; }
+  }
+</style>
+</head>
+<body>
+<div class="toolbar">
+  <button type="button" onclick="window.print()">Print</button>
+  ${options.pdf_href ? `<a href="${escapeHtml(options.pdf_href)}">Download PDF</a>` : ''}
+</div>
+<h1>${escapeHtml(doc.title)}</h1>
+<p class="subtitle">${escapeHtml(doc.subtitle)}</p>
+<p class="generated">${escapeHtml(doc.generated_at)}</p>
+${sections.join('\n')}
+</body>
+</html>
+`
+}
@@ -0,0 +1,1060 @@
+// src/mcp-server.ts – stdio MCP server for the loan tracker
+//
+// What this file does:
+// 1) Exposes the loan-manager Edge Function actions as MCP tools
+//    (create_loan, add_payment, add_split_payment, update_payment, delete_payment, add_adjustment,
+//    get_loans, reconcile_loans, update_loan, archive_loan, delete_loan (deprecated alias), restore_loan,
+//    purge_loan, get_members, upsert_member, get_lenders, upsert_lender, get_autopay_rules,
+//    upsert_autopay_rule, delete_autopay_rule, run_scheduled_payments, get_reminder_prefs,
+//    upsert_reminder_prefs, send_reminders, resolve_credit, get_exchange_rates,
+//    upsert_exchange_rate, import_history, plan_payoff).
+// 2) Exposes read-only resources: loan://<id> (deriveLoan output) and
+//    portfolio://summary (summarizePortfolio output). Mutating tools send a
+//    resources/list_changed notification so clients refresh.
+// 3) Registers reusable prompts ("monthly_payment_review", "record_payment")
+//    pre-filled from the current loans.
+// 4) Reuses the typed wrappers from src/index.ts, so the desktop assistants hit
+//    exactly the same code path as the dashboard.
+//
+// Run it with `npm run mcp` (tsx). Env is read from the root `.env`:
+//   NEXT_PUBLIC_SUPABASE_URL=https://<your-project>.supabase.co
+//   NEXT_PUBLIC_SUPABASE_ANON_KEY=eyJhbGciOiJI...
+//
+// NOTE: stdout is the JSON-RPC channel. Log to stderr only.
+
+import "dotenv/config"; // must run before src/index.ts reads process.env
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { z } from "zod";
+import {
+  addAdjustment,
+  addPayment,
+  addSplitPayment,
+  archiveLoan,
+  comparePayoffStrategies,
+  createLoan,
+  deleteAutopayRule,
+  deleteLoan,
+  deletePayment,
+  deriveLoan,
+  formatCurrency,
+  getAutopayRules,
+  getExchangeRates,
+  getLenders,
+  getLoans,
+  getMembers,
+  getReminderPrefs,
+  importHistory,
+  inBaseCurrency,
+  planPayoff,
+  purgeLoan,
+  reconcileLoans,
+  resolveCredit,
+  restoreLoan,
+  runScheduledPayments,
+  sendReminders,
+  summarizePortfolio,
+  updateLoan,
+  updatePayment,
+  upsertAutopayRule,
+  upsertExchangeRate,
+  upsertLender,
+  upsertMember,
+  upsertReminderPrefs,
+  toISODate,
+  type LoanComputed,
+  type PayoffPlan,
+} from "./index";
+
+const server = new McpServer({ name: "loan-tracker", version: "0.1.0" });
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Result helpers: tools always answer with a single JSON text block
+// ───────────────────────────────────────────────────────────────────────────────
+
+function jsonResult(data: unknown) {
+  return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
+}
+
+function errorResult(e: unknown) {
+  const message = e instanceof Error ? e.message : String(e);
+  return { content: [{ type: "text" as const, text: message }], isError: true };
+}
+
+function jsonResource(uri: URL, data: unknown) {
+  return {
+    contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(data, null, 2) }],
+  };
+}
+
+async function loadLoans(include_archived = false, lender?: string): Promise<LoanComputed[]> {
+  const { data } = await getLoans({ include_archived, lender });
+  return data.map(deriveLoan);
+}
+
+/** Exchange rates for base-currency totals (see BASE_CURRENCY) */
+async function loadRates() {
+  const { data } = await getExchangeRates();
+  return data;
+}
+
+function findLoanByName(loans: LoanComputed[], name: string): LoanComputed | undefined {
+  const q = name.trim().toLowerCase();
+  return loans.find((l) => l.name.toLowerCase() === q)
+    ?? loans.find((l) => l.name.toLowerCase().includes(q));
+}
+
+/** Loan names starting with what the user typed so far (for prompt argument completion) */
+async function completeLoanName(value: string): Promise<string[]> {
+  try {
+    const q = (value ?? "").toLowerCase();
+    return (await loadLoans()).map((l) => l.name).filter((n) => n.toLowerCase().startsWith(q));
+  } catch {
+    return [];
+  }
+}
+
+/** Household member names starting with what the user typed so far */
+async function completeMemberName(value: string): Promise<string[]> {
+  try {
+    const q = (value ?? "").toLowerCase();
+    const { data } = await getMembers();
+    return data.map((m) => m.name).filter((n) => n.toLowerCase().startsWith(q));
+  } catch {
+    return [];
+  }
+}
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+// Validated against the household members server-side (see get_members)
+const paidBy = z.string().min(1);
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Tools
+// ───────────────────────────────────────────────────────────────────────────────
+
+server.registerTool(
+  "create_loan",
+  {
+    title: "Create loan",
+    description: "Create a new loan. The starting balance equals original_amount.",
+    inputSchema: {
+      name: z.string().min(1).describe("Human-friendly loan name, e.g. \"Couch\""),
+      original_amount: z.number().positive(),
+      term_months: z.number().int().positive(),
+      loan_date: isoDate.describe("Purchase / origination date (YYYY-MM-DD)"),
+      loan_type: z.string().optional().describe("Defaults to \"general\""),
+      lender: z.string().optional().describe("Lender name; created on first use"),
+      apr: z.number().min(0).max(99.999).optional().describe("Annual percentage rate, e.g. 6.9; omit for interest-free"),
+      promo_end_date: isoDate.optional().describe("Deferred-interest promo deadline (\"no interest if paid in full by\")"),
+      deferred_apr: z.number().min(0).max(99.999).optional().describe("APR charged back to loan_date if the promo is missed"),
+      currency: z.string().regex(/^[A-Za-z]{3}$/).optional().describe("ISO 4217 code of the amounts, e.g. EUR; defaults to USD"),
+    },
+  },
+  async (args) => {
+    try {
+      // One key per tool call; only postEdge's automatic retries resend it
+      const { data } = await createLoan(args);
+      server.sendResourceListChanged();
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+server.registerTool(
+  "add_payment",
+  {
+    title: "Add payment",
+    description:
+      "Record a payment toward a loan (by loan_id or loan_name) and decrement its balance. " +
+      "A payment larger than what is owed is refused unless allow_overpayment is set, and one matching a payment " +
+      "logged in the last few days (same loan and amount) unless allow_duplicate is set; confirm with the user first.",
+    inputSchema: {
+      loan_id: z.string().uuid().optional(),
+      loan_name: z.string().optional(),
+      amount: z.number().positive(),
+      paid_by: paidBy.optional().describe("Household member name (see get_members); defaults to the default member"),
+      payment_date: isoDate.optional().describe("Defaults to today server-side"),
+      allow_overpayment: z.boolean().optional().describe("Pay the loan off and keep the excess as a credit to refund"),
+      allow_duplicate: z.boolean().optional().describe("Record it even though the same amount was logged on this loan a few days ago"),
+    },
+  },
+  async (args) => {
+    if (!args.loan_id && !args.loan_name) {
+      return errorResult("add_payment requires loan_id or loan_name.");
+    }
+    try {
+      const { data } = await addPayment(args);
+      server.sendResourceListChanged();
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+server.registerTool(
+  "add_split_payment",
+  {
+    title: "Add split payment",
+    description:
+      "Record ONE payment shared by several people and/or loans (e.g. \"Katerina and I split $300 on the Couch\", " +
+      "or one transfer covering two loans). All parts are recorded atomically as linked payment rows. " +
+      "Give every part an amount, every part a percent (summing to 100), or neither to split `amount` evenly. " +
+      "A part matching a payment logged in the last few days (same loan and amount) is refused unless allow_duplicate is set; " +
+      "confirm with the user first.",
+    inputSchema: {
+      loan_id: z.string().uuid().optional().describe("Default loan for parts that don't name one"),
+      loan_name: z.string().optional(),
+      amount: z.number().positive().optional().describe("Total; required for percent or even splits"),
+      paid_by: paidBy.optional().describe("Default payer for parts that don't name one"),
+      payment_date: isoDate.optional().describe("Defaults to today server-side"),
+      splits: z.array(z.object({
+        loan_id: z.string().uuid().optional(),
+        loan_name: z.string().optional(),
+        paid_by: paidBy.optional(),
+        amount: z.number().positive().optional(),
+        percent: z.number().positive().max(100).optional(),
+      })).min(2),
+      allow_duplicate: z.boolean().optional().describe("Record it even though a part matches a payment logged on that loan a few days ago"),
+    },
+  },
+  async (args) => {
+    try {
+      const { data } = await addSplitPayment(args);
+      server.sendResourceListChanged();
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+const paymentSelector = {
+  payment_id: z.string().uuid().optional(),
+  loan_id: z.string().uuid().optional(),
+  loan_name: z.string().optional(),
+  match_amount: z.number().positive().optional().describe("Amount of the payment to find"),
+  match_date: isoDate.optional().describe("Date of the payment to find"),
+};
+
+server.registerTool(
+  "update_payment",
+  {
+    title: "Update payment",
+    description:
+      "Correct a recorded payment's amount, payer or date. Identify it by payment_id, or by loan plus " +
+      "match_amount / match_date. The payment is re-recorded in one transaction: its principal and any overpayment " +
+      "credit are reversed, then it is applied again like add_payment, so an amount over what is owed becomes a credit " +
+      "and lowering an overpaid payment removes its credit. A new amount larger than what is owed is refused unless " +
+      "allow_overpayment is set; confirm with the user first. Payments whose credit was already refunded can only change payer.",
+    inputSchema: {
+      ...paymentSelector,
+      amount: z.number().positive().optional().describe("New amount"),
+      paid_by: paidBy.optional().describe("New payer"),
+      payment_date: isoDate.optional().describe("New date"),
+      allow_overpayment: z.boolean().optional().describe("Keep the excess as a credit when the new amount is more than is owed"),
+    },
+  },
+  async (args) => {
+    try {
+      const { data } = await updatePayment(args);
+      server.sendResourceListChanged();
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+server.registerTool(
+  "delete_payment",
+  {
+    title: "Delete payment",
+    description:
+      "Delete a recorded payment and restore the balance it paid down, in one transaction; an open overpayment " +
+      "credit from it is removed too. Identify it by payment_id, or by loan plus match_amount / match_date. " +
+      "Refused if its credit was already refunded.",
+    inputSchema: paymentSelector,
+    annotations: { destructiveHint: true },
+  },
+  async (args) => {
+    try {
+      const { data } = await deletePayment(args);
+      server.sendResourceListChanged();
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+server.registerTool(
+  "add_adjustment",
+  {
+    title: "Add balance adjustment",
+    description:
+      "Record a manual balance change on a loan (fee, charged-back interest, lender correction). " +
+      "Positive amounts raise the balance, negative amounts lower it.",
+    inputSchema: {
+      loan_id: z.string().uuid().optional(),
+      loan_name: z.string().optional(),
+      amount: z.number().refine((n) => n !== 0, "amount must be non-zero"),
+      reason: z.string().min(1),
+      adjustment_date: isoDate.optional().describe("Defaults to today server-side"),
+    },
+  },
+  async (args) => {
+    if (!args.loan_id && !args.loan_name) {
+      return errorResult("add_adjustment requires loan_id or loan_name.");
+    }
+    try {
+      const { data } = await addAdjustment(args);
+      server.sendResourceListChanged();
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+server.registerTool(
+  "reconcile_loans",
+  {
+    title: "Reconcile loan balances",
+    description:
+      "Recompute each loan's current_balance from original_amount minus principal paid plus adjustments, " +
+      "fix any that drifted, and report the discrepancies. Use dry_run to only report.",
+    inputSchema: {
+      loan_id: z.string().uuid().optional(),
+      loan_name: z.string().optional(),
+      dry_run: z.boolean().optional(),
+    },
+    annotations: { idempotentHint: true },
+  },
+  async (args) => {
+    try {
+      const { data } = await reconcileLoans(args);
+      if (data.fixed.length > 0) server.sendResourceListChanged();
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+server.registerTool(
+  "get_loans",
+  {
+    title: "Get loans",
+    description: "List loans with their payments and derived fields (progress, projected payoff, ...).",
+    inputSchema: {
+      loan_name: z.string().optional().describe("Optional case-insensitive name filter"),
+      include_archived: z.boolean().optional().describe("Also return archived loans"),
+      lender: z.string().optional().describe("Only loans from this lender (case-insensitive name)"),
+    },
+    annotations: { readOnlyHint: true },
+  },
+  async ({ loan_name, include_archived, lender }) => {
+    try {
+      let loans = await loadLoans(include_archived, lender);
+      if (loan_name) {
+        const q = loan_name.trim().toLowerCase();
+        loans = loans.filter((l) => l.name.toLowerCase().includes(q));
+      }
+      return jsonResult(loans);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+server.registerTool(
+  "get_members",
+  {
+    title: "Get household members",
+    description: "List the household members who can make payments. paid_by must be one of these names.",
+    inputSchema: {},
+    annotations: { readOnlyHint: true },
+  },
+  async () => {
+    try {
+      const { data } = await getMembers();
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+server.registerTool(
+  "upsert_member",
+  {
+    title: "Add or update household member",
+    description:
+      "Add a household member, or update one found by member_id or case-insensitive name. " +
+      "Renaming a member also renames their recorded payments.",
+    inputSchema: {
+      member_id: z.string().uuid().optional(),
+      name: z.string().min(1).optional(),
+      color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Expected a hex color like #3b82f6").nullable().optional(),
+      is_default: z.boolean().optional().describe("Payer used for \"I\" / \"me\" / an omitted paid_by"),
+      sort_order: z.number().int().optional(),
+    },
+  },
+  async (args) => {
+    if (!args.member_id && !args.name) {
+      return errorResult("upsert_member requires member_id or name.");
+    }
+    try {
+      const { data } = await upsertMember(args);
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+server.registerTool(
+  "get_lenders",
+  {
+    title: "Get lenders",
+    description: "List lenders with their contact details (website, phone, account last four, notes).",
+    inputSchema: {},
+    annotations: { readOnlyHint: true },
+  },
+  async () => {
+    try {
+      const { data } = await getLenders();
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+server.registerTool(
+  "upsert_lender",
+  {
+    title: "Create or update lender",
+    description:
+      "Create a lender, or update one found by lender_id or case-insensitive name. Omitted fields are left unchanged. " +
+      "Never store a full account number, only the last four digits.",
+    inputSchema: {
+      lender_id: z.string().uuid().optional(),
+      name: z.string().min(1).optional(),
+      website: z.string().nullable().optional(),
+      phone: z.string().nullable().optional(),
+      account_last4: z.string().regex(/^\d{4}$/, "Expected 4 digits").nullable().optional(),
+      notes: z.string().nullable().optional(),
+    },
+  },
+  async (args) => {
+    if (!args.lender_id && !args.name) {
+      return errorResult("upsert_lender requires lender_id or name.");
+    }
+    try {
+      const { data } = await upsertLender(args);
+      server.sendResourceListChanged();
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+server.registerTool(
+  "update_loan",
+  {
+    title: "Update loan",
+    description:
+      "Rename a loan, correct its loan_type / loan_date, link it to a lender or set the aliases it appears under " +
+      "in bank exports, without losing payment history.",
+    inputSchema: {
+      loan_id: z.string().uuid().optional(),
+      loan_name: z.string().optional().describe("Current name, when loan_id is unknown"),
+      name: z.string().min(1).optional().describe("New name"),
+      loan_type: z.string().min(1).optional(),
+      loan_date: isoDate.optional(),
+      lender: z.string().min(1).nullable().optional().describe("Lender name (created on first use); null unlinks"),
+      aliases: z.array(z.string().min(1)).optional().describe("Replaces the list, e.g. [\"SYNCHRONY BANK\"]"),
+    },
+  },
+  async (args) => {
+    if (!args.loan_id && !args.loan_name) {
+      return errorResult("update_loan requires loan_id or loan_name.");
+    }
+    try {
+      const { data } = await updateLoan(args);
+      server.sendResourceListChanged();
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+server.registerTool(
+  "archive_loan",
+  {
+    title: "Archive loan",
+    description: "Hide a loan from get_loans and the dashboard, keeping its payments (by loan_id or loan_name). Undo with restore_loan.",
+    inputSchema: {
+      loan_id: z.string().uuid().optional(),
+      loan_name: z.string().optional(),
+    },
+  },
+  async (args) => {
+    if (!args.loan_id && !args.loan_name) {
+      return errorResult("archive_loan requires loan_id or loan_name.");
+    }
+    try {
+      const { data } = await archiveLoan(args);
+      server.sendResourceListChanged();
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+// Deprecated: delete_loan used to remove the loan for good. Kept for existing clients; it archives.
+server.registerTool(
+  "delete_loan",
+  {
+    title: "Delete loan (deprecated)",
+    description:
+      "Deprecated alias of archive_loan: hides the loan and keeps its payments (by loan_id or loan_name). " +
+      "Undo with restore_loan; use purge_loan to delete permanently.",
+    inputSchema: {
+      loan_id: z.string().uuid().optional(),
+      loan_name: z.string().optional(),
+    },
+  },
+  async (args) => {
+    if (!args.loan_id && !args.loan_name) {
+      return errorResult("delete_loan requires loan_id or loan_name.");
+    }
+    try {
+      const { data } = await deleteLoan(args);
+      server.sendResourceListChanged();
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+server.registerTool(
+  "restore_loan",
+  {
+    title: "Restore loan",
+    description: "Bring an archived loan back (by loan_id or loan_name).",
+    inputSchema: {
+      loan_id: z.string().uuid().optional(),
+      loan_name: z.string().optional(),
+    },
+  },
+  async (args) => {
+    if (!args.loan_id && !args.loan_name) {
+      return errorResult("restore_loan requires loan_id or loan_name.");
+    }
+    try {
+      const { data } = await restoreLoan(args);
+      server.sendResourceListChanged();
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+server.registerTool(
+  "purge_loan",
+  {
+    title: "Purge loan",
+    description:
+      "Permanently delete a loan and all of its payments. Prefer archive_loan. " +
+      "Only call this after the user explicitly confirms, and pass the loan's exact name as `confirm`.",
+    inputSchema: {
+      loan_id: z.string().uuid().optional(),
+      loan_name: z.string().optional(),
+      confirm: z.string().describe("The loan's name, repeated back as confirmation"),
+    },
+    annotations: { destructiveHint: true },
+  },
+  async (args) => {
+    if (!args.loan_id && !args.loan_name) {
+      return errorResult("purge_loan requires loan_id or loan_name.");
+    }
+    try {
+      const { data } = await purgeLoan(args);
+      server.sendResourceListChanged();
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+server.registerTool(
+  "get_autopay_rules",
+  {
+    title: "Get autopay rules",
+    description: "List recurring payment rules (all loans, or one by loan_id / loan_name) with the next date each will record.",
+    inputSchema: {
+      loan_id: z.string().uuid().optional(),
+      loan_name: z.string().optional(),
+      include_inactive: z.boolean().optional().describe("Also list paused rules"),
+    },
+    annotations: { readOnlyHint: true },
+  },
+  async (args) => {
+    try {
+      const { data } = await getAutopayRules(args);
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+server.registerTool(
+  "upsert_autopay_rule",
+  {
+    title: "Create or update autopay rule",
+    description:
+      "Set up a recurring payment on a loan (\"autopay $63.14 on the Couch on the 15th, paid by Katerina\"), " +
+      "or change one found by rule_id, else by loan + payer. Omitted fields are left unchanged; new rules start today " +
+      "unless start_date is given. run_scheduled_payments records the payments.",
+    inputSchema: {
+      rule_id: z.string().uuid().optional(),
+      loan_id: z.string().uuid().optional(),
+      loan_name: z.string().optional(),
+      paid_by: paidBy.optional().describe("Household member; the default member when omitted"),
+      amount: z.number().positive().optional().describe("Required for a new rule"),
+      cadence: z.enum(["monthly", "biweekly"]).optional().describe("Defaults to monthly"),
+      day_of_month: z.number().int().min(1).max(31).optional().describe("Monthly; 29-31 fall back to the month's last day"),
+      start_date: isoDate.optional().describe("Biweekly rules repeat every 14 days from here; past dates are backfilled"),
+      end_date: isoDate.nullable().optional(),
+      active: z.boolean().optional().describe("false pauses the rule"),
+    },
+  },
+  async (args) => {
+    if (!args.rule_id && !args.loan_id && !args.loan_name) {
+      return errorResult("upsert_autopay_rule requires rule_id, loan_id or loan_name.");
+    }
+    try {
+      const { data } = await upsertAutopayRule(args);
+      server.sendResourceListChanged();
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+server.registerTool(
+  "delete_autopay_rule",
+  {
+    title: "Delete autopay rule",
+    description: "Stop a recurring payment (by rule_id, or loan plus paid_by when several people autopay the same loan). Recorded payments are kept.",
+    inputSchema: {
+      rule_id: z.string().uuid().optional(),
+      loan_id: z.string().uuid().optional(),
+      loan_name: z.string().optional(),
+      paid_by: paidBy.optional(),
+    },
+  },
+  async (args) => {
+    if (!args.rule_id && !args.loan_id && !args.loan_name) {
+      return errorResult("delete_autopay_rule requires rule_id, loan_id or loan_name.");
+    }
+    try {
+      const { data } = await deleteAutopayRule(args);
+      server.sendResourceListChanged();
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+server.registerTool(
+  "run_scheduled_payments",
+  {
+    title: "Run scheduled payments",
+    description:
+      "Record every autopay payment due through `through` (default today). Idempotent: repeated runs record nothing twice. " +
+      "Use dry_run to preview what would be recorded.",
+    inputSchema: {
+      through: isoDate.optional(),
+      loan_id: z.string().uuid().optional(),
+      loan_name: z.string().optional(),
+      dry_run: z.boolean().optional(),
+    },
+  },
+  async (args) => {
+    try {
+      const { data } = await runScheduledPayments(args);
+      if (data.recorded.length && !data.dry_run) server.sendResourceListChanged();
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+server.registerTool(
+  "get_reminder_prefs",
+  {
+    title: "Get reminder preferences",
+    description: "List each household member's reminder settings (email, webhook_url, window_days, enabled, last_sent_date).",
+    inputSchema: {},
+    annotations: { readOnlyHint: true },
+  },
+  async () => {
+    try {
+      const { data } = await getReminderPrefs();
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+server.registerTool(
+  "upsert_reminder_prefs",
+  {
+    title: "Set reminder preferences",
+    description:
+      "Choose how and how early a household member is reminded about upcoming and past-due payments. " +
+      "Email needs SMTP configured on the edge function; webhook_url receives the digest as JSON. Omitted fields are left unchanged.",
+    inputSchema: {
+      member_id: z.string().uuid().optional(),
+      member: paidBy.optional().describe("Member name; the default member when omitted"),
+      email: z.string().email().nullable().optional(),
+      webhook_url: z.string().url().nullable().optional(),
+      window_days: z.number().int().min(0).max(60).optional().describe("Days ahead of a due date to remind"),
+      enabled: z.boolean().optional(),
+    },
+  },
+  async (args) => {
+    try {
+      const { data } = await upsertReminderPrefs(args);
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+server.registerTool(
+  "send_reminders",
+  {
+    title: "Send reminders",
+    description:
+      "Send each member with reminders enabled a digest of loans due within their window plus anything past due " +
+      "(loans on autopay are only included once past due). At most one digest per member per day unless force is set; " +
+      "dry_run builds the digests without sending.",
+    inputSchema: {
+      window_days: z.number().int().min(0).max(60).optional().describe("Override every member's window"),
+      member: paidBy.optional().describe("Only this member"),
+      dry_run: z.boolean().optional(),
+      force: z.boolean().optional(),
+    },
+  },
+  async (args) => {
+    try {
+      const { data } = await sendReminders(args);
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+server.registerTool(
+  "resolve_credit",
+  {
+    title: "Resolve credit",
+    description: "Mark an overpayment credit (see credits in get_loans) as refunded to the payer.",
+    inputSchema: {
+      credit_id: z.string().uuid(),
+      refunded_date: isoDate.optional().describe("Defaults to today server-side"),
+    },
+  },
+  async (args) => {
+    try {
+      const { data } = await resolveCredit(args);
+      server.sendResourceListChanged();
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+server.registerTool(
+  "get_exchange_rates",
+  {
+    title: "Get exchange rates",
+    description: "List recorded exchange rates (1 currency = rate base_currency), oldest effective_date first.",
+    inputSchema: {
+      currency: z.string().regex(/^[A-Za-z]{3}$/).optional().describe("Only rates involving this currency"),
+    },
+    annotations: { readOnlyHint: true },
+  },
+  async (args) => {
+    try {
+      const { data } = await getExchangeRates(args);
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+server.registerTool(
+  "upsert_exchange_rate",
+  {
+    title: "Set exchange rate",
+    description:
+      "Record how much one unit of currency is worth in base_currency from effective_date on. " +
+      "Portfolio totals and payoff plans convert each loan with the latest rate on or before the day.",
+    inputSchema: {
+      currency: z.string().regex(/^[A-Za-z]{3}$/).describe("ISO 4217 code, e.g. EUR"),
+      rate: z.number().positive(),
+      base_currency: z.string().regex(/^[A-Za-z]{3}$/).optional().describe("Defaults to the base currency"),
+      effective_date: isoDate.optional().describe("Defaults to today server-side"),
+    },
+  },
+  async (args) => {
+    try {
+      const { data } = await upsertExchangeRate(args);
+      server.sendResourceListChanged();
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+server.registerTool(
+  "import_history",
+  {
+    title: "Import history",
+    description:
+      "Back-fill loans and payments (e.g. read from a bank export) in one transaction. Payments refer to an existing " +
+      "loan or, with loan_ref, to a loan created in the same call. A bad row rejects the whole batch. A payment with the " +
+      "same loan and amount as a recorded one (or an earlier row), dated within 3 days of it, is skipped unless " +
+      "allow_duplicate is set. " +
+      "Run with dry_run first and show the user what would be recorded.",
+    inputSchema: {
+      loans: z.array(z.object({
+        ref: z.string().min(1).describe("Referenced by payments' loan_ref"),
+        name: z.string().min(1),
+        original_amount: z.number().positive(),
+        term_months: z.number().int().positive(),
+        loan_date: isoDate,
+        loan_type: z.string().optional(),
+        lender: z.string().optional(),
+        apr: z.number().min(0).max(99.999).optional(),
+        currency: z.string().regex(/^[A-Za-z]{3}$/).optional(),
+      })).optional(),
+      payments: z.array(z.object({
+        row: z.number().int().optional().describe("Source line, echoed back in the result"),
+        loan_id: z.string().uuid().optional(),
+        loan_name: z.string().optional(),
+        loan_ref: z.string().optional(),
+        amount: z.number().positive(),
+        paid_by: paidBy.optional(),
+        payment_date: isoDate,
+        allow_duplicate: z.boolean().optional(),
+      })).optional(),
+      dry_run: z.boolean().optional(),
+    },
+  },
+  async (args) => {
+    try {
+      const { data } = await importHistory(args);
+      if (!data.dry_run && (data.created.length || data.recorded.length)) server.sendResourceListChanged();
+      return jsonResult(data);
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+server.registerTool(
+  "plan_payoff",
+  {
+    title: "Plan loan payoff",
+    description:
+      "Simulate paying off the open loans month by month with their minimum payments plus extra_monthly, " +
+      "aimed at one loan at a time: avalanche (highest APR first), snowball (smallest balance first) or a custom order. " +
+      "Without a strategy, compares them all against minimum payments only. Amounts are in the base currency; " +
+      "loans without an exchange rate are left out.",
+    inputSchema: {
+      extra_monthly: z.number().min(0).describe("Extra budget per month on top of the minimum payments"),
+      strategy: z.enum(["avalanche", "snowball", "custom"]).optional(),
+      order: z.array(z.string().min(1)).optional().describe("Custom order: loan names or ids, first is paid off first"),
+    },
+    annotations: { readOnlyHint: true },
+  },
+  async ({ extra_monthly, strategy, order }) => {
+    try {
+      const [all, rates] = await Promise.all([loadLoans(), loadRates()]);
+      const loans = inBaseCurrency(all, { rates });
+      // Month-by-month timelines are long; the per-loan payoff dates carry the answer
+      const brief = (plan: PayoffPlan) => ({ ...plan, timeline: undefined });
+      if (!strategy) {
+        const { baseline, plans, best } = comparePayoffStrategies(loans, extra_monthly, { order });
+        return jsonResult({ best, baseline: brief(baseline), plans: plans.map(brief) });
+      }
+      if (strategy === "custom" && !order?.length) return errorResult("custom strategy needs an order");
+      return jsonResult(brief(planPayoff(loans, { strategy, extra_monthly, order })));
+    } catch (e) {
+      return errorResult(e);
+    }
+  },
+);
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Resources
+// ───────────────────────────────────────────────────────────────────────────────
+
+server.registerResource(
+  "loan",
+  new ResourceTemplate("loan://{id}", {
+    list: async () => ({
+      resources: (await loadLoans()).map((l) => ({
+        uri: `loan://${l.id}`,
+        name: l.name,
+        description: `${l.loan_type} • ${formatCurrency(Math.max(0, l.remaining_balance), l.currency)} remaining`,
+        mimeType: "application/json",
+      })),
+    }),
+  }),
+  {
+    title: "Loan",
+    description: "One loan with its payments and derived fields (deriveLoan output).",
+    mimeType: "application/json",
+  },
+  async (uri, { id }) => {
+    const loan = (await loadLoans()).find((l) => l.id === String(id));
+    if (!loan) throw new Error(`Loan not found: ${id}`);
+    return jsonResource(uri, loan);
+  },
+);
+
+server.registerResource(
+  "portfolio-summary",
+  "portfolio://summary",
+  {
+    title: "Portfolio summary",
+    description: "Totals across all loans in the base currency, grouped by loan_type (summarizePortfolio output).",
+    mimeType: "application/json",
+  },
+  async (uri) => {
+    const [loans, rates] = await Promise.all([loadLoans(), loadRates()]);
+    return jsonResource(uri, summarizePortfolio(loans, { rates }));
+  },
+);
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Prompts
+// ───────────────────────────────────────────────────────────────────────────────
+
+server.registerPrompt(
+  "monthly_payment_review",
+  {
+    title: "Monthly payment review",
+    description: "Review this month's payments against each open loan's estimated monthly payment.",
+  },
+  async () => {
+    const loans = await loadLoans();
+    const month = toISODate(new Date()).slice(0, 7); // YYYY-MM
+    const lines = loans
+      .filter((l) => !l.is_paid_off)
+      .map((l) => {
+        const paidThisMonth = l.payments
+          .filter((p) => p.payment_date.startsWith(month))
+          .reduce((s, p) => s + p.amount, 0);
+        return `- ${l.name}: est. ${formatCurrency(l.estimated_monthly_payment, l.currency)}/mo, ` +
+          `paid ${formatCurrency(paidThisMonth, l.currency)} in ${month}, ` +
+          `${formatCurrency(Math.max(0, l.remaining_balance), l.currency)} remaining`;
+      });
+
+    return {
+      messages: [{
+        role: "user" as const,
+        content: {
+          type: "text" as const,
+          text:
+            `Please review our loan payments for ${month}.\n\n` +
+            `Open loans:\n${lines.length ? lines.join("\n") : "(none)"}\n\n` +
+            "Point out any loan that is behind its estimated monthly payment and suggest what to pay next.",
+        },
+      }],
+    };
+  },
+);
+
+server.registerPrompt(
+  "record_payment",
+  {
+    title: "Record a payment",
+    description: "Record a payment toward an existing loan using the add_payment tool.",
+    argsSchema: {
+      loan_name: completable(z.string(), completeLoanName),
+      amount: z.string().optional(),
+      paid_by: completable(z.string(), completeMemberName).optional(),
+      payment_date: z.string().optional(),
+    },
+  },
+  async ({ loan_name, amount, paid_by, payment_date }) => {
+    const loan = findLoanByName(await loadLoans(), loan_name);
+    const resolvedAmount = amount ?? (loan ? loan.estimated_monthly_payment.toFixed(2) : undefined);
+    const context = loan
+      ? `"${loan.name}" (id ${loan.id}) has ${formatCurrency(Math.max(0, loan.remaining_balance), loan.currency)} remaining ` +
+        `and an estimated monthly payment of ${formatCurrency(loan.estimated_monthly_payment, loan.currency)}.`
+      : `I couldn't find a loan named "${loan_name}"; ask which loan is meant before calling any tool.`;
+
+    return {
+      messages: [{
+        role: "user" as const,
+        content: {
+          type: "text" as const,
+          text:
+            `${context}\n\n` +
+            `Record a payment with the add_payment tool:\n` +
+            `- loan: ${loan ? loan.id : loan_name}\n` +
+            `- amount: ${resolvedAmount ?? "(ask me)"}\n` +
+            `- paid_by: ${paid_by ?? "(omit for the default household member)"}\n` +
+            `- payment_date: ${payment_date ?? toISODate(new Date())}`,
+        },
+      }],
+    };
+  },
+);
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Boot
+// ───────────────────────────────────────────────────────────────────────────────
+
+async function main() {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+    console.error("[mcp-server] Missing NEXT_PUBLIC_SUPABASE_URL or NEXT_PUBLIC_SUPABASE_ANON_KEY");
+  }
+  await server.connect(new StdioServerTransport());
+  console.error("[mcp-server] loan-tracker MCP server running on stdio");
+}
+
+main().catch((e) => {
+  console.error("[mcp-server] fatal:", e);
+  process.exit(1);
+});
@@ -0,0 +1,68 @@
+// src/pages/api/export.ts
+// GET /api/export?format=csv|json|ofx|qfx — download the ledger as a file.
+//   dataset          csv only: "payments" (default, one row per payment) or "loans" (derived fields)
+//   from, to         payment dates, YYYY-MM-DD, inclusive
+//   person           payer name
+//   loan             loan id or name
+//   include_archived "true" to include archived loans
+import type { NextApiRequest, NextApiResponse } from "next";
+import { deriveLoan, getExchangeRates, getLoans } from "../../index";
+import { exportLedger, type ExportDataset, type ExportFormat } from "@/lib/export";
+
+const FORMATS: ExportFormat[] = ["csv", "json", "ofx", "qfx"];
+const DATASETS: ExportDataset[] = ["payments", "loans"];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function bad(res: NextApiResponse, status: number, error: string) {
+  return res.status(status).json({ success: false, error });
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return bad(res, 405, "Method not allowed");
+  }
+
+  const { format = "csv", dataset = "payments", from, to, person, loan, include_archived } = req.query as {
+    format?: string;
+    dataset?: string;
+    from?: string;
+    to?: string;
+    person?: string;
+    loan?: string;
+    include_archived?: string;
+  };
+
+  if (!FORMATS.includes(format as ExportFormat)) {
+    return bad(res, 400, `format must be one of ${FORMATS.join(", ")}`);
+  }
+  if (!DATASETS.includes(dataset as ExportDataset)) {
+    return bad(res, 400, `dataset must be one of ${DATASETS.join(", ")}`);
+  }
+  for (const [name, value] of [["from", from], ["to", to]] as const) {
+    if (value && !ISO_DATE.test(value)) return bad(res, 400, `${name} must be YYYY-MM-DD`);
+  }
+  if (from && to && from > to) {
+    return bad(res, 400, "from must be on or before to");
+  }
+
+  try {
+    const [{ data: rawLoans }, { data: rates }] = await Promise.all([
+      getLoans({ include_archived: include_archived === "true" }),
+      getExchangeRates(),
+    ]);
+    const file = exportLedger(rawLoans.map(deriveLoan), {
+      format: format as ExportFormat,
+      dataset: dataset as ExportDataset,
+      filters: { from: from || undefined, to: to || undefined, person: person || undefined, loan: loan || undefined },
+      rates,
+    });
+
+    res.setHeader("Content-Type", file.content_type);
+    res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+    res.setHeader("Cache-Control", "no-store");
+    return res.status(200).send(file.body);
+  } catch (e) {
+    console.error("[/api/export] error:", e);
+    return bad(res, 500, e instanceof Error ? e.message : "Export failed");
+  }
+}
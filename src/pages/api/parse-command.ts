@@ -5,6 +5,8 @@ import {
   APP_TIMEZONE,
   type LLMParseResponse,
 } from "@/lib/parse-command";
+import { getMembers } from "@/lib/loan-manager";
+import { resolveMemberName, type Member } from "../../index";
 
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY as string;
 const MODEL = process.env.LOAN_PARSER_MODEL || "gpt-5.1";
@@ -81,9 +83,17 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   const todayISO = todayInTZ(APP_TIMEZONE);
 
+  // Payer names in the prompt and in validation come from the household members table
+  let members: Member[];
+  try {
+    ({ data: members } = await getMembers());
+  } catch (e) {
+    return bad(res, 502, `Could not load household members: ${e instanceof Error ? e.message : "Unknown error"}`);
+  }
+
   // OVERRIDE the prompt to avoid tool-calls entirely and force raw JSON only.
   const system =
-    makeSystemPrompt(todayISO) +
+    makeSystemPrompt(todayISO, members) +
     "\n\nOVERRIDE: Do NOT call any tools. Return ONLY a single JSON object exactly matching the Output contract. No prose.";
 
   try {
@@ -134,13 +144,82 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           return bad(res, 400, "Missing loan_name or amount for create_loan.");
         }
       } else if (action === "add_payment") {
-        if (typeof p.loan_name !== "string" || typeof p.amount !== "number") {
+        const splits: Array<{ loan_name?: unknown }> | null = Array.isArray(p.splits) ? p.splits : null;
+        const everySplitHasLoan = !!splits && splits.every((sp) => typeof sp?.loan_name === "string");
+        if ((typeof p.loan_name !== "string" && !everySplitHasLoan) || typeof p.amount !== "number") {
           return bad(res, 400, "Missing loan_name or amount for add_payment.");
         }
-      } else if (action === "delete_loan") {
+        if (p.splits !== undefined && (!splits || splits.length < 2)) {
+          return bad(res, 400, "add_payment splits need at least two parts.");
+        }
+      } else if (action === "update_payment") {
+        if (typeof p.loan_name !== "string") {
+          return bad(res, 400, "Missing loan_name for update_payment.");
+        }
+        if (p.amount === undefined && p.person === undefined && p.payment_date === undefined) {
+          return bad(res, 400, "update_payment needs amount, person, or payment_date.");
+        }
+      } else if (action === "delete_payment") {
+        if (typeof p.loan_name !== "string") {
+          return bad(res, 400, "Missing loan_name for delete_payment.");
+        }
+      } else if (action === "update_loan") {
+        if (typeof p.loan_name !== "string") {
+          return bad(res, 400, "Missing loan_name for update_loan.");
+        }
+        if (p.new_name === undefined && p.loan_type === undefined && p.loan_date === undefined && p.lender === undefined) {
+          return bad(res, 400, "update_loan needs new_name, loan_type, loan_date, or lender.");
+        }
+      } else if (action === "delete_loan" || action === "restore_loan") {
         if (typeof p.loan_name !== "string" && typeof p.loan_id !== "string") {
-          return bad(res, 400, "Missing loan_name (or loan_id) for delete_loan.");
+          return bad(res, 400, `Missing loan_name (or loan_id) for ${action}.`);
+        }
+      } else if (action === "set_autopay") {
+        if (typeof p.loan_name !== "string") {
+          return bad(res, 400, "Missing loan_name for set_autopay.");
+        }
+        if (p.amount !== undefined && typeof p.amount !== "number") {
+          return bad(res, 400, "set_autopay amount must be a number.");
+        }
+        if (p.cadence !== undefined && p.cadence !== "monthly" && p.cadence !== "biweekly") {
+          return bad(res, 400, "set_autopay cadence must be monthly or biweekly.");
+        }
+        if (p.cadence === "biweekly" && typeof p.start_date !== "string") {
+          return bad(res, 400, "Biweekly set_autopay needs start_date.");
+        }
+      } else if (action === "cancel_autopay") {
+        if (typeof p.loan_name !== "string") {
+          return bad(res, 400, "Missing loan_name for cancel_autopay.");
+        }
+      } else if (action === "simulate") {
+        if (typeof p.extra_monthly !== "number" && typeof p.monthly_budget !== "number") {
+          return bad(res, 400, "simulate needs extra_monthly or monthly_budget.");
+        }
+        if (p.strategy !== undefined && p.strategy !== "avalanche" && p.strategy !== "snowball") {
+          return bad(res, 400, "simulate strategy must be avalanche or snowball.");
+        }
+      }
+    }
+
+    // Payers must be household members: canonicalize the names, or ask instead of guessing
+    if (action === "add_payment" || action === "update_payment" || action === "set_autopay" || action === "cancel_autopay") {
+      const payerHolders = [p, ...(Array.isArray(p.splits) ? p.splits : [])];
+      for (const holder of payerHolders) {
+        if (typeof holder?.person !== "string" || !holder.person.trim()) continue;
+        const person = resolveMemberName(members, holder.person);
+        if (!person) {
+          const unknownPayer = holder.person;
+          delete holder.person; // only confirmed fields go back to the client
+          const names = members.map((m) => m.name).join(", ") || "no members yet";
+          return res.status(200).json({
+            action,
+            parameters: p,
+            message: `Unknown payer "${unknownPayer}".`,
+            need_followup: true,
+            followup_question: `${action.endsWith("_autopay") ? "Who pays this autopay?" : "Who made this payment?"} “${unknownPayer}” isn't a household member (${names}).`,
+          } satisfies LLMParseResponse);
         }
+        holder.person = person;
       }
     }
 
@@ -155,7 +234,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     return res.status(200).json({
       action,
-      parameters: parameters ?? {},
+      parameters: p,
       message,
       need_followup,
       followup_question: need_followup ? followup_question ?? "Could you clarify?" : null,
@@ -0,0 +1,82 @@
+// src/pages/api/report.ts
+// GET /api/report — printable statements, as a print-ready HTML page or a PDF download.
+//   kind=statement  one loan: loan (id or name), optional from / to (YYYY-MM-DD)
+//   kind=year_end   the household: year (default: last year)
+//   format          "html" (default) or "pdf"
+import type { NextApiRequest, NextApiResponse } from "next";
+import { deriveLoan, getExchangeRates, getLoans, getMembers } from "../../index";
+import { buildLoanStatement, buildYearEndReport, renderReportHtml, type ReportDocument } from "@/lib/statements";
+import { renderPdf } from "@/lib/pdf";
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function bad(res: NextApiResponse, status: number, error: string) {
+  return res.status(status).json({ success: false, error });
+}
+
+const slug = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "loan";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return bad(res, 405, "Method not allowed");
+  }
+
+  const { kind, format = "html", loan, from, to, year: yearStr } = req.query as {
+    kind?: string;
+    format?: string;
+    loan?: string;
+    from?: string;
+    to?: string;
+    year?: string;
+  };
+
+  if (kind !== "statement" && kind !== "year_end") {
+    return bad(res, 400, "kind must be statement or year_end");
+  }
+  if (format !== "html" && format !== "pdf") {
+    return bad(res, 400, "format must be html or pdf");
+  }
+  for (const [name, value] of [["from", from], ["to", to]] as const) {
+    if (value && !ISO_DATE.test(value)) return bad(res, 400, `${name} must be YYYY-MM-DD`);
+  }
+  const year = yearStr ? Number(yearStr) : new Date().getFullYear() - 1;
+  if (!Number.isInteger(year) || year < 1900 || year > 9999) {
+    return bad(res, 400, "year must be a four-digit year");
+  }
+
+  try {
+    // Archived loans still have statements, and their payments count toward the year
+    const { data: rawLoans } = await getLoans({ include_archived: true });
+    const loans = rawLoans.map(deriveLoan);
+
+    let doc: ReportDocument;
+    let filename: string;
+    if (kind === "statement") {
+      if (!loan) return bad(res, 400, "loan is required for a statement");
+      const target = loans.find(l => l.id === loan) ?? loans.find(l => l.name.toLowerCase() === loan.trim().toLowerCase());
+      if (!target) return bad(res, 404, `Loan "${loan}" not found`);
+      doc = buildLoanStatement(target, { from: from || undefined, to: to || undefined });
+      filename = `statement-${slug(target.name)}-${to || new Date().toISOString().slice(0, 10)}`;
+    } else {
+      const [{ data: members }, { data: rates }] = await Promise.all([getMembers(), getExchangeRates()]);
+      doc = buildYearEndReport(loans, members, year, { rates });
+      filename = `household-report-${year}`;
+    }
+
+    res.setHeader("Cache-Control", "no-store");
+    if (format === "pdf") {
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}.pdf"`);
+      return res.status(200).send(renderPdf(doc));
+    }
+
+    const pdfQuery = new URLSearchParams(
+      Object.entries({ ...req.query, format: "pdf" }).filter((e): e is [string, string] => typeof e[1] === "string"),
+    );
+    res.setHeader("Content-Type", "text/html; charset=utf-8");
+    return res.status(200).send(renderReportHtml(doc, { pdf_href: `/api/report?${pdfQuery.toString()}` }));
+  } catch (e) {
+    console.error("[/api/report] error:", e);
+    return bad(res, 500, e instanceof Error ? e.message : "Report failed");
+  }
+}
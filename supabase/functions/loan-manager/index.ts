@@ -2,16 +2,52 @@
 // Edge Function (Deno) to manage loans + payments.
 //
 // Expected request body (one of):
-// { action: "create_loan", name, original_amount, loan_date, term_months, loan_type?, lender? }
-// { action: "add_payment", loan_id? , loan_name?, amount, paid_by?, payment_date? }
-// { action: "get_loans" }
-// { action: "delete_loan", loan_id? , loan_name? }
+// { action: "create_loan", name, original_amount, loan_date, term_months, loan_type?, lender?, apr?, promo_end_date?, deferred_apr?, currency?, idempotency_key? }
+// { action: "add_payment", loan_id? , loan_name?, amount, paid_by?, payment_date?, allow_overpayment?, allow_duplicate?, idempotency_key? }   (paid_by: member name; default member if omitted)
+// { action: "add_payment", loan_id? , loan_name?, amount?, paid_by?, payment_date?, splits: [{ loan_id? , loan_name?, paid_by?, amount? | percent? }, ...], allow_duplicate?, idempotency_key? }
+// { action: "update_payment", payment_id? | (loan_id? , loan_name?, match_amount?, match_date?), amount?, paid_by?, payment_date?, allow_overpayment? }
+// { action: "delete_payment", payment_id? | (loan_id? , loan_name?, match_amount?, match_date?) }
+// { action: "add_adjustment", loan_id? , loan_name?, amount, reason, adjustment_date? }
+// { action: "get_loans", include_archived?, lender? }
+// { action: "get_members" }
+// { action: "upsert_member", member_id? , name, color?, is_default?, sort_order? }
+// { action: "get_lenders" }
+// { action: "upsert_lender", lender_id? , name, website?, phone?, account_last4?, notes? }
+// { action: "reconcile_loans", loan_id? , loan_name?, dry_run? }
+// { action: "update_loan", loan_id? , loan_name?, name?, loan_type?, loan_date?, lender?, aliases? }  (lender: null unlinks)
+// { action: "archive_loan", loan_id? , loan_name? }          (delete_loan is an alias)
+// { action: "restore_loan", loan_id? , loan_name? }
+// { action: "purge_loan", loan_id? , loan_name?, confirm }    (confirm must equal the loan's name)
+// { action: "get_autopay_rules", loan_id? , loan_name?, include_inactive? }
+// { action: "upsert_autopay_rule", rule_id? | (loan_id? , loan_name?, paid_by?), amount?, cadence?, day_of_month?, start_date?, end_date?, active? }
+// { action: "delete_autopay_rule", rule_id? | (loan_id? , loan_name?, paid_by?) }
+// { action: "run_scheduled_payments", through?, loan_id? , loan_name?, dry_run? }   (idempotent; safe to run from cron)
+// { action: "get_reminder_prefs" }
+// { action: "upsert_reminder_prefs", member_id? | member, email?, webhook_url?, window_days?, enabled? }
+// { action: "send_reminders", window_days?, member?, dry_run?, force? }   (one digest per member per day; safe to run from cron)
+// { action: "resolve_credit", credit_id, refunded_date? }   (marks an overpayment credit as refunded)
+// { action: "get_exchange_rates", currency? }
+// { action: "upsert_exchange_rate", currency, rate, base_currency?, effective_date? }   (1 currency = rate base_currency)
+// { action: "import_history", loans?: [{ ref, ...create_loan }], payments?: [{ row?, loan_id? | loan_name? | loan_ref?, amount, paid_by?, payment_date, allow_duplicate? }], dry_run? }
+//
+// Amounts are in the loan's currency (ISO 4217, default "USD"; fixed at creation).
+//
+// A payment larger than what is owed is refused (409, with the numbers as `overpayment`) unless
+// allow_overpayment is true; the excess is then kept as a credit (refund due) and returned as `credit`.
+//
+// A payment (or a split part) matching one already recorded (same loan and amount, within DUPLICATE_WINDOW_DAYS)
+// is refused (409, with `possible_duplicate` listing the matches) unless allow_duplicate is true.
+//
+// create_loan / add_payment with an idempotency_key already used return the original result
+// (add_payment with replayed: true) instead of recording again. The clients send one per user action.
+// A key repeated with a different request (another loan, amount, payer, date or split) gets 422.
 //
 // Response shape:
 // { success: true, data: ... } | { success: false, error: "..." }
 
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { type DigestItem, type ReminderRecipient, dueByCurrency, money, reminderChannels } from "./notifications.ts";
 
 const NEXT_PUBLIC_SUPABASE_URL = Deno.env.get("NEXT_PUBLIC_SUPABASE_URL")!;
 const NEXT_PUBLIC_SUPABASE_ANON_KEY = Deno.env.get("NEXT_PUBLIC_SUPABASE_ANON_KEY")!;
@@ -33,8 +69,8 @@ function ok(data: unknown, status = 200) {
   });
 }
 
-function bad(error: string, status = 400) {
-  return new Response(JSON.stringify({ success: false, error }, null, 2), {
+function bad(error: string, status = 400, extra: Record<string, unknown> = {}) {
+  return new Response(JSON.stringify({ success: false, error, ...extra }, null, 2), {
     status,
     headers: {
       "Content-Type": "application/json",
@@ -47,12 +83,115 @@ function isISODate(s: unknown): s is string {
   return typeof s === "string" && /^\d{4}-\d{2}-\d{2}$/.test(s);
 }
 
-function normalizePaidBy(v?: string): "Steven" | "Katerina" {
-  if (!v) return "Steven";
-  const p = v.trim().toLowerCase();
-  if (p === "i" || p === "me" || p === "myself" || p === "steven") return "Steven";
-  if (p === "katerina") return "Katerina";
-  return "Steven";
+type MemberRow = {
+  id: string;
+  name: string;
+  color: string | null;
+  is_default: boolean;
+  sort_order: number;
+};
+
+const MEMBER_COLUMNS = "id,name,color,is_default,sort_order";
+
+async function loadMembers(supabase: ReturnType<typeof createClient>): Promise<MemberRow[]> {
+  const { data, error } = await supabase
+    .from("loan_tracker_members")
+    .select(MEMBER_COLUMNS)
+    .order("sort_order", { ascending: true })
+    .order("name", { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []) as MemberRow[];
+}
+
+// Map a payer to a household member's name. "I" / "me" / omitted mean the default member;
+// anything else must match a member (case-insensitive) or the call is rejected.
+async function resolvePayer(
+  supabase: ReturnType<typeof createClient>,
+  v?: string,
+): Promise<{ name: string } | { error: string }> {
+  const members = await loadMembers(supabase);
+  const names = members.map((m) => m.name).join(", ") || "none yet";
+  const p = (v ?? "").trim().toLowerCase();
+
+  if (!p || p === "i" || p === "me" || p === "myself") {
+    const fallback = members.find((m) => m.is_default);
+    if (fallback) return { name: fallback.name };
+    return { error: `paid_by is required (no default household member is set; members: ${names}).` };
+  }
+
+  const match = members.find((m) => m.name.toLowerCase() === p);
+  if (match) return { name: match.name };
+  return { error: `Unknown payer '${v!.trim()}'. Household members: ${names}.` };
+}
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+type PaymentRow = {
+  id: string;
+  loan_id: string;
+  amount: number;
+  paid_by: string;
+  payment_date: string;
+  principal_amount: number | null;
+  interest_amount: number | null;
+  split_group_id: string | null;
+  autopay_rule_id: string | null;
+};
+
+const PAYMENT_COLUMNS =
+  "id,loan_id,amount,paid_by,payment_date,principal_amount,interest_amount,split_group_id,autopay_rule_id";
+
+/**
+ * Find exactly one payment, either by payment_id or by loan (id/name) narrowed with
+ * match_amount / match_date. Returns an error message when none or several match.
+ */
+async function resolvePayment(
+  supabase: ReturnType<typeof createClient>,
+  criteria: {
+    payment_id?: string;
+    loan_id?: string;
+    loan_name?: string;
+    match_amount?: number;
+    match_date?: string;
+  },
+): Promise<{ payment: PaymentRow } | { error: string }> {
+  if (criteria.payment_id) {
+    const { data, error } = await supabase
+      .from("loan_tracker_payments")
+      .select(PAYMENT_COLUMNS)
+      .eq("id", criteria.payment_id)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? { payment: data as PaymentRow } : { error: "Payment not found." };
+  }
+
+  const loanId =
+    criteria.loan_id ??
+    (criteria.loan_name ? await resolveLoanIdByName(supabase, criteria.loan_name) : null);
+  if (!loanId) return { error: "Provide payment_id, or loan_id / valid loan_name to find the payment." };
+
+  let q = supabase
+    .from("loan_tracker_payments")
+    .select(PAYMENT_COLUMNS)
+    .eq("loan_id", loanId)
+    .order("payment_date", { ascending: false });
+  if (typeof criteria.match_amount === "number") q = q.eq("amount", criteria.match_amount);
+  if (isISODate(criteria.match_date)) q = q.eq("payment_date", criteria.match_date);
+
+  const { data, error } = await q;
+  if (error) throw error;
+
+  const rows = (data ?? []) as PaymentRow[];
+  if (rows.length === 0) return { error: "No matching payment found." };
+  if (rows.length > 1) {
+    return {
+      error: `${rows.length} payments match; narrow it down with amount and date (or payment_id).`,
+    };
+  }
+  return { payment: rows[0] };
 }
 
 async function resolveLoanIdByName(
@@ -61,16 +200,514 @@ async function resolveLoanIdByName(
 ): Promise<string | null> {
   const { data, error } = await supabase
     .from("loan_tracker_loans")
-    .select("id,name")
+    .select("id,name,archived_at")
     .ilike("name", name.trim());
 
   if (error) throw error;
 
   if (!data || data.length === 0) return null;
 
-  // Prefer exact case-insensitive match
-  const exact = data.find((r) => r.name.toLowerCase() === name.toLowerCase());
-  return (exact ?? data[0]).id;
+  // Prefer exact case-insensitive match, then active over archived loans
+  const rows = [...data].sort((a, b) => Number(!!a.archived_at) - Number(!!b.archived_at));
+  const exact = rows.find((r) => r.name.toLowerCase() === name.trim().toLowerCase());
+  return (exact ?? rows[0]).id;
+}
+
+// Case-insensitive lender lookup; with create=true a missing lender is inserted by name
+async function resolveLenderId(
+  supabase: ReturnType<typeof createClient>,
+  name: string,
+  create = false,
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("loan_tracker_lenders")
+    .select("id,name")
+    .ilike("name", name.trim());
+
+  if (error) throw error;
+  if (data && data.length > 0) return data[0].id;
+  if (!create) return null;
+
+  const { data: inserted, error: insErr } = await supabase
+    .from("loan_tracker_lenders")
+    .insert([{ name: name.trim() }])
+    .select("id")
+    .single();
+
+  if (insErr) throw insErr;
+  return inserted.id;
+}
+
+const LENDER_COLUMNS = "id,name,website,phone,account_last4,notes";
+
+const REMINDER_PREF_COLUMNS = "member_id,enabled,email,webhook_url,window_days,last_sent_date";
+
+type SplitInput = {
+  loan_id?: string;
+  loan_name?: string;
+  paid_by?: string;
+  amount?: number;
+  percent?: number;
+};
+
+type SplitPart = { loan_id: string; amount: number; paid_by: string };
+
+/**
+ * Turn add_payment `splits` into concrete parts. Parts inherit the top-level loan and payer.
+ * Give every part an amount, every part a percent (summing to 100), or neither to split
+ * `amount` evenly; rounding leftovers land on the last part.
+ */
+async function resolveSplitParts(
+  supabase: ReturnType<typeof createClient>,
+  defaults: { loan_id?: string; loan_name?: string; amount?: number; paid_by?: string },
+  splits: unknown,
+): Promise<{ parts: SplitPart[]; total: number } | { error: string }> {
+  if (!Array.isArray(splits) || splits.length < 2) return { error: "'splits' needs at least two parts." };
+  const list = splits as SplitInput[];
+  const total = defaults.amount;
+
+  const withAmount = list.filter((s) => s.amount !== undefined).length;
+  const withPercent = list.filter((s) => s.percent !== undefined).length;
+  let amounts: number[];
+
+  if (withAmount === list.length) {
+    if (list.some((s) => typeof s.amount !== "number" || s.amount <= 0)) {
+      return { error: "every split 'amount' must be a positive number." };
+    }
+    amounts = list.map((s) => round2(s.amount!));
+    const sum = round2(amounts.reduce((a, b) => a + b, 0));
+    if (total !== undefined && Math.abs(sum - total) >= 0.01) {
+      return { error: `split amounts add up to ${sum}, not ${total}.` };
+    }
+  } else if (withPercent === list.length || withAmount + withPercent === 0) {
+    if (typeof total !== "number" || total <= 0) {
+      return { error: "splitting by percent or evenly requires a positive total 'amount'." };
+    }
+    const percents = withPercent ? list.map((s) => s.percent) : list.map(() => 100 / list.length);
+    if (percents.some((p) => typeof p !== "number" || p <= 0)) {
+      return { error: "every split 'percent' must be a positive number." };
+    }
+    const percentSum = (percents as number[]).reduce((a, b) => a + b, 0);
+    if (Math.abs(percentSum - 100) > 0.01) {
+      return { error: `split percents add up to ${round2(percentSum)}, not 100.` };
+    }
+    amounts = (percents as number[]).map((p) => round2((total * p) / 100));
+    amounts[amounts.length - 1] = round2(total - amounts.slice(0, -1).reduce((a, b) => a + b, 0));
+    if (amounts.some((a) => a <= 0)) return { error: "every split part must come to at least 0.01." };
+  } else {
+    return { error: "give every split an amount, every split a percent, or neither for an even split." };
+  }
+
+  const parts: SplitPart[] = [];
+  for (const [i, s] of list.entries()) {
+    let id = s.loan_id ?? null;
+    if (!id && s.loan_name) {
+      id = await resolveLoanIdByName(supabase, s.loan_name);
+    } else if (!id) {
+      id = defaults.loan_id ??
+        (defaults.loan_name ? await resolveLoanIdByName(supabase, defaults.loan_name) : null);
+    }
+    if (!id) return { error: `split part ${i + 1} needs loan_id or a valid loan_name.` };
+
+    const payer = await resolvePayer(supabase, s.paid_by ?? defaults.paid_by);
+    if ("error" in payer) return { error: `split part ${i + 1}: ${payer.error}` };
+
+    parts.push({ loan_id: id, amount: amounts[i], paid_by: payer.name });
+  }
+
+  // One amount split across loans only makes sense in one currency
+  const { data: currencies, error } = await supabase
+    .from("loan_tracker_loans")
+    .select("currency")
+    .in("id", [...new Set(parts.map((p) => p.loan_id))]);
+  if (error) throw error;
+  if (new Set((currencies ?? []).map((l: { currency: string }) => l.currency)).size > 1) {
+    return { error: "split parts must be on loans in the same currency." };
+  }
+
+  return { parts, total: round2(amounts.reduce((a, b) => a + b, 0)) };
+}
+
+type AutopayRuleRow = {
+  id: string;
+  loan_id: string;
+  amount: number;
+  paid_by: string;
+  cadence: "monthly" | "biweekly";
+  day_of_month: number | null;
+  start_date: string;
+  end_date: string | null;
+  active: boolean;
+  last_run_date: string | null;
+};
+
+const AUTOPAY_COLUMNS = "id,loan_id,amount,paid_by,cadence,day_of_month,start_date,end_date,active,last_run_date";
+
+function addDaysISO(iso: string, days: number) {
+  const d = new Date(`${iso}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Dates an autopay rule falls due in (after, through], within its start/end dates.
+ * Monthly rules land on day_of_month (the month's last day when shorter);
+ * biweekly rules repeat every 14 days from start_date.
+ */
+function autopayOccurrences(rule: AutopayRuleRow, after: string | null, through: string): string[] {
+  const last = rule.end_date && rule.end_date < through ? rule.end_date : through;
+  const dates: string[] = [];
+
+  if (rule.cadence === "biweekly") {
+    for (let d = rule.start_date; d <= last; d = addDaysISO(d, 14)) {
+      if (!after || d > after) dates.push(d);
+    }
+    return dates;
+  }
+
+  let [y, m] = rule.start_date.split("-").map(Number); // m is 1-based
+  for (;;) {
+    const daysInMonth = new Date(Date.UTC(y, m, 0)).getUTCDate();
+    const day = Math.min(rule.day_of_month ?? 1, daysInMonth);
+    const d = `${y}-${String(m).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+    if (d > last) break;
+    if (d >= rule.start_date && (!after || d > after)) dates.push(d);
+    if (++m > 12) {
+      m = 1;
+      y += 1;
+    }
+  }
+  return dates;
+}
+
+// Next date run_scheduled_payments will record for this rule (null when inactive or ended)
+function nextAutopayDate(rule: AutopayRuleRow): string | null {
+  if (!rule.active) return null;
+  const from = rule.last_run_date && rule.last_run_date > rule.start_date ? rule.last_run_date : rule.start_date;
+  return autopayOccurrences(rule, rule.last_run_date, addDaysISO(from, 62))[0] ?? null;
+}
+
+// Same day of month N months later, clamped to the month's last day (date-fns addMonths semantics)
+function addMonthsISO(iso: string, months: number) {
+  const [y, m, d] = iso.split("-").map(Number);
+  const target = new Date(Date.UTC(y, m - 1 + months, 1));
+  const daysInMonth = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(d, daysInMonth));
+  return target.toISOString().slice(0, 10);
+}
+
+/**
+ * Oldest installment not yet covered by payments. Installments of estimated_monthly_payment fall
+ * on loan_date + N months and everything paid is applied oldest first.
+ * totalPaid is gross (payment amounts, not principal): an amortized installment already includes
+ * its interest, so counting only principal would leave every on-time installment short.
+ * Mirrors buildPaymentSchedule() / deriveLoan() in src/index.ts. Null once paid off.
+ */
+function loanDueStatus(
+  loan: { loan_date: string; term_months: number; estimated_monthly_payment: number | null; current_balance: number },
+  totalPaid: number,
+  today: string,
+): Omit<DigestItem, "loan_id" | "loan_name" | "currency"> | null {
+  const remaining = Number(loan.current_balance);
+  const installment = Number(loan.estimated_monthly_payment ?? 0);
+  if (remaining <= 0.005 || installment <= 0 || !isISODate(loan.loan_date)) return null;
+
+  const n = Math.max(1, loan.term_months || 0);
+  const covered = Math.min(n, Math.floor((totalPaid + 0.005) / installment));
+  let dueBeforeToday = 0;
+  while (dueBeforeToday < n && addMonthsISO(loan.loan_date, dueBeforeToday + 1) < today) dueBeforeToday++;
+
+  // Every installment covered but a balance remains (interest, fees): due as of the last date
+  const due_date = addMonthsISO(loan.loan_date, Math.min(covered + 1, n));
+  const owed = covered >= n ? remaining : Math.max(dueBeforeToday, covered + 1) * installment - totalPaid;
+  const days_past_due = due_date < today
+    ? Math.round((Date.parse(today) - Date.parse(due_date)) / 86_400_000)
+    : 0;
+
+  return {
+    due_date,
+    amount_due: round2(Math.min(remaining, owed)),
+    days_past_due,
+    missed_periods: Math.max(0, dueBeforeToday - covered),
+  };
+}
+
+// Insert one payment and move the balance in one transaction (row-locks the loan).
+// The RPC also splits interest accrued since the previous payment from principal,
+// and keeps any excess over the balance as a credit when allow_overpayment is set.
+function recordPayment(
+  supabase: ReturnType<typeof createClient>,
+  p: {
+    loan_id: string;
+    amount: number;
+    paid_by: string;
+    payment_date: string;
+    autopay_rule_id?: string;
+    allow_overpayment?: boolean;
+    idempotency_key?: string | null;
+    request_hash?: string | null;
+  },
+) {
+  return supabase.rpc("record_loan_payment", {
+    p_loan_id: p.loan_id,
+    p_amount: p.amount,
+    p_paid_by: p.paid_by,
+    p_payment_date: p.payment_date,
+    p_autopay_rule_id: p.autopay_rule_id ?? null,
+    p_allow_overpayment: p.allow_overpayment ?? false,
+    p_idempotency_key: p.idempotency_key ?? null,
+    p_request_hash: p.request_hash ?? null,
+  });
+}
+
+// Optional per-request key (see the header); null when the caller sent none
+function readIdempotencyKey(body: { idempotency_key?: unknown }, action: string): { key: string | null } | { error: string } {
+  const key = body.idempotency_key;
+  if (key === undefined || key === null) return { key: null };
+  if (typeof key !== "string" || !key.trim() || key.length > 200) {
+    return { error: `${action} 'idempotency_key' must be a non-empty string of at most 200 characters.` };
+  }
+  return { key };
+}
+
+// Stored with the key: a replay must describe the same request (resolved loan, amount, payer, date...)
+async function requestHash(request: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify(request)));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// record_loan_payment / record_split_payment raise invalid_parameter_value for a key reused on another payment
+function isIdempotencyConflict(err: { code?: string; message?: string }) {
+  return err.code === "22023" && /idempotency_key/.test(err.message ?? "");
+}
+
+const IDEMPOTENCY_CONFLICT = "this idempotency_key was already used for a different request; send a new key for a new action.";
+
+const CREDIT_COLUMNS = "id,loan_id,payment_id,amount,paid_by,credit_date,status,refunded_date";
+
+const EXCHANGE_RATE_COLUMNS = "id,currency,base_currency,rate,effective_date,created_at";
+
+// ISO 4217 code, upper-cased ("eur" → "EUR"); null when it is not three letters
+function normalizeCurrency(input: unknown): string | null {
+  if (typeof input !== "string") return null;
+  const code = input.trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(code) ? code : null;
+}
+
+type NewLoanInput = {
+  name?: string;
+  original_amount?: number;
+  loan_date?: string;
+  term_months?: number;
+  loan_type?: string;
+  lender?: string;
+  apr?: number;
+  promo_end_date?: string;
+  deferred_apr?: number;
+  currency?: string;
+};
+
+/**
+ * Check a create_loan body (also each loan of an import) and return the columns to insert.
+ * The lender is returned by name; callers resolve it to lender_id.
+ */
+function validateNewLoan(input: NewLoanInput, label: string) {
+  const {
+    name,
+    original_amount,
+    loan_date,
+    term_months,
+    loan_type = "general",
+    lender,
+    apr = 0,
+    promo_end_date,
+    deferred_apr,
+    currency = "USD",
+  } = input;
+
+  if (
+    !name ||
+    typeof original_amount !== "number" ||
+    !isISODate(loan_date) ||
+    typeof term_months !== "number" ||
+    term_months <= 0
+  ) {
+    return {
+      error: `${label} requires name, numeric original_amount, loan_date (YYYY-MM-DD), and positive term_months.`,
+    };
+  }
+  if (typeof apr !== "number" || apr < 0 || apr >= 100) {
+    return { error: `${label} 'apr' must be a percentage between 0 and 100 (e.g. 6.9).` };
+  }
+  if (promo_end_date !== undefined && (!isISODate(promo_end_date) || promo_end_date <= loan_date)) {
+    return { error: `${label} 'promo_end_date' must be YYYY-MM-DD and after loan_date.` };
+  }
+  if (
+    deferred_apr !== undefined &&
+    (promo_end_date === undefined || typeof deferred_apr !== "number" || deferred_apr < 0 || deferred_apr >= 100)
+  ) {
+    return { error: `${label} 'deferred_apr' must be a percentage between 0 and 100 and requires promo_end_date.` };
+  }
+  if (lender !== undefined && (typeof lender !== "string" || !lender.trim())) {
+    return { error: `${label} 'lender' must be a non-empty string.` };
+  }
+  const currencyCode = normalizeCurrency(currency);
+  if (!currencyCode) return { error: `${label} 'currency' must be a three-letter ISO 4217 code (e.g. EUR).` };
+
+  return {
+    lender,
+    row: {
+      name,
+      original_amount,
+      loan_type,
+      term_months,
+      loan_date, // store as date or text column formatted YYYY-MM-DD
+      apr,       // estimated_monthly_payment is amortized by the insert trigger
+      promo_end_date: promo_end_date ?? null,
+      deferred_apr: deferred_apr ?? null,
+      currency: currencyCode,
+    },
+  };
+}
+
+type ImportPaymentInput = {
+  row?: number;
+  loan_id?: string;
+  loan_name?: string;
+  loan_ref?: string;
+  amount?: number;
+  paid_by?: string;
+  payment_date?: string;
+  allow_duplicate?: boolean;
+};
+
+type OverpaymentDetail = {
+  loan_id: string;
+  loan_name: string;
+  currency: string;
+  amount: number;
+  owed: number;
+  excess: number;
+};
+
+// record_loan_payment / update_loan_payment raise check_violation with the numbers in DETAIL when a
+// payment exceeds what is owed; the 409 returns them (with the loan's currency) as `overpayment`
+async function readOverpayment(
+  supabase: ReturnType<typeof createClient>,
+  err: { code?: string; details?: string },
+): Promise<OverpaymentDetail | null> {
+  if (err.code !== "23514" || !err.details) return null;
+  let d: { loan_id: string; loan_name: string; amount: number; owed: number; excess: number };
+  try {
+    d = JSON.parse(err.details);
+  } catch {
+    return null;
+  }
+  const { data: loanRow } = await supabase
+    .from("loan_tracker_loans")
+    .select("currency")
+    .eq("id", d.loan_id)
+    .maybeSingle();
+  return {
+    loan_id: d.loan_id,
+    loan_name: d.loan_name,
+    currency: loanRow?.currency ?? "USD",
+    amount: Number(d.amount),
+    owed: Number(d.owed),
+    excess: Number(d.excess),
+  };
+}
+
+function overpaymentMessage(d: OverpaymentDetail) {
+  return `${money(d.amount, d.currency)} is ${money(d.excess, d.currency)} more than the ${money(d.owed, d.currency)} owed on '${d.loan_name}'.`;
+}
+
+// Two people logging the same payment: same loan and amount, dates this close
+const DUPLICATE_WINDOW_DAYS = 3;
+
+// Same loan and amount, dates at most DUPLICATE_WINDOW_DAYS apart; findPossibleDuplicates runs the
+// same test as a query. Mirrors isPossibleDuplicate() in src/index.ts.
+function isPossibleDuplicate(
+  a: { loan_id: string; amount: number; payment_date: string },
+  b: { loan_id: string; amount: number; payment_date: string },
+) {
+  return a.loan_id === b.loan_id &&
+    Math.abs(a.amount - b.amount) < 0.005 &&
+    Math.abs(Date.parse(a.payment_date) - Date.parse(b.payment_date)) <= DUPLICATE_WINDOW_DAYS * 86_400_000;
+}
+
+async function findPossibleDuplicates(
+  supabase: ReturnType<typeof createClient>,
+  p: { loan_id: string; amount: number; payment_date: string },
+): Promise<PaymentRow[]> {
+  const { data, error } = await supabase
+    .from("loan_tracker_payments")
+    .select(PAYMENT_COLUMNS)
+    .eq("loan_id", p.loan_id)
+    .eq("amount", p.amount)
+    .gte("payment_date", addDaysISO(p.payment_date, -DUPLICATE_WINDOW_DAYS))
+    .lte("payment_date", addDaysISO(p.payment_date, DUPLICATE_WINDOW_DAYS))
+    .order("payment_date", { ascending: false });
+  if (error) throw error;
+  return (data ?? []) as PaymentRow[];
+}
+
+// e.g. "Katerina already logged $125.00 on 'Couch' yesterday"
+function duplicateMessage(matches: PaymentRow[], loan: { name: string; currency: string }) {
+  const today = new Date().toISOString().slice(0, 10);
+  const when = (iso: string) => {
+    const days = Math.round((Date.parse(today) - Date.parse(iso)) / 86_400_000);
+    return days === 0 ? "today" : days === 1 ? "yesterday" : days > 1 && days < 7 ? `${days} days ago` : `on ${iso}`;
+  };
+  const [first, ...rest] = matches;
+  const more = rest.length ? ` (and ${rest.length} more)` : "";
+  return `${first.paid_by} already logged ${money(Number(first.amount), loan.currency)} on '${loan.name}' ${when(first.payment_date)}${more}.`;
+}
+
+// The 409 for the first of `parts` that matches a recent payment, or null when none does
+async function duplicateResponse(
+  supabase: ReturnType<typeof createClient>,
+  parts: { loan_id: string; amount: number }[],
+  payment_date: string,
+) {
+  for (const part of parts) {
+    const matches = await findPossibleDuplicates(supabase, { loan_id: part.loan_id, amount: part.amount, payment_date });
+    if (!matches.length) continue;
+    const { data: loanRow, error: loanErr } = await supabase
+      .from("loan_tracker_loans")
+      .select("id,name,currency")
+      .eq("id", part.loan_id)
+      .single();
+    if (loanErr) throw loanErr;
+    const what = parts.length > 1 ? "possible duplicate split part" : "possible duplicate";
+    return bad(
+      `add_payment: ${what}: ${duplicateMessage(matches, loanRow)} Send allow_duplicate: true to record another.`,
+      409,
+      {
+        possible_duplicate: {
+          loan_id: part.loan_id,
+          loan_name: loanRow.name,
+          currency: loanRow.currency,
+          amount: part.amount,
+          payment_date,
+          matches,
+        },
+      },
+    );
+  }
+  return null;
+}
+
+// A request repeating a used idempotency_key is a replay, not a duplicate: the RPC returns the original
+async function idempotencyKeyUsed(supabase: ReturnType<typeof createClient>, key: string | null) {
+  if (!key) return false;
+  const { data, error } = await supabase
+    .from("loan_tracker_payments")
+    .select("id")
+    .eq("idempotency_key", key)
+    .limit(1);
+  if (error) throw error;
+  return (data ?? []).length > 0;
 }
 
 serve(async (req) => {
@@ -93,75 +730,150 @@ serve(async (req) => {
     const action = body?.action as
       | "create_loan"
       | "add_payment"
+      | "update_payment"
+      | "delete_payment"
+      | "add_adjustment"
       | "get_loans"
-      | "delete_loan";
+      | "get_members"
+      | "upsert_member"
+      | "get_lenders"
+      | "upsert_lender"
+      | "reconcile_loans"
+      | "update_loan"
+      | "archive_loan"
+      | "delete_loan"
+      | "restore_loan"
+      | "purge_loan"
+      | "get_autopay_rules"
+      | "upsert_autopay_rule"
+      | "delete_autopay_rule"
+      | "run_scheduled_payments"
+      | "get_reminder_prefs"
+      | "upsert_reminder_prefs"
+      | "send_reminders"
+      | "resolve_credit"
+      | "get_exchange_rates"
+      | "upsert_exchange_rate"
+      | "import_history";
 
     if (!action) return bad("Missing 'action'.");
 
     // CREATE LOAN
     if (action === "create_loan") {
-      const {
-        name,
-        original_amount,
-        loan_date,
-        term_months,
-        loan_type = "general",
-        lender,
-      } = body as {
-        name?: string;
-        original_amount?: number;
-        loan_date?: string;
-        term_months?: number;
-        loan_type?: string;
-        lender?: string;
-      };
+      const loan = validateNewLoan(body as NewLoanInput, "create_loan");
+      if (loan.error !== undefined) return bad(loan.error);
+      const idem = readIdempotencyKey(body, "create_loan");
+      if ("error" in idem) return bad(idem.error);
+      const request_hash = idem.key ? await requestHash({ ...loan.row, lender: loan.lender?.trim() ?? null }) : null;
 
-      if (
-        !name ||
-        typeof original_amount !== "number" ||
-        !isISODate(loan_date) ||
-        typeof term_months !== "number" ||
-        term_months <= 0
-      ) {
-        return bad(
-          "create_loan requires name, numeric original_amount, loan_date (YYYY-MM-DD), and positive term_months.",
-        );
+      // A repeated request gets the loan the first one created; a key reused for another loan is refused
+      const findCreated = async () => {
+        const { data, error } = await supabase
+          .from("loan_tracker_loans")
+          .select(`*,lender:loan_tracker_lenders(${LENDER_COLUMNS})`)
+          .eq("idempotency_key", idem.key)
+          .maybeSingle();
+        if (error) throw error;
+        if (data && data.request_hash !== request_hash) return { conflict: true as const };
+        return data;
+      };
+      if (idem.key) {
+        const created = await findCreated();
+        if (created && "conflict" in created) return bad(`create_loan: ${IDEMPOTENCY_CONFLICT}`, 422);
+        if (created) return ok(created);
       }
 
+      const lender_id = loan.lender ? await resolveLenderId(supabase, loan.lender, true) : null;
+
       const { data, error } = await supabase
         .from("loan_tracker_loans")
-        .insert([
-          {
-            name,
-            original_amount,
-            current_balance: original_amount,
-            loan_type,
-            term_months,
-            loan_date, // store as date or text column formatted YYYY-MM-DD
-          },
-        ])
-        .select("*")
+        .insert([{ ...loan.row, current_balance: loan.row.original_amount, lender_id, idempotency_key: idem.key, request_hash }])
+        .select(`*,lender:loan_tracker_lenders(${LENDER_COLUMNS})`)
         .single();
 
-      if (error) throw error;
+      if (error) {
+        // unique idempotency_key: a concurrent copy of this request got there first
+        if (error.code === "23505" && idem.key) {
+          const created = await findCreated();
+          if (created && "conflict" in created) return bad(`create_loan: ${IDEMPOTENCY_CONFLICT}`, 422);
+          if (created) return ok(created);
+        }
+        throw error;
+      }
       return ok(data, 201);
     }
 
-    // ADD PAYMENT
+    // ADD PAYMENT (one row, or a split across payers and/or loans recorded as linked rows)
     if (action === "add_payment") {
       const {
         loan_id,
         loan_name,
         amount,
-        paid_by = "Steven",
+        paid_by,
         payment_date,
+        splits,
+        allow_overpayment,
+        allow_duplicate,
       } = body as {
         loan_id?: string;
         loan_name?: string;
         amount?: number;
-        paid_by?: "Steven" | "Katerina";
+        paid_by?: string;
         payment_date?: string;
+        splits?: SplitInput[];
+        allow_overpayment?: boolean;
+        allow_duplicate?: boolean;
       };
+      const idem = readIdempotencyKey(body, "add_payment");
+      if ("error" in idem) return bad(idem.error);
+
+      if (splits !== undefined) {
+        if (amount !== undefined && (typeof amount !== "number" || amount <= 0)) {
+          return bad("add_payment 'amount' must be a positive number.");
+        }
+        const resolved = await resolveSplitParts(supabase, { loan_id, loan_name, amount, paid_by }, splits);
+        if ("error" in resolved) return bad(`add_payment: ${resolved.error}`);
+
+        const iso = isISODate(payment_date)
+          ? payment_date
+          : new Date().toISOString().slice(0, 10);
+
+        // Each part is checked like a single payment: entering the same split twice is caught
+        if (allow_duplicate !== true && !(await idempotencyKeyUsed(supabase, idem.key))) {
+          const duplicate = await duplicateResponse(supabase, resolved.parts, iso);
+          if (duplicate) return duplicate;
+        }
+
+        // Every part is inserted (and every balance moved) in one transaction
+        const { data: recorded, error: rpcErr } = await supabase.rpc("record_split_payment", {
+          p_parts: resolved.parts,
+          p_payment_date: iso,
+          p_idempotency_key: idem.key,
+          p_request_hash: idem.key ? await requestHash({ payment_date: iso, parts: resolved.parts }) : null,
+        });
+        if (rpcErr) {
+          if (isIdempotencyConflict(rpcErr)) return bad(`add_payment: ${IDEMPOTENCY_CONFLICT}`, 422);
+          // Parts cannot overpay: the split is rolled back as a whole
+          const overpaid = await readOverpayment(supabase, rpcErr);
+          if (overpaid) {
+            return bad(`add_payment: a split part overpays: ${overpaymentMessage(overpaid)} Lower that part.`, 409, { overpayment: overpaid });
+          }
+          throw rpcErr;
+        }
+
+        const { split_group_id, parts, replayed } = recorded as {
+          split_group_id: string;
+          parts: { payment: Record<string, unknown>; loan: Record<string, unknown> }[];
+          replayed: boolean;
+        };
+        return ok({
+          split_group_id,
+          amount: replayed ? round2(parts.reduce((s, p) => s + Number(p.payment.amount), 0)) : resolved.total,
+          payment_date: replayed ? parts[0]?.payment.payment_date : iso,
+          parts, // [{ payment, loan }] per row, in the order they were applied
+          replayed, // true when idempotency_key repeated an earlier request: nothing new was recorded
+        });
+      }
 
       if (typeof amount !== "number" || amount <= 0) {
         return bad("add_payment requires a positive numeric 'amount'.");
@@ -177,109 +889,1306 @@ serve(async (req) => {
         ? payment_date
         : new Date().toISOString().slice(0, 10);
 
-      const paidBy = normalizePaidBy(paid_by as string | undefined);
+      const payer = await resolvePayer(supabase, paid_by);
+      if ("error" in payer) return bad(`add_payment: ${payer.error}`);
+      const paidBy = payer.name;
 
-      // 1) Insert payment
-      const { error: pErr } = await supabase.from("loan_tracker_payments").insert([
-        {
-          loan_id: id,
-          amount,
-          paid_by: paidBy,
-          payment_date: iso,
-        },
-      ]);
-      if (pErr) throw pErr;
+      // Someone may have logged this payment already
+      if (allow_duplicate !== true && !(await idempotencyKeyUsed(supabase, idem.key))) {
+        const duplicate = await duplicateResponse(supabase, [{ loan_id: id, amount }], iso);
+        if (duplicate) return duplicate;
+      }
 
-      // 2) Decrement current balance (prefer RPC; fallback to select+update)
-      const { error: rpcErr } = await supabase.rpc("decrement_loan_balance", {
-        p_loan_id: id,
-        p_amount: amount,
+      const { data: recorded, error: rpcErr } = await recordPayment(supabase, {
+        loan_id: id,
+        amount,
+        paid_by: paidBy,
+        payment_date: iso,
+        allow_overpayment: allow_overpayment === true,
+        idempotency_key: idem.key,
+        request_hash: idem.key ? await requestHash({ loan_id: id, amount, paid_by: paidBy, payment_date: iso }) : null,
       });
-
       if (rpcErr) {
-        // Fallback: read current balance, compute, then update
-        const { data: loanRow, error: selErr } = await supabase
-          .from("loan_tracker_loans")
-          .select("current_balance")
-          .eq("id", id)
-          .single();
-        if (selErr) throw selErr;
+        if (isIdempotencyConflict(rpcErr)) return bad(`add_payment: ${IDEMPOTENCY_CONFLICT}`, 422);
+        const overpaid = await readOverpayment(supabase, rpcErr);
+        if (overpaid) {
+          return bad(
+            `add_payment: ${overpaymentMessage(overpaid)} Send allow_overpayment: true to keep the excess as a credit.`,
+            409,
+            { overpayment: overpaid },
+          );
+        }
+        throw rpcErr;
+      }
 
-        const curr = Number(loanRow?.current_balance ?? 0);
-        const newBal = Math.max(0, curr - amount);
+      const { payment, loan, credit, replayed } = recorded as {
+        payment: PaymentRow;
+        loan: Record<string, unknown>;
+        credit: Record<string, unknown> | null;
+        replayed: boolean;
+      };
+      return ok({
+        loan_id: payment.loan_id,
+        amount: Number(payment.amount),
+        paid_by: payment.paid_by,
+        payment_date: payment.payment_date,
+        principal_amount: payment.principal_amount,
+        interest_amount: payment.interest_amount,
+        payment, // the inserted loan_tracker_payments row
+        loan,    // the loan row with its updated current_balance
+        credit,  // the excess over what was owed (allow_overpayment), else null
+        replayed, // true when idempotency_key repeated an earlier request: nothing new was recorded
+      });
+    }
 
-        const { error: updErr } = await supabase
-          .from("loan_tracker_loans")
-          .update({ current_balance: newBal })
-          .eq("id", id);
-        if (updErr) throw updErr;
+    // UPDATE PAYMENT (fix a typo'd amount/date/payer). The update_loan_payment RPC reverses the
+    // old row and its credit, then re-records it with the same overpayment check as add_payment.
+    if (action === "update_payment") {
+      const { amount, paid_by, payment_date, allow_overpayment, ...criteria } = body as {
+        payment_id?: string;
+        loan_id?: string;
+        loan_name?: string;
+        match_amount?: number;
+        match_date?: string;
+        amount?: number;
+        paid_by?: string;
+        payment_date?: string;
+        allow_overpayment?: boolean;
+      };
+
+      if (amount !== undefined && (typeof amount !== "number" || amount <= 0)) {
+        return bad("update_payment 'amount' must be a positive number.");
+      }
+      if (payment_date !== undefined && !isISODate(payment_date)) {
+        return bad("update_payment 'payment_date' must be YYYY-MM-DD.");
+      }
+      if (amount === undefined && paid_by === undefined && payment_date === undefined) {
+        return bad("update_payment requires at least one of amount, paid_by, payment_date.");
+      }
+
+      const found = await resolvePayment(supabase, criteria);
+      if ("error" in found) return bad(`update_payment: ${found.error}`);
+      const prev = found.payment;
+
+      let payerName: string | null = null;
+      if (paid_by !== undefined) {
+        const payer = await resolvePayer(supabase, paid_by);
+        if ("error" in payer) return bad(`update_payment: ${payer.error}`);
+        payerName = payer.name;
+      }
+
+      const { data: updated, error: rpcErr } = await supabase.rpc("update_loan_payment", {
+        p_payment_id: prev.id,
+        p_amount: amount ?? null,
+        p_paid_by: payerName,
+        p_payment_date: payment_date ?? null,
+        p_allow_overpayment: allow_overpayment === true,
+      });
+      if (rpcErr) {
+        const overpaid = await readOverpayment(supabase, rpcErr);
+        if (overpaid) {
+          return bad(
+            `update_payment: ${overpaymentMessage(overpaid)} Send allow_overpayment: true to keep the excess as a credit.`,
+            409,
+            { overpayment: overpaid },
+          );
+        }
+        // restrict_violation: the payment's credit was already refunded
+        if (rpcErr.code === "23001") return bad(`update_payment: ${rpcErr.message}; use add_adjustment to correct the balance instead.`, 409);
+        throw rpcErr;
       }
 
-      return ok({ loan_id: id, amount, paid_by: paidBy, payment_date: iso });
+      const { payment, loan, credit } = updated as {
+        previous: PaymentRow;
+        payment: PaymentRow;
+        loan: Record<string, unknown>;
+        credit: Record<string, unknown> | null;
+      };
+      return ok({ previous: prev, payment, loan, credit });
     }
 
-    // GET LOANS (returns loans + payments; UI filters if it asked for a specific loan)
-    if (action === "get_loans") {
-      const { data: loans, error: lErr } = await supabase
-        .from("loan_tracker_loans")
-        .select(
-          "id,name,original_amount,current_balance,loan_type,term_months,loan_date,created_at,estimated_monthly_payment",
-        )
-        .order("created_at", { ascending: false });
+    // DELETE PAYMENT (restores the principal it had applied)
+    if (action === "delete_payment") {
+      const criteria = body as {
+        payment_id?: string;
+        loan_id?: string;
+        loan_name?: string;
+        match_amount?: number;
+        match_date?: string;
+      };
 
-      if (lErr) throw lErr;
+      const found = await resolvePayment(supabase, criteria);
+      if ("error" in found) return bad(`delete_payment: ${found.error}`);
+      const prev = found.payment;
 
-      const { data: payments, error: pErr } = await supabase
-        .from("loan_tracker_payments")
-        .select("id,loan_id,amount,paid_by,payment_date,created_at");
-      if (pErr) throw pErr;
+      // One transaction: the row, its open credit and the principal it had applied
+      const { data: deleted, error: rpcErr } = await supabase.rpc("delete_loan_payment", {
+        p_payment_id: prev.id,
+      });
+      if (rpcErr) {
+        // restrict_violation: the payment's credit was already refunded
+        if (rpcErr.code === "23001") return bad(`delete_payment: ${rpcErr.message}; use add_adjustment to correct the balance instead.`, 409);
+        throw rpcErr;
+      }
 
-      // group payments by loan
-      const byLoan: Record<string, any[]> = {};
-      for (const p of payments ?? []) {
-        (byLoan[p.loan_id] ??= []).push(p);
+      const { payment, loan, credit } = deleted as {
+        payment: PaymentRow;
+        loan: Record<string, unknown>;
+        credit: Record<string, unknown> | null;
+      };
+      return ok({ payment, loan, credit });
+    }
+
+    // ADD ADJUSTMENT (fees, charged-back interest, lender corrections; + raises the balance)
+    if (action === "add_adjustment") {
+      const { loan_id, loan_name, amount, reason, adjustment_date } = body as {
+        loan_id?: string;
+        loan_name?: string;
+        amount?: number;
+        reason?: string;
+        adjustment_date?: string;
+      };
+
+      if (typeof amount !== "number" || amount === 0 || !reason?.trim()) {
+        return bad("add_adjustment requires a non-zero numeric 'amount' and a 'reason'.");
       }
 
-      // derive totals + sort payments by date
-      const result = (loans ?? []).map((l) => {
-        const ps = (byLoan[l.id] ?? []).sort((a, b) =>
-          (b.payment_date ?? "").localeCompare(a.payment_date ?? "")
-        );
-        const total_paid = ps.reduce((s, p) => s + (p.amount ?? 0), 0);
-        const last_payment = ps.length ? ps[0].payment_date : null;
-        return { ...l, payments: ps, total_paid, last_payment };
+      const id =
+        loan_id ??
+        (loan_name ? await resolveLoanIdByName(supabase, loan_name) : null);
+
+      if (!id) return bad("add_adjustment requires loan_id or valid loan_name.");
+
+      const iso = isISODate(adjustment_date)
+        ? adjustment_date
+        : new Date().toISOString().slice(0, 10);
+
+      // One transaction: the row, then current_balance rewritten from the ledger
+      const { data, error } = await supabase.rpc("record_loan_adjustment", {
+        p_loan_id: id,
+        p_amount: amount,
+        p_reason: reason.trim(),
+        p_adjustment_date: iso,
       });
+      if (error) throw error;
 
-      return ok(result);
+      return ok((data as { adjustment: Record<string, unknown> }).adjustment, 201);
     }
 
-    // DELETE LOAN (soft-delete recommended; here we hard delete for simplicity)
-    if (action === "delete_loan") {
-      const { loan_id, loan_name } = body as {
+    // RECONCILE LOANS (rewrite current_balance from the ledger; report what changed)
+    if (action === "reconcile_loans") {
+      const { loan_id, loan_name, dry_run = false } = body as {
         loan_id?: string;
         loan_name?: string;
+        dry_run?: boolean;
       };
 
       const id =
         loan_id ??
         (loan_name ? await resolveLoanIdByName(supabase, loan_name) : null);
+      if (loan_name && !id) return bad("reconcile_loans: no loan named '" + loan_name + "'.");
 
-      if (!id) return bad("delete_loan requires loan_id or valid loan_name.");
+      let q = supabase
+        .from("loan_tracker_ledger_balances")
+        .select("loan_id,stored_balance,derived_balance");
+      if (id) q = q.eq("loan_id", id);
+      const { data: rows, error: vErr } = await q;
+      if (vErr) throw vErr;
 
-      // Hard delete (replace with is_archived=true if you prefer soft delete)
-      const { error: delPays } = await supabase
-        .from("loan_tracker_payments")
-        .delete()
-        .eq("loan_id", id);
-      if (delPays) throw delPays;
+      const { data: names, error: nErr } = await supabase
+        .from("loan_tracker_loans")
+        .select("id,name");
+      if (nErr) throw nErr;
+      const nameById = Object.fromEntries((names ?? []).map((l: { id: string; name: string }) => [l.id, l.name]));
 
-      const { error: delLoan } = await supabase.from("loan_tracker_loans").delete().eq(
-        "id",
-        id,
-      );
-      if (delLoan) throw delLoan;
+      const ledger = (rows ?? []) as { loan_id: string; stored_balance: number; derived_balance: number }[];
+      const discrepancies = ledger
+        .map((r) => ({
+          loan_id: r.loan_id,
+          name: nameById[r.loan_id] ?? null,
+          stored_balance: Number(r.stored_balance),
+          derived_balance: Number(r.derived_balance),
+          difference: round2(Number(r.stored_balance) - Number(r.derived_balance)),
+        }))
+        .filter((d) => Math.abs(d.difference) >= 0.01);
 
-      return ok({ loan_id: id });
+      if (!dry_run) {
+        for (const d of discrepancies) {
+          const { error: uErr } = await supabase
+            .from("loan_tracker_loans")
+            .update({ current_balance: d.derived_balance })
+            .eq("id", d.loan_id);
+          if (uErr) throw uErr;
+        }
+      }
+
+      return ok({
+        checked: ledger.length,
+        dry_run,
+        fixed: dry_run ? [] : discrepancies,
+        discrepancies,
+      });
+    }
+
+    // GET LOANS (returns loans + payments; UI filters if it asked for a specific loan)
+    // Archived loans are hidden unless include_archived is true.
+    if (action === "get_loans") {
+      const { include_archived, lender } = body as { include_archived?: boolean; lender?: string };
+
+      let loansQuery = supabase
+        .from("loan_tracker_loans")
+        .select(
+          `id,name,aliases,original_amount,current_balance,loan_type,term_months,loan_date,created_at,currency,estimated_monthly_payment,apr,promo_end_date,deferred_apr,archived_at,lender_id,lender:loan_tracker_lenders(${LENDER_COLUMNS}),autopay_rules:loan_tracker_autopay_rules(${AUTOPAY_COLUMNS})`,
+        )
+        .order("created_at", { ascending: false });
+      if (include_archived !== true) loansQuery = loansQuery.is("archived_at", null);
+      if (lender) {
+        const lenderId = await resolveLenderId(supabase, lender);
+        if (!lenderId) return ok([]);
+        loansQuery = loansQuery.eq("lender_id", lenderId);
+      }
+
+      const { data: loans, error: lErr } = await loansQuery;
+
+      if (lErr) throw lErr;
+
+      const { data: payments, error: pErr } = await supabase
+        .from("loan_tracker_payments")
+        .select("id,loan_id,amount,paid_by,payment_date,created_at,principal_amount,interest_amount,split_group_id,autopay_rule_id");
+      if (pErr) throw pErr;
+
+      const { data: adjustments, error: aErr } = await supabase
+        .from("loan_tracker_adjustments")
+        .select("id,loan_id,amount,reason,adjustment_date,created_at");
+      if (aErr) throw aErr;
+
+      const { data: credits, error: cErr } = await supabase
+        .from("loan_tracker_credits")
+        .select(CREDIT_COLUMNS)
+        .order("credit_date", { ascending: false });
+      if (cErr) throw cErr;
+
+      // group payments by loan
+      const byLoan: Record<string, any[]> = {};
+      for (const p of payments ?? []) {
+        (byLoan[p.loan_id] ??= []).push(p);
+      }
+      const adjByLoan: Record<string, typeof adjustments> = {};
+      for (const a of adjustments ?? []) {
+        (adjByLoan[a.loan_id] ??= []).push(a);
+      }
+      const creditsByLoan: Record<string, typeof credits> = {};
+      for (const c of credits ?? []) {
+        (creditsByLoan[c.loan_id] ??= []).push(c);
+      }
+
+      // derive totals + sort payments by date
+      const result = (loans ?? []).map((l) => {
+        const ps = (byLoan[l.id] ?? []).sort((a, b) =>
+          (b.payment_date ?? "").localeCompare(a.payment_date ?? "")
+        );
+        const total_paid = ps.reduce((s, p) => s + (p.amount ?? 0), 0);
+        const last_payment = ps.length ? ps[0].payment_date : null;
+        return {
+          ...l,
+          payments: ps,
+          adjustments: adjByLoan[l.id] ?? [],
+          credits: creditsByLoan[l.id] ?? [],
+          total_paid,
+          last_payment,
+        };
+      });
+
+      return ok(result);
+    }
+
+    // GET MEMBERS (household payers, in display order)
+    if (action === "get_members") {
+      return ok(await loadMembers(supabase));
+    }
+
+    // UPSERT MEMBER (by member_id, else by case-insensitive name; renames carry payment history along)
+    if (action === "upsert_member") {
+      const { member_id, name, color, is_default, sort_order } = body as {
+        member_id?: string;
+        name?: string;
+        color?: string | null;
+        is_default?: boolean;
+        sort_order?: number;
+      };
+
+      if (!member_id && (typeof name !== "string" || !name.trim())) {
+        return bad("upsert_member requires member_id or name.");
+      }
+      if (name !== undefined && (typeof name !== "string" || !name.trim())) {
+        return bad("upsert_member 'name' must be a non-empty string.");
+      }
+      if (name !== undefined && ["i", "me", "myself"].includes(name.trim().toLowerCase())) {
+        return bad(`'${name.trim()}' is reserved for the default member.`);
+      }
+      if (color != null && !/^#[0-9a-fA-F]{6}$/.test(color)) {
+        return bad("upsert_member 'color' must be a hex color like #3b82f6.");
+      }
+      if (sort_order !== undefined && !Number.isInteger(sort_order)) {
+        return bad("upsert_member 'sort_order' must be an integer.");
+      }
+
+      const members = await loadMembers(supabase);
+      const existing = member_id
+        ? members.find((m) => m.id === member_id)
+        : members.find((m) => m.name.toLowerCase() === name!.trim().toLowerCase());
+      if (member_id && !existing) return bad("upsert_member: member not found.", 404);
+      if (name !== undefined) {
+        const clash = members.find((m) => m.name.toLowerCase() === name.trim().toLowerCase());
+        if (clash && clash.id !== existing?.id) return bad(`A member named '${name.trim()}' already exists.`);
+      }
+
+      const patch: Record<string, unknown> = {};
+      if (name !== undefined) patch.name = name.trim();
+      if (color !== undefined) patch.color = color;
+      if (is_default !== undefined) patch.is_default = is_default;
+      if (sort_order !== undefined) patch.sort_order = sort_order;
+      if (!existing && sort_order === undefined) patch.sort_order = members.length;
+
+      // Only one default member
+      if (is_default === true) {
+        const { error: clrErr } = await supabase
+          .from("loan_tracker_members")
+          .update({ is_default: false })
+          .eq("is_default", true);
+        if (clrErr) throw clrErr;
+      }
+
+      const query = existing
+        ? supabase.from("loan_tracker_members").update(patch).eq("id", existing.id)
+        : supabase.from("loan_tracker_members").insert([patch]);
+      const { data, error } = await query.select(MEMBER_COLUMNS).single();
+      if (error) throw error;
+
+      if (existing && patch.name && patch.name !== existing.name) {
+        const { error: payErr } = await supabase
+          .from("loan_tracker_payments")
+          .update({ paid_by: patch.name })
+          .eq("paid_by", existing.name);
+        if (payErr) throw payErr;
+
+        const { error: ruleErr } = await supabase
+          .from("loan_tracker_autopay_rules")
+          .update({ paid_by: patch.name })
+          .eq("paid_by", existing.name);
+        if (ruleErr) throw ruleErr;
+      }
+
+      return ok(data, existing ? 200 : 201);
+    }
+
+    // GET LENDERS
+    if (action === "get_lenders") {
+      const { data, error } = await supabase
+        .from("loan_tracker_lenders")
+        .select(LENDER_COLUMNS)
+        .order("name", { ascending: true });
+
+      if (error) throw error;
+      return ok(data ?? []);
+    }
+
+    // UPSERT LENDER (by lender_id, else by case-insensitive name; omitted fields are left unchanged)
+    if (action === "upsert_lender") {
+      const { lender_id, name, website, phone, account_last4, notes } = body as {
+        lender_id?: string;
+        name?: string;
+        website?: string | null;
+        phone?: string | null;
+        account_last4?: string | null;
+        notes?: string | null;
+      };
+
+      if (!lender_id && (typeof name !== "string" || !name.trim())) {
+        return bad("upsert_lender requires lender_id or name.");
+      }
+      if (account_last4 != null && !/^\d{4}$/.test(String(account_last4))) {
+        return bad("upsert_lender 'account_last4' must be exactly 4 digits.");
+      }
+
+      const patch: Record<string, string | null> = {};
+      if (name !== undefined) patch.name = name.trim();
+      if (website !== undefined) patch.website = website?.trim() || null;
+      if (phone !== undefined) patch.phone = phone?.trim() || null;
+      if (account_last4 !== undefined) patch.account_last4 = account_last4;
+      if (notes !== undefined) patch.notes = notes?.trim() || null;
+
+      const id = lender_id ?? (await resolveLenderId(supabase, name!));
+      if (id && name !== undefined) {
+        const clash = await resolveLenderId(supabase, name);
+        if (clash && clash !== id) return bad(`A lender named '${name.trim()}' already exists.`);
+      }
+
+      const query = id
+        ? supabase.from("loan_tracker_lenders").update(patch).eq("id", id)
+        : supabase.from("loan_tracker_lenders").insert([patch]);
+      const { data, error } = await query.select(LENDER_COLUMNS).single();
+
+      if (error) throw error;
+      return ok(data, id ? 200 : 201);
+    }
+
+    // UPDATE LOAN (descriptive fields only; amounts/term stay immutable so payment history holds)
+    if (action === "update_loan") {
+      const { loan_id, loan_name, name, loan_type, loan_date, lender, aliases } = body as {
+        loan_id?: string;
+        loan_name?: string;
+        name?: string;
+        loan_type?: string;
+        loan_date?: string;
+        lender?: string | null;
+        aliases?: string[];
+      };
+
+      const id =
+        loan_id ??
+        (loan_name ? await resolveLoanIdByName(supabase, loan_name) : null);
+
+      if (!id) return bad("update_loan requires loan_id or valid loan_name.");
+
+      const patch: Record<string, string | string[] | null> = {};
+      if (name !== undefined) {
+        if (typeof name !== "string" || !name.trim()) return bad("update_loan 'name' must be a non-empty string.");
+        const clash = await resolveLoanIdByName(supabase, name);
+        if (clash && clash !== id) return bad(`A loan named '${name.trim()}' already exists.`);
+        patch.name = name.trim();
+      }
+      if (loan_type !== undefined) {
+        if (typeof loan_type !== "string" || !loan_type.trim()) {
+          return bad("update_loan 'loan_type' must be a non-empty string.");
+        }
+        patch.loan_type = loan_type.trim();
+      }
+      if (loan_date !== undefined) {
+        if (!isISODate(loan_date)) return bad("update_loan 'loan_date' must be YYYY-MM-DD.");
+        // The promo check constraint needs promo_end_date > loan_date; say so instead of a 500
+        const { data: current, error: cErr } = await supabase
+          .from("loan_tracker_loans")
+          .select("promo_end_date")
+          .eq("id", id)
+          .single();
+        if (cErr) throw cErr;
+        if (current.promo_end_date && loan_date >= current.promo_end_date) {
+          return bad(
+            `update_loan 'loan_date' must be before the promo end date (${current.promo_end_date}).`,
+          );
+        }
+        patch.loan_date = loan_date;
+      }
+      if (lender !== undefined) {
+        if (lender !== null && (typeof lender !== "string" || !lender.trim())) {
+          return bad("update_loan 'lender' must be a lender name, or null to unlink.");
+        }
+        patch.lender_id = lender ? await resolveLenderId(supabase, lender, true) : null;
+      }
+      if (aliases !== undefined) {
+        if (!Array.isArray(aliases) || aliases.some((a) => typeof a !== "string" || !a.trim())) {
+          return bad("update_loan 'aliases' must be a list of non-empty names (the whole list is replaced).");
+        }
+        patch.aliases = [...new Set(aliases.map((a) => a.trim()))];
+      }
+
+      if (Object.keys(patch).length === 0) {
+        return bad("update_loan requires at least one of name, loan_type, loan_date, lender, aliases.");
+      }
+
+      const { data, error } = await supabase
+        .from("loan_tracker_loans")
+        .update(patch)
+        .eq("id", id)
+        .select(`*,lender:loan_tracker_lenders(${LENDER_COLUMNS})`)
+        .single();
+
+      if (error) throw error;
+      return ok(data);
+    }
+
+    // ARCHIVE / RESTORE LOAN (soft delete; payments and adjustments are kept)
+    if (action === "archive_loan" || action === "delete_loan" || action === "restore_loan") {
+      const { loan_id, loan_name } = body as {
+        loan_id?: string;
+        loan_name?: string;
+      };
+
+      const id =
+        loan_id ??
+        (loan_name ? await resolveLoanIdByName(supabase, loan_name) : null);
+
+      if (!id) return bad(`${action} requires loan_id or valid loan_name.`);
+
+      const archived_at = action === "restore_loan" ? null : new Date().toISOString();
+      const { data, error } = await supabase
+        .from("loan_tracker_loans")
+        .update({ archived_at })
+        .eq("id", id)
+        .select("*")
+        .single();
+
+      if (error) throw error;
+      // delete_loan (deprecated) used to return { loan_id }; keep that field for its callers
+      return ok(action === "delete_loan" ? { ...data, loan_id: data.id } : data);
+    }
+
+    // PURGE LOAN (permanent; caller must echo the loan's name back as `confirm`)
+    if (action === "purge_loan") {
+      const { loan_id, loan_name, confirm } = body as {
+        loan_id?: string;
+        loan_name?: string;
+        confirm?: string;
+      };
+
+      const id =
+        loan_id ??
+        (loan_name ? await resolveLoanIdByName(supabase, loan_name) : null);
+
+      if (!id) return bad("purge_loan requires loan_id or valid loan_name.");
+
+      const { data: loan, error: lErr } = await supabase
+        .from("loan_tracker_loans")
+        .select("id,name")
+        .eq("id", id)
+        .single();
+      if (lErr) throw lErr;
+
+      if (typeof confirm !== "string" || confirm.trim().toLowerCase() !== loan.name.toLowerCase()) {
+        return bad(`purge_loan permanently deletes '${loan.name}' and its payments; pass confirm: "${loan.name}" to proceed.`);
+      }
+
+      // One transaction: its payments, then the loan (adjustments, credits and rules cascade)
+      const { data, error } = await supabase.rpc("purge_loan_with_history", { p_loan_id: id });
+      if (error) throw error;
+
+      return ok(data);
+    }
+
+    // GET AUTOPAY RULES (with the next date each rule will record)
+    if (action === "get_autopay_rules") {
+      const { loan_id, loan_name, include_inactive } = body as {
+        loan_id?: string;
+        loan_name?: string;
+        include_inactive?: boolean;
+      };
+
+      let query = supabase
+        .from("loan_tracker_autopay_rules")
+        .select(`${AUTOPAY_COLUMNS},loan:loan_tracker_loans(id,name,currency)`)
+        .order("created_at", { ascending: true });
+      if (include_inactive !== true) query = query.eq("active", true);
+      if (loan_id || loan_name) {
+        const id = loan_id ?? await resolveLoanIdByName(supabase, loan_name!);
+        if (!id) return bad("get_autopay_rules: no loan by that name.", 404);
+        query = query.eq("loan_id", id);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return ok((data ?? []).map((r: AutopayRuleRow) => ({ ...r, next_payment_date: nextAutopayDate(r) })));
+    }
+
+    // UPSERT AUTOPAY RULE (by rule_id, else by loan + payer; omitted fields are left unchanged)
+    if (action === "upsert_autopay_rule") {
+      const {
+        rule_id,
+        loan_id,
+        loan_name,
+        paid_by,
+        amount,
+        cadence,
+        day_of_month,
+        start_date,
+        end_date,
+        active,
+      } = body as {
+        rule_id?: string;
+        loan_id?: string;
+        loan_name?: string;
+        paid_by?: string;
+        amount?: number;
+        cadence?: string;
+        day_of_month?: number | null;
+        start_date?: string;
+        end_date?: string | null;
+        active?: boolean;
+      };
+
+      if (amount !== undefined && (typeof amount !== "number" || amount <= 0)) {
+        return bad("upsert_autopay_rule 'amount' must be a positive number.");
+      }
+      if (cadence !== undefined && cadence !== "monthly" && cadence !== "biweekly") {
+        return bad("upsert_autopay_rule 'cadence' must be 'monthly' or 'biweekly'.");
+      }
+      if (day_of_month != null && (!Number.isInteger(day_of_month) || day_of_month < 1 || day_of_month > 31)) {
+        return bad("upsert_autopay_rule 'day_of_month' must be a whole number from 1 to 31.");
+      }
+      if (start_date !== undefined && !isISODate(start_date)) {
+        return bad("upsert_autopay_rule 'start_date' must be YYYY-MM-DD.");
+      }
+      if (end_date != null && !isISODate(end_date)) {
+        return bad("upsert_autopay_rule 'end_date' must be YYYY-MM-DD or null.");
+      }
+      if (active !== undefined && typeof active !== "boolean") {
+        return bad("upsert_autopay_rule 'active' must be true or false.");
+      }
+
+      let existing: AutopayRuleRow | null = null;
+      let loanId: string | null = null;
+      if (rule_id) {
+        const { data, error } = await supabase
+          .from("loan_tracker_autopay_rules")
+          .select(AUTOPAY_COLUMNS)
+          .eq("id", rule_id)
+          .maybeSingle();
+        if (error) throw error;
+        if (!data) return bad("upsert_autopay_rule: rule not found.", 404);
+        existing = data as AutopayRuleRow;
+        loanId = existing.loan_id;
+      } else {
+        loanId = loan_id ?? (loan_name ? await resolveLoanIdByName(supabase, loan_name) : null);
+        if (!loanId) return bad("upsert_autopay_rule requires rule_id, or loan_id / valid loan_name.");
+      }
+
+      let payerName: string | undefined;
+      if (paid_by !== undefined || !existing) {
+        const payer = await resolvePayer(supabase, paid_by);
+        if ("error" in payer) return bad(`upsert_autopay_rule: ${payer.error}`);
+        payerName = payer.name;
+      }
+
+      // Without rule_id, the loan + payer pair identifies the rule
+      if (!existing) {
+        const { data, error } = await supabase
+          .from("loan_tracker_autopay_rules")
+          .select(AUTOPAY_COLUMNS)
+          .eq("loan_id", loanId)
+          .eq("paid_by", payerName!)
+          .maybeSingle();
+        if (error) throw error;
+        existing = data as AutopayRuleRow | null;
+      }
+
+      const today = new Date().toISOString().slice(0, 10);
+      const nextCadence = (cadence ?? existing?.cadence ?? "monthly") as AutopayRuleRow["cadence"];
+      const nextStart = start_date ?? existing?.start_date ?? today;
+      const nextEnd = end_date !== undefined ? end_date : existing?.end_date ?? null;
+      if (!existing && amount === undefined) {
+        return bad("upsert_autopay_rule requires a positive 'amount' for a new rule.");
+      }
+      if (nextEnd && nextEnd < nextStart) {
+        return bad("upsert_autopay_rule 'end_date' must be on or after start_date.");
+      }
+
+      const patch: Record<string, unknown> = {};
+      if (amount !== undefined) patch.amount = round2(amount);
+      if (payerName !== undefined) patch.paid_by = payerName;
+      if (cadence !== undefined || !existing) patch.cadence = nextCadence;
+      if (start_date !== undefined || !existing) patch.start_date = nextStart;
+      if (end_date !== undefined) patch.end_date = end_date;
+      if (active !== undefined) patch.active = active;
+      if (nextCadence === "biweekly") {
+        patch.day_of_month = null;
+      } else if (day_of_month != null) {
+        patch.day_of_month = day_of_month;
+      } else if (existing?.day_of_month == null) {
+        patch.day_of_month = Number(nextStart.slice(8)); // monthly on the start date's day
+      }
+
+      const query = existing
+        ? supabase.from("loan_tracker_autopay_rules").update(patch).eq("id", existing.id)
+        : supabase.from("loan_tracker_autopay_rules").insert([{ ...patch, loan_id: loanId }]);
+      const { data, error } = await query.select(`${AUTOPAY_COLUMNS},loan:loan_tracker_loans(id,name,currency)`).single();
+      if (error) {
+        if (error.code === "23505") return bad(`${payerName} already has an autopay rule on this loan.`, 409);
+        throw error;
+      }
+
+      return ok({ ...data, next_payment_date: nextAutopayDate(data as AutopayRuleRow) }, existing ? 200 : 201);
+    }
+
+    // DELETE AUTOPAY RULE (payments it already recorded are kept)
+    if (action === "delete_autopay_rule") {
+      const { rule_id, loan_id, loan_name, paid_by } = body as {
+        rule_id?: string;
+        loan_id?: string;
+        loan_name?: string;
+        paid_by?: string;
+      };
+
+      let id = rule_id ?? null;
+      if (!id) {
+        const loanId = loan_id ?? (loan_name ? await resolveLoanIdByName(supabase, loan_name) : null);
+        if (!loanId) return bad("delete_autopay_rule requires rule_id, or loan_id / valid loan_name.");
+
+        let query = supabase.from("loan_tracker_autopay_rules").select("id,paid_by").eq("loan_id", loanId);
+        if (paid_by !== undefined) {
+          const payer = await resolvePayer(supabase, paid_by);
+          if ("error" in payer) return bad(`delete_autopay_rule: ${payer.error}`);
+          query = query.eq("paid_by", payer.name);
+        }
+        const { data: rules, error } = await query;
+        if (error) throw error;
+
+        if (!rules || rules.length === 0) return bad("delete_autopay_rule: no autopay rule on that loan.", 404);
+        if (rules.length > 1) {
+          return bad(
+            `delete_autopay_rule: ${rules.length} autopay rules on that loan (${rules.map((r: { paid_by: string }) => r.paid_by).join(", ")}); pass paid_by or rule_id.`,
+          );
+        }
+        id = rules[0].id;
+      }
+
+      const { data, error } = await supabase
+        .from("loan_tracker_autopay_rules")
+        .delete()
+        .eq("id", id)
+        .select(`${AUTOPAY_COLUMNS},loan:loan_tracker_loans(id,name,currency)`)
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) return bad("delete_autopay_rule: rule not found.", 404);
+      return ok(data);
+    }
+
+    // RUN SCHEDULED PAYMENTS (records every autopay occurrence due through `through`, default today)
+    // Idempotent: each rule remembers the last date it covered, and the payments table allows one
+    // payment per rule and date, so overlapping or repeated runs record nothing twice.
+    if (action === "run_scheduled_payments") {
+      const { through, loan_id, loan_name, dry_run = false } = body as {
+        through?: string;
+        loan_id?: string;
+        loan_name?: string;
+        dry_run?: boolean;
+      };
+
+      if (through !== undefined && !isISODate(through)) {
+        return bad("run_scheduled_payments 'through' must be YYYY-MM-DD.");
+      }
+      const until = through ?? new Date().toISOString().slice(0, 10);
+
+      let query = supabase
+        .from("loan_tracker_autopay_rules")
+        .select(`${AUTOPAY_COLUMNS},loan:loan_tracker_loans(id,name,currency,current_balance,archived_at)`)
+        .eq("active", true)
+        .lte("start_date", until);
+      if (loan_id || loan_name) {
+        const id = loan_id ?? await resolveLoanIdByName(supabase, loan_name!);
+        if (!id) return bad("run_scheduled_payments: no loan by that name.", 404);
+        query = query.eq("loan_id", id);
+      }
+
+      const { data: rules, error } = await query;
+      if (error) throw error;
+
+      const recorded: Record<string, unknown>[] = [];
+      const skipped: Record<string, unknown>[] = [];
+
+      for (const row of rules ?? []) {
+        const rule = row as AutopayRuleRow & {
+          loan: { id: string; name: string; current_balance: number; archived_at: string | null };
+        };
+        const dates = autopayOccurrences(rule, rule.last_run_date, until);
+        if (dates.length === 0) continue;
+
+        let balance = Number(rule.loan.current_balance);
+        for (const date of dates) {
+          const entry = {
+            rule_id: rule.id,
+            loan_id: rule.loan_id,
+            loan_name: rule.loan.name,
+            amount: Number(rule.amount),
+            paid_by: rule.paid_by,
+            payment_date: date,
+          };
+
+          // Nothing is charged against archived or paid-off loans; those dates are passed over
+          if (rule.loan.archived_at) {
+            skipped.push({ ...entry, reason: "loan is archived" });
+            continue;
+          }
+          if (balance <= 0) {
+            skipped.push({ ...entry, reason: "loan is paid off" });
+            continue;
+          }
+          if (dry_run) {
+            recorded.push(entry);
+            continue;
+          }
+
+          const { data: result, error: rpcErr } = await recordPayment(supabase, {
+            loan_id: rule.loan_id,
+            amount: entry.amount,
+            paid_by: rule.paid_by,
+            payment_date: date,
+            autopay_rule_id: rule.id,
+            allow_overpayment: true, // the money has moved; a final occurrence larger than the balance becomes a credit
+          });
+          if (rpcErr) {
+            // unique (autopay_rule_id, payment_date): a concurrent or earlier run got there first
+            if (rpcErr.code === "23505") {
+              skipped.push({ ...entry, reason: "already recorded" });
+              continue;
+            }
+            throw rpcErr;
+          }
+
+          const { payment, loan, credit } = result as {
+            payment: Record<string, unknown>;
+            loan: Record<string, unknown>;
+            credit: Record<string, unknown> | null;
+          };
+          balance = Number(loan.current_balance);
+          recorded.push({ ...entry, payment, loan, credit });
+        }
+
+        if (!dry_run) {
+          const { error: runErr } = await supabase
+            .from("loan_tracker_autopay_rules")
+            .update({ last_run_date: dates[dates.length - 1] })
+            .eq("id", rule.id);
+          if (runErr) throw runErr;
+        }
+      }
+
+      return ok({ through: until, dry_run, recorded, skipped });
+    }
+
+    // GET REMINDER PREFS (one row per member who has preferences)
+    if (action === "get_reminder_prefs") {
+      const { data, error } = await supabase
+        .from("loan_tracker_reminder_prefs")
+        .select(`${REMINDER_PREF_COLUMNS},member:loan_tracker_members(id,name)`);
+
+      if (error) throw error;
+      return ok(data ?? []);
+    }
+
+    // UPSERT REMINDER PREFS (by member_id or member name; omitted fields are left unchanged)
+    if (action === "upsert_reminder_prefs") {
+      const { member_id, member, email, webhook_url, window_days, enabled } = body as {
+        member_id?: string;
+        member?: string;
+        email?: string | null;
+        webhook_url?: string | null;
+        window_days?: number;
+        enabled?: boolean;
+      };
+
+      if (email != null && (typeof email !== "string" || !/^[^@\s]+@[^@\s]+$/.test(email.trim()))) {
+        return bad("upsert_reminder_prefs 'email' must be an email address or null.");
+      }
+      if (webhook_url != null && (typeof webhook_url !== "string" || !/^https?:\/\//.test(webhook_url.trim()))) {
+        return bad("upsert_reminder_prefs 'webhook_url' must be an http(s) URL or null.");
+      }
+      if (window_days !== undefined && (!Number.isInteger(window_days) || window_days < 0 || window_days > 60)) {
+        return bad("upsert_reminder_prefs 'window_days' must be a whole number from 0 to 60.");
+      }
+      if (enabled !== undefined && typeof enabled !== "boolean") {
+        return bad("upsert_reminder_prefs 'enabled' must be true or false.");
+      }
+
+      const members = await loadMembers(supabase);
+      let target: MemberRow | undefined;
+      if (member_id) {
+        target = members.find((m) => m.id === member_id);
+      } else {
+        const payer = await resolvePayer(supabase, member);
+        if ("error" in payer) return bad(`upsert_reminder_prefs: ${payer.error}`);
+        target = members.find((m) => m.name === payer.name);
+      }
+      if (!target) return bad("upsert_reminder_prefs: member not found.", 404);
+
+      const patch: Record<string, unknown> = { member_id: target.id };
+      if (email !== undefined) patch.email = email?.trim() || null;
+      if (webhook_url !== undefined) patch.webhook_url = webhook_url?.trim() || null;
+      if (window_days !== undefined) patch.window_days = window_days;
+      if (enabled !== undefined) patch.enabled = enabled;
+
+      const { data, error } = await supabase
+        .from("loan_tracker_reminder_prefs")
+        .upsert(patch, { onConflict: "member_id" })
+        .select(`${REMINDER_PREF_COLUMNS},member:loan_tracker_members(id,name)`)
+        .single();
+
+      if (error) throw error;
+      return ok(data);
+    }
+
+    // SEND REMINDERS (digest of loans due within each member's window, plus anything past due)
+    // Each member gets at most one digest a day (force overrides), so it is safe to run from cron.
+    if (action === "send_reminders") {
+      const { window_days, member, dry_run = false, force = false } = body as {
+        window_days?: number;
+        member?: string;
+        dry_run?: boolean;
+        force?: boolean;
+      };
+
+      if (window_days !== undefined && (!Number.isInteger(window_days) || window_days < 0 || window_days > 60)) {
+        return bad("send_reminders 'window_days' must be a whole number from 0 to 60.");
+      }
+
+      const today = new Date().toISOString().slice(0, 10);
+
+      let prefsQuery = supabase
+        .from("loan_tracker_reminder_prefs")
+        .select(`${REMINDER_PREF_COLUMNS},member:loan_tracker_members(id,name)`)
+        .eq("enabled", true);
+      if (member !== undefined) {
+        const payer = await resolvePayer(supabase, member);
+        if ("error" in payer) return bad(`send_reminders: ${payer.error}`);
+        const target = (await loadMembers(supabase)).find((m) => m.name === payer.name)!;
+        prefsQuery = prefsQuery.eq("member_id", target.id);
+      }
+      const { data: prefs, error: prefErr } = await prefsQuery;
+      if (prefErr) throw prefErr;
+
+      const { data: loans, error: lErr } = await supabase
+        .from("loan_tracker_loans")
+        .select("id,name,currency,loan_date,term_months,estimated_monthly_payment,current_balance")
+        .is("archived_at", null);
+      if (lErr) throw lErr;
+
+      const { data: payments, error: pErr } = await supabase
+        .from("loan_tracker_payments")
+        .select("loan_id,amount");
+      if (pErr) throw pErr;
+
+      const { data: autopay, error: aErr } = await supabase
+        .from("loan_tracker_autopay_rules")
+        .select("loan_id")
+        .eq("active", true);
+      if (aErr) throw aErr;
+
+      const paidByLoan: Record<string, number> = {};
+      for (const p of payments ?? []) paidByLoan[p.loan_id] = (paidByLoan[p.loan_id] ?? 0) + Number(p.amount);
+      const onAutopay = new Set((autopay ?? []).map((r: { loan_id: string }) => r.loan_id));
+
+      const items: DigestItem[] = [];
+      for (const l of loans ?? []) {
+        const due = loanDueStatus(l, paidByLoan[l.id] ?? 0, today);
+        if (due) items.push({ loan_id: l.id, loan_name: l.name, currency: l.currency, ...due });
+      }
+      items.sort((a, b) => a.due_date.localeCompare(b.due_date));
+
+      const channels = reminderChannels((key) => Deno.env.get(key));
+      const sent: Record<string, unknown>[] = [];
+      const skipped: Record<string, unknown>[] = [];
+
+      for (const pref of prefs ?? []) {
+        const recipient: ReminderRecipient = {
+          member_id: pref.member_id,
+          name: pref.member?.name ?? "there",
+          email: pref.email,
+          webhook_url: pref.webhook_url,
+        };
+        const windowDays = window_days ?? pref.window_days;
+        const horizon = new Date(Date.parse(today) + windowDays * 86_400_000).toISOString().slice(0, 10);
+
+        // Autopay handles upcoming installments on its own; past-due ones are always worth a nudge
+        const overdue = items.filter((i) => i.days_past_due > 0);
+        const upcoming = items.filter((i) => i.days_past_due === 0 && !onAutopay.has(i.loan_id) && i.due_date <= horizon);
+        const digest = {
+          member: recipient.name,
+          generated_on: today,
+          window_days: windowDays,
+          overdue,
+          upcoming,
+          total_due: dueByCurrency([...overdue, ...upcoming]),
+        };
+
+        const usable = channels.filter((c) => c.accepts(recipient));
+        if (digest.overdue.length + digest.upcoming.length === 0) {
+          skipped.push({ member: recipient.name, reason: "nothing due" });
+          continue;
+        }
+        if (usable.length === 0) {
+          skipped.push({ member: recipient.name, reason: "no channel configured (set email and SMTP_HOST, or webhook_url)" });
+          continue;
+        }
+        if (pref.last_sent_date === today && !force) {
+          skipped.push({ member: recipient.name, reason: "already sent today" });
+          continue;
+        }
+        if (dry_run) {
+          sent.push({ member: recipient.name, channels: usable.map((c) => ({ channel: c.name })), digest });
+          continue;
+        }
+
+        const results: { channel: string; ok: boolean; error?: string }[] = [];
+        for (const channel of usable) {
+          try {
+            await channel.send(recipient, digest);
+            results.push({ channel: channel.name, ok: true });
+          } catch (e) {
+            results.push({ channel: channel.name, ok: false, error: e instanceof Error ? e.message : String(e) });
+          }
+        }
+
+        // A digest that reached no one is retried on the next run
+        if (results.some((r) => r.ok)) {
+          const { error: upErr } = await supabase
+            .from("loan_tracker_reminder_prefs")
+            .update({ last_sent_date: today })
+            .eq("member_id", pref.member_id);
+          if (upErr) throw upErr;
+        }
+        sent.push({ member: recipient.name, channels: results, digest });
+      }
+
+      return ok({ generated_on: today, dry_run, sent, skipped });
+    }
+
+    // RESOLVE CREDIT (the excess of an overpayment was paid back to the payer)
+    if (action === "resolve_credit") {
+      const { credit_id, refunded_date } = body as { credit_id?: string; refunded_date?: string };
+
+      if (!credit_id) return bad("resolve_credit requires credit_id.");
+      if (refunded_date !== undefined && !isISODate(refunded_date)) {
+        return bad("resolve_credit 'refunded_date' must be YYYY-MM-DD.");
+      }
+
+      const { data, error } = await supabase
+        .from("loan_tracker_credits")
+        .update({ status: "refunded", refunded_date: refunded_date ?? new Date().toISOString().slice(0, 10) })
+        .eq("id", credit_id)
+        .eq("status", "open")
+        .select(`${CREDIT_COLUMNS},loan:loan_tracker_loans(id,name,currency)`)
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) return bad("resolve_credit: no open credit with that id.", 404);
+
+      return ok(data);
+    }
+
+    // GET EXCHANGE RATES (oldest first; clients pick the latest one effective on a date)
+    if (action === "get_exchange_rates") {
+      const { currency } = body as { currency?: string };
+
+      let query = supabase
+        .from("loan_tracker_exchange_rates")
+        .select(EXCHANGE_RATE_COLUMNS)
+        .order("effective_date", { ascending: true });
+      if (currency !== undefined) {
+        const code = normalizeCurrency(currency);
+        if (!code) return bad("get_exchange_rates 'currency' must be a three-letter ISO 4217 code.");
+        query = query.or(`currency.eq.${code},base_currency.eq.${code}`);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return ok(data ?? []);
+    }
+
+    // UPSERT EXCHANGE RATE (one row per pair and effective_date; a second call replaces the rate)
+    if (action === "upsert_exchange_rate") {
+      const { currency, base_currency = "USD", rate, effective_date } = body as {
+        currency?: string;
+        base_currency?: string;
+        rate?: number;
+        effective_date?: string;
+      };
+
+      const code = normalizeCurrency(currency);
+      const baseCode = normalizeCurrency(base_currency);
+      if (!code || !baseCode) {
+        return bad("upsert_exchange_rate requires 'currency' (and optional 'base_currency') as three-letter ISO 4217 codes.");
+      }
+      if (code === baseCode) return bad("upsert_exchange_rate: 'currency' and 'base_currency' must differ.");
+      if (typeof rate !== "number" || !(rate > 0)) {
+        return bad("upsert_exchange_rate requires a positive 'rate' (1 currency = rate base_currency).");
+      }
+      if (effective_date !== undefined && !isISODate(effective_date)) {
+        return bad("upsert_exchange_rate 'effective_date' must be YYYY-MM-DD.");
+      }
+
+      const { data, error } = await supabase
+        .from("loan_tracker_exchange_rates")
+        .upsert(
+          {
+            currency: code,
+            base_currency: baseCode,
+            rate,
+            effective_date: effective_date ?? new Date().toISOString().slice(0, 10),
+          },
+          { onConflict: "currency,base_currency,effective_date" },
+        )
+        .select(EXCHANGE_RATE_COLUMNS)
+        .single();
+      if (error) throw error;
+
+      return ok(data);
+    }
+
+    // IMPORT HISTORY (back-fill from a bank export: new loans + payments in one transaction)
+    if (action === "import_history") {
+      const { loans = [], payments = [], dry_run = false } = body as {
+        loans?: (NewLoanInput & { ref?: string })[];
+        payments?: ImportPaymentInput[];
+        dry_run?: boolean;
+      };
+
+      if (!Array.isArray(loans) || !Array.isArray(payments) || loans.length + payments.length === 0) {
+        return bad("import_history requires a non-empty 'loans' and/or 'payments' list.");
+      }
+
+      // Everything is checked before anything is written: one bad row rejects the batch
+      const errors: string[] = [];
+      const refs = new Map<string, string>(); // loan_ref → name of the loan to create
+      const newLoans: { ref: string; lender?: string; row: Record<string, unknown> }[] = [];
+      for (const [i, l] of loans.entries()) {
+        const label = `loan ${l.ref ?? i + 1}`;
+        if (typeof l.ref !== "string" || !l.ref || refs.has(l.ref)) {
+          errors.push(`${label} needs a unique 'ref'.`);
+          continue;
+        }
+        const checked = validateNewLoan(l, label);
+        if (checked.error !== undefined) {
+          errors.push(checked.error);
+          continue;
+        }
+        if (await resolveLoanIdByName(supabase, checked.row.name)) {
+          errors.push(`${label}: a loan named '${checked.row.name}' already exists.`);
+          continue;
+        }
+        refs.set(l.ref, checked.row.name);
+        newLoans.push({ ref: l.ref, lender: checked.lender, row: checked.row });
+      }
+
+      const payers = new Map<string, Awaited<ReturnType<typeof resolvePayer>>>();
+      const entries: {
+        row: number;
+        loan_id: string | null;
+        loan_ref: string | null;
+        amount: number;
+        paid_by: string;
+        payment_date: string;
+        allow_duplicate: boolean;
+      }[] = [];
+      for (const [i, p] of payments.entries()) {
+        const label = `row ${p.row ?? i + 1}`;
+        if (typeof p.amount !== "number" || p.amount <= 0) {
+          errors.push(`${label}: 'amount' must be a positive number.`);
+          continue;
+        }
+        if (!isISODate(p.payment_date)) {
+          errors.push(`${label}: 'payment_date' must be YYYY-MM-DD.`);
+          continue;
+        }
+        let loanId: string | null = null;
+        if (p.loan_ref !== undefined) {
+          if (!refs.has(p.loan_ref)) {
+            errors.push(`${label}: loan_ref '${p.loan_ref}' is not one of the loans being imported.`);
+            continue;
+          }
+        } else {
+          loanId = p.loan_id ?? (p.loan_name ? await resolveLoanIdByName(supabase, p.loan_name) : null);
+          if (!loanId) {
+            errors.push(`${label}: needs loan_id, a valid loan_name or loan_ref.`);
+            continue;
+          }
+        }
+        const key = (p.paid_by ?? "").trim().toLowerCase();
+        if (!payers.has(key)) payers.set(key, await resolvePayer(supabase, p.paid_by));
+        const payer = payers.get(key)!;
+        if ("error" in payer) {
+          errors.push(`${label}: ${payer.error}`);
+          continue;
+        }
+        entries.push({
+          row: p.row ?? i + 1,
+          loan_id: loanId,
+          loan_ref: loanId ? null : p.loan_ref!,
+          amount: round2(p.amount),
+          paid_by: payer.name,
+          payment_date: p.payment_date,
+          allow_duplicate: p.allow_duplicate === true,
+        });
+      }
+
+      // Existing loans named by id must exist; their names and payments feed the summary and duplicate check
+      const loanIds = [...new Set(entries.flatMap((e) => e.loan_id ? [e.loan_id] : []))];
+      const loanNames = new Map<string, string>();
+      const recorded: { loan_id: string; amount: number; payment_date: string }[] = [];
+      if (loanIds.length) {
+        const { data: existing, error: lErr } = await supabase
+          .from("loan_tracker_loans")
+          .select("id,name")
+          .in("id", loanIds);
+        if (lErr) throw lErr;
+        for (const l of existing ?? []) loanNames.set(l.id, l.name);
+        for (const e of entries) {
+          if (e.loan_id && !loanNames.has(e.loan_id)) errors.push(`row ${e.row}: loan ${e.loan_id} not found.`);
+        }
+
+        const { data: prior, error: pErr } = await supabase
+          .from("loan_tracker_payments")
+          .select("loan_id,amount,payment_date")
+          .in("loan_id", loanIds);
+        if (pErr) throw pErr;
+        for (const p of prior ?? []) recorded.push({ loan_id: p.loan_id, amount: Number(p.amount), payment_date: p.payment_date });
+      }
+
+      if (errors.length) {
+        const more = errors.length > 5 ? ` (+${errors.length - 5} more)` : "";
+        return bad(`import_history: ${errors.slice(0, 5).join(" ")}${more}`);
+      }
+
+      // Same loan and amount as a recorded payment (or an earlier row) within DUPLICATE_WINDOW_DAYS,
+      // as add_payment checks, is most likely the same payment exported twice (posting dates shift
+      // between exports); it is skipped unless the row says allow_duplicate
+      const accepted: (typeof entries[number] & { loan_name: string })[] = [];
+      const skipped: Record<string, unknown>[] = [];
+      const seen: { loan_id: string; amount: number; payment_date: string }[] = [];
+      for (const e of entries) {
+        const loan_name = e.loan_id ? loanNames.get(e.loan_id)! : refs.get(e.loan_ref!)!;
+        const payment = { loan_id: e.loan_id ?? `ref:${e.loan_ref}`, amount: e.amount, payment_date: e.payment_date };
+        if (!e.allow_duplicate && recorded.some((p) => isPossibleDuplicate(p, payment))) {
+          skipped.push({ ...e, loan_name, reason: "possible duplicate of a recorded payment" });
+          continue;
+        }
+        if (!e.allow_duplicate && seen.some((p) => isPossibleDuplicate(p, payment))) {
+          skipped.push({ ...e, loan_name, reason: "repeats an earlier row of this import" });
+          continue;
+        }
+        seen.push(payment);
+        accepted.push({ ...e, loan_name });
+      }
+      accepted.sort((a, b) => a.payment_date.localeCompare(b.payment_date)); // the order the RPC applies them
+
+      if (dry_run) {
+        return ok({ dry_run, created: newLoans.map((l) => ({ ref: l.ref, ...l.row })), recorded: accepted, skipped });
+      }
+
+      const p_loans = [];
+      for (const l of newLoans) {
+        const lender_id = l.lender ? await resolveLenderId(supabase, l.lender, true) : null;
+        p_loans.push({ ref: l.ref, ...l.row, lender_id });
+      }
+      const { data: imported, error: rpcErr } = await supabase.rpc("import_loan_history", {
+        p_loans,
+        p_payments: accepted.map(({ loan_id, loan_ref, amount, paid_by, payment_date }) => ({
+          loan_id,
+          loan_ref,
+          amount,
+          paid_by,
+          payment_date,
+        })),
+      });
+      if (rpcErr) throw rpcErr;
+
+      const result = imported as {
+        loans: Record<string, unknown>[];
+        payments: { payment: Record<string, unknown>; loan: Record<string, unknown>; credit: Record<string, unknown> | null }[];
+      };
+      return ok({
+        dry_run,
+        created: result.loans.map((row, i) => ({ ref: newLoans[i].ref, ...row })),
+        recorded: accepted.map((e, i) => ({ ...e, ...result.payments[i] })),
+        skipped,
+      });
     }
 
     return bad(`Unknown action: ${action}`, 400);
@@ -0,0 +1,165 @@
+// supabase/functions/loan-manager/notifications.ts
+// Delivery channels for the send_reminders action.
+//
+// A channel decides whether it can reach a member (accepts) and delivers one digest (send).
+// To add one, implement ReminderChannel and return it from reminderChannels().
+//
+// Env (all optional; a channel without its config is simply not offered):
+//   SMTP_HOST, SMTP_PORT (default 587), SMTP_USER, SMTP_PASS, SMTP_FROM, SMTP_TLS ("true" for implicit TLS)
+//   REMINDER_WEBHOOK_SECRET   – signs webhook bodies (X-Loan-Tracker-Signature: sha256=<hex>)
+
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export type DigestItem = {
+  loan_id: string;
+  loan_name: string;
+  currency: string;       // the loan's ISO 4217 code
+  due_date: string;       // oldest unpaid installment (YYYY-MM-DD)
+  amount_due: number;
+  days_past_due: number;  // 0 when not yet late
+  missed_periods: number;
+};
+
+export type ReminderDigest = {
+  member: string;
+  generated_on: string;   // YYYY-MM-DD
+  window_days: number;
+  overdue: DigestItem[];
+  upcoming: DigestItem[]; // due within window_days; loans on autopay are left out
+  total_due: Record<string, number>; // per currency, e.g. { USD: 120, EUR: 45.5 }
+};
+
+export type ReminderRecipient = {
+  member_id: string;
+  name: string;
+  email: string | null;
+  webhook_url: string | null;
+};
+
+export interface ReminderChannel {
+  name: string;
+  accepts(recipient: ReminderRecipient): boolean;
+  send(recipient: ReminderRecipient, digest: ReminderDigest): Promise<void>;
+}
+
+export function money(n: number, currency: string) {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(n);
+}
+
+/** Amounts due added up per currency (loans in different currencies are never summed) */
+export function dueByCurrency(items: DigestItem[]) {
+  const totals: Record<string, number> = {};
+  for (const i of items) totals[i.currency] = Math.round(((totals[i.currency] ?? 0) + i.amount_due) * 100) / 100;
+  return totals;
+}
+
+/** Plain-text and HTML bodies shared by every channel */
+export function renderDigest(digest: ReminderDigest) {
+  const parts: string[] = [];
+  if (digest.overdue.length) parts.push(`${digest.overdue.length} past due`);
+  if (digest.upcoming.length) parts.push(`${digest.upcoming.length} due soon`);
+  const subject = `Loan reminders: ${parts.join(", ")}`;
+
+  const line = (i: DigestItem) =>
+    i.days_past_due > 0
+      ? `${i.loan_name}: ${money(i.amount_due, i.currency)} past due since ${i.due_date} (${i.days_past_due} days late)`
+      : `${i.loan_name}: ${money(i.amount_due, i.currency)} due ${i.due_date}`;
+  const sections = [
+    digest.overdue.length ? ["Past due:", ...digest.overdue.map((i) => `• ${line(i)}`)].join("\n") : "",
+    digest.upcoming.length
+      ? [`Due in the next ${digest.window_days} days:`, ...digest.upcoming.map((i) => `• ${line(i)}`)].join("\n")
+      : "",
+  ].filter(Boolean);
+
+  const total = Object.entries(digest.total_due).map(([currency, n]) => money(n, currency)).join(" + ");
+  const text = [`Hi ${digest.member},`, ...sections, `Total: ${total}`].join("\n\n");
+  const escape = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  const html = text
+    .split("\n\n")
+    .map((block) => `<p>${block.split("\n").map(escape).join("<br>")}</p>`)
+    .join("\n");
+
+  return { subject, text, html };
+}
+
+export type SmtpConfig = {
+  hostname: string;
+  port: number;
+  username?: string;
+  password?: string;
+  from: string;
+  tls: boolean; // implicit TLS (465); otherwise plain, upgraded with STARTTLS when offered
+};
+
+export function smtpChannel(config: SmtpConfig): ReminderChannel {
+  return {
+    name: "email",
+    accepts: (r) => !!r.email,
+    async send(recipient, digest) {
+      const client = new SMTPClient({
+        connection: {
+          hostname: config.hostname,
+          port: config.port,
+          tls: config.tls,
+          auth: config.username ? { username: config.username, password: config.password ?? "" } : undefined,
+        },
+        // Local sinks (Inbucket / Mailpit) speak plain SMTP without auth
+        debug: config.username ? undefined : { allowUnsecure: true, noStartTLS: true },
+      });
+      const { subject, text, html } = renderDigest(digest);
+      try {
+        await client.send({ from: config.from, to: recipient.email!, subject, content: text, html });
+      } finally {
+        await client.close();
+      }
+    },
+  };
+}
+
+async function hmacHex(secret: string, body: string) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const sig = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(body));
+  return [...new Uint8Array(sig)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** POSTs the digest as JSON; `text` makes it readable by chat webhooks (Slack, Discord relays, ntfy) */
+export function webhookChannel(secret?: string): ReminderChannel {
+  return {
+    name: "webhook",
+    accepts: (r) => !!r.webhook_url,
+    async send(recipient, digest) {
+      const body = JSON.stringify({ event: "loan_reminders.digest", ...digest, text: renderDigest(digest).text });
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (secret) headers["X-Loan-Tracker-Signature"] = `sha256=${await hmacHex(secret, body)}`;
+
+      const res = await fetch(recipient.webhook_url!, { method: "POST", headers, body });
+      if (!res.ok) throw new Error(`webhook responded ${res.status} ${res.statusText}`);
+    },
+  };
+}
+
+/** Channels available with the current environment */
+export function reminderChannels(env: (key: string) => string | undefined): ReminderChannel[] {
+  const channels: ReminderChannel[] = [];
+
+  const host = env("SMTP_HOST");
+  if (host) {
+    channels.push(smtpChannel({
+      hostname: host,
+      port: Number(env("SMTP_PORT") ?? 587),
+      username: env("SMTP_USER") || undefined,
+      password: env("SMTP_PASS") || undefined,
+      from: env("SMTP_FROM") ?? "Loan Tracker <reminders@localhost>",
+      tls: env("SMTP_TLS") === "true",
+    }));
+  }
+  channels.push(webhookChannel(env("REMINDER_WEBHOOK_SECRET") || undefined));
+
+  return channels;
+}
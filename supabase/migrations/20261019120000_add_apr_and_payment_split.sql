@@ -0,0 +1,52 @@
+-- Interest-bearing loans: APR on loans, amortized estimated_monthly_payment,
+-- and a principal/interest split on every payment.
+
+-- 1) APR as an annual percentage (6.9 = 6.9%). Existing loans stay interest-free.
+ALTER TABLE loan_tracker_loans
+  ADD COLUMN IF NOT EXISTS apr numeric(6,3) NOT NULL DEFAULT 0;
+
+ALTER TABLE loan_tracker_loans
+  DROP CONSTRAINT IF EXISTS loan_tracker_loans_apr_check;
+ALTER TABLE loan_tracker_loans
+  ADD CONSTRAINT loan_tracker_loans_apr_check CHECK (apr >= 0 AND apr < 100);
+
+-- 2) Payment split. Historical rows were applied fully to principal.
+ALTER TABLE loan_tracker_payments
+  ADD COLUMN IF NOT EXISTS principal_amount numeric(12,2),
+  ADD COLUMN IF NOT EXISTS interest_amount numeric(12,2) NOT NULL DEFAULT 0;
+
+UPDATE loan_tracker_payments
+SET principal_amount = amount
+WHERE principal_amount IS NULL;
+
+-- 3) Fixed-rate amortized payment: P*r / (1 - (1 + r)^-n), r = apr / 12.
+--    Mirrors amortizedMonthlyPayment() in src/index.ts.
+CREATE OR REPLACE FUNCTION amortized_monthly_payment(p_principal numeric, p_apr numeric, p_term_months integer)
+RETURNS numeric AS $$
+DECLARE
+  r numeric := COALESCE(p_apr, 0) / 100 / 12;
+  n integer := GREATEST(p_term_months, 1);
+BEGIN
+  IF r <= 0 THEN
+    RETURN round(p_principal / n, 2);
+  END IF;
+  RETURN round(p_principal * r / (1 - power(1 + r, -n)), 2);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- 4) Trigger now sets the amortized estimate on INSERT (still immutable on UPDATE)
+CREATE OR REPLACE FUNCTION manage_estimated_monthly_payment()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.estimated_monthly_payment IS NULL THEN
+      NEW.estimated_monthly_payment := amortized_monthly_payment(NEW.original_amount, NEW.apr, NEW.term_months);
+    END IF;
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF NEW.estimated_monthly_payment IS DISTINCT FROM OLD.estimated_monthly_payment THEN
+      RAISE EXCEPTION 'estimated_monthly_payment is immutable';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
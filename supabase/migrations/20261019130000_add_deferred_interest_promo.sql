@@ -0,0 +1,15 @@
+-- Deferred-interest promotional financing ("no interest if paid in full within N months").
+-- If a balance remains after promo_end_date, the lender charges deferred_apr back to loan_date.
+
+ALTER TABLE loan_tracker_loans
+  ADD COLUMN IF NOT EXISTS promo_end_date date,
+  ADD COLUMN IF NOT EXISTS deferred_apr numeric(6,3);
+
+ALTER TABLE loan_tracker_loans
+  DROP CONSTRAINT IF EXISTS loan_tracker_loans_promo_check;
+ALTER TABLE loan_tracker_loans
+  ADD CONSTRAINT loan_tracker_loans_promo_check CHECK (
+    (deferred_apr IS NULL OR (deferred_apr >= 0 AND deferred_apr < 100))
+    AND (deferred_apr IS NULL OR promo_end_date IS NOT NULL)
+    AND (promo_end_date IS NULL OR promo_end_date > loan_date)
+  );
@@ -0,0 +1,31 @@
+-- Ledger-derived balances.
+-- current_balance is a cached value; the source of truth is
+--   original_amount - sum(payments.principal_amount) + sum(adjustments.amount)
+-- reconcile_loans (Edge Function) rewrites current_balance from this view.
+
+-- 1) Manual balance adjustments (fees, charged-back interest, lender corrections).
+--    Positive amounts increase the balance, negative amounts reduce it.
+CREATE TABLE IF NOT EXISTS loan_tracker_adjustments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  loan_id uuid NOT NULL REFERENCES loan_tracker_loans(id) ON DELETE CASCADE,
+  amount numeric(12,2) NOT NULL CHECK (amount <> 0),
+  reason text NOT NULL,
+  adjustment_date date NOT NULL DEFAULT CURRENT_DATE,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS loan_tracker_adjustments_loan_id_idx
+  ON loan_tracker_adjustments (loan_id);
+
+-- 2) Stored vs. derived balance per loan
+CREATE OR REPLACE VIEW loan_tracker_ledger_balances AS
+SELECT
+  l.id AS loan_id,
+  l.current_balance AS stored_balance,
+  GREATEST(
+    0,
+    l.original_amount
+      - COALESCE((SELECT sum(COALESCE(p.principal_amount, p.amount)) FROM loan_tracker_payments p WHERE p.loan_id = l.id), 0)
+      + COALESCE((SELECT sum(a.amount) FROM loan_tracker_adjustments a WHERE a.loan_id = l.id), 0)
+  )::numeric(12,2) AS derived_balance
+FROM loan_tracker_loans l;
@@ -0,0 +1,55 @@
+-- Atomic payment recording.
+-- Inserting the payment and moving current_balance used to be two round trips
+-- (insert, then decrement_loan_balance with a read+update fallback). A failure in
+-- between left a payment whose balance never moved, and concurrent payments raced.
+-- record_loan_payment does both in one transaction, holding a row lock on the loan.
+
+CREATE OR REPLACE FUNCTION record_loan_payment(
+  p_loan_id uuid,
+  p_amount numeric,
+  p_paid_by text,
+  p_payment_date date
+) RETURNS json AS $$
+DECLARE
+  v_loan loan_tracker_loans%ROWTYPE;
+  v_payment loan_tracker_payments%ROWTYPE;
+  v_since date;
+  v_interest numeric(12,2) := 0;
+  v_principal numeric(12,2);
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'amount must be positive';
+  END IF;
+
+  -- Serialize payments on the same loan
+  SELECT * INTO v_loan FROM loan_tracker_loans WHERE id = p_loan_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'loan % not found', p_loan_id;
+  END IF;
+
+  -- Interest accrues simply (APR / 365 per day) since the previous payment or loan_date
+  IF COALESCE(v_loan.apr, 0) > 0 THEN
+    SELECT max(payment_date) INTO v_since
+    FROM loan_tracker_payments
+    WHERE loan_id = p_loan_id AND payment_date <= p_payment_date;
+
+    v_since := COALESCE(v_since, v_loan.loan_date);
+    v_interest := LEAST(
+      p_amount,
+      round(v_loan.current_balance * (v_loan.apr / 100 / 365) * GREATEST(0, p_payment_date - v_since), 2)
+    );
+  END IF;
+  v_principal := p_amount - v_interest;
+
+  INSERT INTO loan_tracker_payments (loan_id, amount, paid_by, payment_date, principal_amount, interest_amount)
+  VALUES (p_loan_id, p_amount, p_paid_by, p_payment_date, v_principal, v_interest)
+  RETURNING * INTO v_payment;
+
+  UPDATE loan_tracker_loans
+  SET current_balance = GREATEST(0, current_balance - v_principal)
+  WHERE id = p_loan_id
+  RETURNING * INTO v_loan;
+
+  RETURN json_build_object('payment', row_to_json(v_payment), 'loan', row_to_json(v_loan));
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,11 @@
+-- Soft delete for loans.
+-- delete_loan / archive_loan set archived_at; restore_loan clears it.
+-- get_loans hides archived loans unless include_archived is set.
+-- purge_loan is the only hard delete (payments/adjustments cascade).
+
+ALTER TABLE loan_tracker_loans
+  ADD COLUMN IF NOT EXISTS archived_at timestamp with time zone;
+
+CREATE INDEX IF NOT EXISTS loan_tracker_loans_active_idx
+  ON loan_tracker_loans (created_at DESC)
+  WHERE archived_at IS NULL;
@@ -0,0 +1,23 @@
+-- Lenders as first-class entities.
+-- create_loan / update_loan take a lender name and find-or-create the row here.
+
+-- 1) Lenders (names are unique case-insensitively)
+CREATE TABLE IF NOT EXISTS loan_tracker_lenders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  website text,
+  phone text,
+  account_last4 text CHECK (account_last4 ~ '^[0-9]{4}$'),
+  notes text,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS loan_tracker_lenders_name_key
+  ON loan_tracker_lenders (lower(name));
+
+-- 2) Loans link to a lender; deleting a lender just unlinks its loans
+ALTER TABLE loan_tracker_loans
+  ADD COLUMN IF NOT EXISTS lender_id uuid REFERENCES loan_tracker_lenders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS loan_tracker_loans_lender_id_idx
+  ON loan_tracker_loans (lender_id);
@@ -0,0 +1,36 @@
+-- Household members: the people who can make payments.
+-- loan_tracker_payments.paid_by stores the member's name; the Edge Function
+-- rejects names that are not members. "I" / "me" / an omitted payer map to the
+-- default member.
+
+-- 1) Members (names are unique case-insensitively; at most one default)
+CREATE TABLE IF NOT EXISTS loan_tracker_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  color text CHECK (color ~ '^#[0-9a-fA-F]{6}$'), -- chart/avatar color; the UI picks one when null
+  is_default boolean NOT NULL DEFAULT false,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS loan_tracker_members_name_key
+  ON loan_tracker_members (lower(name));
+
+CREATE UNIQUE INDEX IF NOT EXISTS loan_tracker_members_one_default
+  ON loan_tracker_members (is_default)
+  WHERE is_default;
+
+-- 2) Seed the payers that were previously hardcoded (Steven was the fallback payer)
+INSERT INTO loan_tracker_members (name, color, is_default, sort_order)
+VALUES
+  ('Steven', '#3b82f6', true, 0),
+  ('Katerina', '#8b5cf6', false, 1)
+ON CONFLICT DO NOTHING;
+
+-- 3) ...and anyone else already recorded on a payment
+INSERT INTO loan_tracker_members (name, sort_order)
+SELECT DISTINCT ON (lower(p.paid_by)) p.paid_by, 100
+FROM loan_tracker_payments p
+WHERE NOT EXISTS (SELECT 1 FROM loan_tracker_members m WHERE lower(m.name) = lower(p.paid_by))
+ORDER BY lower(p.paid_by), p.paid_by
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,98 @@
+-- Split payments: one real-world payment shared by several people and/or loans.
+-- Each part is an ordinary loan_tracker_payments row; the parts share a split_group_id.
+
+-- 1) Link column
+ALTER TABLE loan_tracker_payments
+  ADD COLUMN IF NOT EXISTS split_group_id uuid;
+
+CREATE INDEX IF NOT EXISTS loan_tracker_payments_split_group_id_idx
+  ON loan_tracker_payments (split_group_id)
+  WHERE split_group_id IS NOT NULL;
+
+-- 2) record_loan_payment can tag the row with a split group
+DROP FUNCTION IF EXISTS record_loan_payment(uuid, numeric, text, date);
+
+CREATE OR REPLACE FUNCTION record_loan_payment(
+  p_loan_id uuid,
+  p_amount numeric,
+  p_paid_by text,
+  p_payment_date date,
+  p_split_group_id uuid DEFAULT NULL
+) RETURNS json AS $$
+DECLARE
+  v_loan loan_tracker_loans%ROWTYPE;
+  v_payment loan_tracker_payments%ROWTYPE;
+  v_since date;
+  v_interest numeric(12,2) := 0;
+  v_principal numeric(12,2);
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'amount must be positive';
+  END IF;
+
+  -- Serialize payments on the same loan
+  SELECT * INTO v_loan FROM loan_tracker_loans WHERE id = p_loan_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'loan % not found', p_loan_id;
+  END IF;
+
+  -- Interest accrues simply (APR / 365 per day) since the previous payment or loan_date.
+  -- Later parts of a split on the same loan and day see zero days, so interest is charged once.
+  IF COALESCE(v_loan.apr, 0) > 0 THEN
+    SELECT max(payment_date) INTO v_since
+    FROM loan_tracker_payments
+    WHERE loan_id = p_loan_id AND payment_date <= p_payment_date;
+
+    v_since := COALESCE(v_since, v_loan.loan_date);
+    v_interest := LEAST(
+      p_amount,
+      round(v_loan.current_balance * (v_loan.apr / 100 / 365) * GREATEST(0, p_payment_date - v_since), 2)
+    );
+  END IF;
+  v_principal := p_amount - v_interest;
+
+  INSERT INTO loan_tracker_payments (loan_id, amount, paid_by, payment_date, principal_amount, interest_amount, split_group_id)
+  VALUES (p_loan_id, p_amount, p_paid_by, p_payment_date, v_principal, v_interest, p_split_group_id)
+  RETURNING * INTO v_payment;
+
+  UPDATE loan_tracker_loans
+  SET current_balance = GREATEST(0, current_balance - v_principal)
+  WHERE id = p_loan_id
+  RETURNING * INTO v_loan;
+
+  RETURN json_build_object('payment', row_to_json(v_payment), 'loan', row_to_json(v_loan));
+END;
+$$ LANGUAGE plpgsql;
+
+-- 3) All parts in one transaction: either every row is recorded or none is.
+--    p_parts: [{ "loan_id": uuid, "amount": number, "paid_by": text }, ...]
+--    Parts are applied in loan_id order so concurrent splits lock loans consistently.
+CREATE OR REPLACE FUNCTION record_split_payment(
+  p_parts jsonb,
+  p_payment_date date
+) RETURNS json AS $$
+DECLARE
+  v_group uuid := gen_random_uuid();
+  v_part jsonb;
+  v_parts json[] := '{}';
+BEGIN
+  IF jsonb_typeof(p_parts) <> 'array' OR jsonb_array_length(p_parts) < 2 THEN
+    RAISE EXCEPTION 'a split payment needs at least two parts';
+  END IF;
+
+  FOR v_part IN
+    SELECT value FROM jsonb_array_elements(p_parts) WITH ORDINALITY AS t(value, ord)
+    ORDER BY value->>'loan_id', ord
+  LOOP
+    v_parts := v_parts || record_loan_payment(
+      (v_part->>'loan_id')::uuid,
+      (v_part->>'amount')::numeric,
+      v_part->>'paid_by',
+      p_payment_date,
+      v_group
+    );
+  END LOOP;
+
+  RETURN json_build_object('split_group_id', v_group, 'parts', array_to_json(v_parts));
+END;
+$$ LANGUAGE plpgsql;
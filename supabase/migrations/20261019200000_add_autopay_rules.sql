@@ -0,0 +1,91 @@
+-- Autopay: recurring payment rules per loan.
+-- The loan-manager action run_scheduled_payments turns every due occurrence into an
+-- ordinary payment through record_loan_payment, tagged with the rule that produced it.
+-- Running it twice for the same day records nothing new.
+
+-- 1) Rules (one per loan and payer; paid_by is a household member's name)
+CREATE TABLE IF NOT EXISTS loan_tracker_autopay_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  loan_id uuid NOT NULL REFERENCES loan_tracker_loans(id) ON DELETE CASCADE,
+  amount numeric(12,2) NOT NULL CHECK (amount > 0),
+  paid_by text NOT NULL,
+  cadence text NOT NULL DEFAULT 'monthly' CHECK (cadence IN ('monthly', 'biweekly')),
+  day_of_month smallint CHECK (day_of_month BETWEEN 1 AND 31), -- monthly only; 29-31 fall back to the month's last day
+  start_date date NOT NULL DEFAULT current_date,                -- biweekly occurrences are start_date + 14n
+  end_date date,
+  active boolean NOT NULL DEFAULT true,
+  last_run_date date, -- occurrences up to this date have been materialized (or skipped)
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT loan_tracker_autopay_rules_monthly_day CHECK (cadence <> 'monthly' OR day_of_month IS NOT NULL),
+  CONSTRAINT loan_tracker_autopay_rules_dates CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS loan_tracker_autopay_rules_loan_payer_key
+  ON loan_tracker_autopay_rules (loan_id, paid_by);
+
+-- 2) Generated payments point back at their rule; one payment per rule and date
+ALTER TABLE loan_tracker_payments
+  ADD COLUMN IF NOT EXISTS autopay_rule_id uuid REFERENCES loan_tracker_autopay_rules(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS loan_tracker_payments_autopay_occurrence_key
+  ON loan_tracker_payments (autopay_rule_id, payment_date)
+  WHERE autopay_rule_id IS NOT NULL;
+
+-- 3) record_loan_payment can tag the row with its autopay rule
+DROP FUNCTION IF EXISTS record_loan_payment(uuid, numeric, text, date, uuid);
+
+CREATE OR REPLACE FUNCTION record_loan_payment(
+  p_loan_id uuid,
+  p_amount numeric,
+  p_paid_by text,
+  p_payment_date date,
+  p_split_group_id uuid DEFAULT NULL,
+  p_autopay_rule_id uuid DEFAULT NULL
+) RETURNS json AS $$
+DECLARE
+  v_loan loan_tracker_loans%ROWTYPE;
+  v_payment loan_tracker_payments%ROWTYPE;
+  v_since date;
+  v_interest numeric(12,2) := 0;
+  v_principal numeric(12,2);
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'amount must be positive';
+  END IF;
+
+  -- Serialize payments on the same loan
+  SELECT * INTO v_loan FROM loan_tracker_loans WHERE id = p_loan_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'loan % not found', p_loan_id;
+  END IF;
+
+  -- Interest accrues simply (APR / 365 per day) since the previous payment or loan_date.
+  -- Later parts of a split on the same loan and day see zero days, so interest is charged once.
+  IF COALESCE(v_loan.apr, 0) > 0 THEN
+    SELECT max(payment_date) INTO v_since
+    FROM loan_tracker_payments
+    WHERE loan_id = p_loan_id AND payment_date <= p_payment_date;
+
+    v_since := COALESCE(v_since, v_loan.loan_date);
+    v_interest := LEAST(
+      p_amount,
+      round(v_loan.current_balance * (v_loan.apr / 100 / 365) * GREATEST(0, p_payment_date - v_since), 2)
+    );
+  END IF;
+  v_principal := p_amount - v_interest;
+
+  -- A second run for the same rule and date fails here (unique index) and rolls back
+  INSERT INTO loan_tracker_payments (
+    loan_id, amount, paid_by, payment_date, principal_amount, interest_amount, split_group_id, autopay_rule_id
+  )
+  VALUES (p_loan_id, p_amount, p_paid_by, p_payment_date, v_principal, v_interest, p_split_group_id, p_autopay_rule_id)
+  RETURNING * INTO v_payment;
+
+  UPDATE loan_tracker_loans
+  SET current_balance = GREATEST(0, current_balance - v_principal)
+  WHERE id = p_loan_id
+  RETURNING * INTO v_loan;
+
+  RETURN json_build_object('payment', row_to_json(v_payment), 'loan', row_to_json(v_loan));
+END;
+$$ LANGUAGE plpgsql;
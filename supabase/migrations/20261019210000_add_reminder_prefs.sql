@@ -0,0 +1,13 @@
+-- Reminder digests: per-member notification preferences for the loan-manager
+-- send_reminders action (loans due within window_days, plus anything past due).
+-- A channel is used when its address is set: email via SMTP, webhook_url via HTTP POST.
+
+CREATE TABLE IF NOT EXISTS loan_tracker_reminder_prefs (
+  member_id uuid PRIMARY KEY REFERENCES loan_tracker_members(id) ON DELETE CASCADE,
+  enabled boolean NOT NULL DEFAULT true,
+  email text CHECK (email ~ '^[^@\s]+@[^@\s]+$'),
+  webhook_url text CHECK (webhook_url ~ '^https?://'),
+  window_days smallint NOT NULL DEFAULT 3 CHECK (window_days BETWEEN 0 AND 60),
+  last_sent_date date, -- one digest per member per day unless send_reminders is forced
+  created_at timestamp with time zone DEFAULT now()
+);
@@ -0,0 +1,109 @@
+-- Overpayments: a payment larger than what is owed no longer vanishes into a zero balance.
+-- record_loan_payment refuses it unless the caller confirms (p_allow_overpayment); the
+-- principal then stops at the balance and the excess is kept as a credit (refund due).
+-- Payment amount = principal_amount + interest_amount + credit amount.
+
+-- 1) Credits (refund due to the payer until marked refunded)
+CREATE TABLE IF NOT EXISTS loan_tracker_credits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  loan_id uuid NOT NULL REFERENCES loan_tracker_loans(id) ON DELETE CASCADE,
+  payment_id uuid REFERENCES loan_tracker_payments(id) ON DELETE CASCADE, -- deleting the payment drops its credit
+  amount numeric(12,2) NOT NULL CHECK (amount > 0),
+  paid_by text NOT NULL,
+  credit_date date NOT NULL DEFAULT current_date,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'refunded')),
+  refunded_date date,
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT loan_tracker_credits_refunded_date CHECK (status <> 'refunded' OR refunded_date IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS loan_tracker_credits_loan_id_idx
+  ON loan_tracker_credits (loan_id);
+
+-- 2) record_loan_payment: refuse or split off the excess
+DROP FUNCTION IF EXISTS record_loan_payment(uuid, numeric, text, date, uuid, uuid);
+
+CREATE OR REPLACE FUNCTION record_loan_payment(
+  p_loan_id uuid,
+  p_amount numeric,
+  p_paid_by text,
+  p_payment_date date,
+  p_split_group_id uuid DEFAULT NULL,
+  p_autopay_rule_id uuid DEFAULT NULL,
+  p_allow_overpayment boolean DEFAULT false
+) RETURNS json AS $$
+DECLARE
+  v_loan loan_tracker_loans%ROWTYPE;
+  v_payment loan_tracker_payments%ROWTYPE;
+  v_credit loan_tracker_credits%ROWTYPE;
+  v_since date;
+  v_interest numeric(12,2) := 0;
+  v_principal numeric(12,2);
+  v_excess numeric(12,2);
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'amount must be positive';
+  END IF;
+
+  -- Serialize payments on the same loan
+  SELECT * INTO v_loan FROM loan_tracker_loans WHERE id = p_loan_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'loan % not found', p_loan_id;
+  END IF;
+
+  -- Interest accrues simply (APR / 365 per day) since the previous payment or loan_date.
+  -- Later parts of a split on the same loan and day see zero days, so interest is charged once.
+  IF COALESCE(v_loan.apr, 0) > 0 THEN
+    SELECT max(payment_date) INTO v_since
+    FROM loan_tracker_payments
+    WHERE loan_id = p_loan_id AND payment_date <= p_payment_date;
+
+    v_since := COALESCE(v_since, v_loan.loan_date);
+    v_interest := LEAST(
+      p_amount,
+      round(v_loan.current_balance * (v_loan.apr / 100 / 365) * GREATEST(0, p_payment_date - v_since), 2)
+    );
+  END IF;
+  v_principal := p_amount - v_interest;
+
+  -- More than is owed: the caller has to confirm, then the excess becomes a credit.
+  -- check_violation (23514) lets the Edge Function answer 409 with the numbers.
+  v_excess := GREATEST(0, v_principal - v_loan.current_balance);
+  IF v_excess > 0 AND NOT p_allow_overpayment THEN
+    RAISE EXCEPTION 'overpayment of % on "%": only % is owed', v_excess, v_loan.name, v_loan.current_balance + v_interest
+      USING ERRCODE = 'check_violation',
+            DETAIL = json_build_object(
+              'loan_id', v_loan.id,
+              'loan_name', v_loan.name,
+              'amount', p_amount,
+              'owed', v_loan.current_balance + v_interest,
+              'excess', v_excess
+            )::text;
+  END IF;
+  v_principal := v_principal - v_excess;
+
+  -- A second run for the same rule and date fails here (unique index) and rolls back
+  INSERT INTO loan_tracker_payments (
+    loan_id, amount, paid_by, payment_date, principal_amount, interest_amount, split_group_id, autopay_rule_id
+  )
+  VALUES (p_loan_id, p_amount, p_paid_by, p_payment_date, v_principal, v_interest, p_split_group_id, p_autopay_rule_id)
+  RETURNING * INTO v_payment;
+
+  IF v_excess > 0 THEN
+    INSERT INTO loan_tracker_credits (loan_id, payment_id, amount, paid_by, credit_date)
+    VALUES (p_loan_id, v_payment.id, v_excess, p_paid_by, p_payment_date)
+    RETURNING * INTO v_credit;
+  END IF;
+
+  UPDATE loan_tracker_loans
+  SET current_balance = GREATEST(0, current_balance - v_principal)
+  WHERE id = p_loan_id
+  RETURNING * INTO v_loan;
+
+  RETURN json_build_object(
+    'payment', row_to_json(v_payment),
+    'loan', row_to_json(v_loan),
+    'credit', CASE WHEN v_excess > 0 THEN row_to_json(v_credit) END
+  );
+END;
+$$ LANGUAGE plpgsql;
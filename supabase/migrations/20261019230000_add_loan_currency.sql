@@ -0,0 +1,18 @@
+-- Per-loan currency. Every amount on a loan (payments, adjustments, credits, autopay) is in
+-- the loan's currency; existing loans are USD.
+ALTER TABLE loan_tracker_loans
+  ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'USD'
+    CHECK (currency ~ '^[A-Z]{3}$');
+
+-- Exchange rates, maintained by hand: 1 currency = rate base_currency from effective_date
+-- until the next row for the same pair. Clients convert totals into the household base currency.
+CREATE TABLE IF NOT EXISTS loan_tracker_exchange_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  currency text NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  base_currency text NOT NULL CHECK (base_currency ~ '^[A-Z]{3}$'),
+  rate numeric(18,8) NOT NULL CHECK (rate > 0),
+  effective_date date NOT NULL DEFAULT current_date,
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT loan_tracker_exchange_rates_pair CHECK (currency <> base_currency),
+  CONSTRAINT loan_tracker_exchange_rates_unique UNIQUE (currency, base_currency, effective_date)
+);
@@ -0,0 +1,74 @@
+-- CSV import: bank exports rarely use our loan names ("SYNCHRONY BANK PYMT" for "Couch"),
+-- so a loan can carry aliases that the import matches case-insensitively. The
+-- import_history action commits a whole batch through import_loan_history.
+
+-- 1) Other names a loan shows up under in bank exports
+ALTER TABLE loan_tracker_loans
+  ADD COLUMN IF NOT EXISTS aliases text[] NOT NULL DEFAULT '{}';
+
+-- 2) One batch in one transaction: either every loan and payment is recorded or none is.
+--    p_loans:    [{ "ref": text, "name", "original_amount", "loan_date", "term_months", "loan_type",
+--                   "apr", "promo_end_date", "deferred_apr", "lender_id", "currency" }, ...]
+--    p_payments: [{ "loan_id": uuid | "loan_ref": text, "amount", "paid_by", "payment_date" }, ...]
+--    loan_ref points at a loan created by the same batch. Payments are applied oldest first so
+--    interest accrues between them as it would have (send them sorted to line the results up);
+--    an excess over the balance is kept as a credit (the money has already moved).
+CREATE OR REPLACE FUNCTION import_loan_history(
+  p_loans jsonb,
+  p_payments jsonb
+) RETURNS json AS $$
+DECLARE
+  v_item jsonb;
+  v_loan loan_tracker_loans%ROWTYPE;
+  v_refs jsonb := '{}';
+  v_loans json[] := '{}';
+  v_payments json[] := '{}';
+  v_loan_id uuid;
+BEGIN
+  FOR v_item IN SELECT value FROM jsonb_array_elements(COALESCE(p_loans, '[]')) LOOP
+    INSERT INTO loan_tracker_loans (
+      name, original_amount, current_balance, loan_type, term_months, loan_date,
+      apr, promo_end_date, deferred_apr, lender_id, currency
+    )
+    VALUES (
+      v_item->>'name',
+      (v_item->>'original_amount')::numeric,
+      (v_item->>'original_amount')::numeric,
+      COALESCE(v_item->>'loan_type', 'general'),
+      (v_item->>'term_months')::int,
+      (v_item->>'loan_date')::date,
+      COALESCE((v_item->>'apr')::numeric, 0),
+      (v_item->>'promo_end_date')::date,
+      (v_item->>'deferred_apr')::numeric,
+      (v_item->>'lender_id')::uuid,
+      COALESCE(v_item->>'currency', 'USD')
+    )
+    RETURNING * INTO v_loan;
+
+    v_refs := v_refs || jsonb_build_object(v_item->>'ref', v_loan.id);
+    v_loans := v_loans || row_to_json(v_loan);
+  END LOOP;
+
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_payments, '[]')) WITH ORDINALITY AS t(value, ord)
+    ORDER BY value->>'payment_date', ord
+  LOOP
+    v_loan_id := COALESCE((v_item->>'loan_id')::uuid, (v_refs->>(v_item->>'loan_ref'))::uuid);
+    IF v_loan_id IS NULL THEN
+      RAISE EXCEPTION 'import payment references unknown loan_ref %', v_item->>'loan_ref';
+    END IF;
+
+    v_payments := v_payments || record_loan_payment(
+      v_loan_id,
+      (v_item->>'amount')::numeric,
+      v_item->>'paid_by',
+      (v_item->>'payment_date')::date,
+      NULL,
+      NULL,
+      true
+    );
+  END LOOP;
+
+  RETURN json_build_object('loans', array_to_json(v_loans), 'payments', array_to_json(v_payments));
+END;
+$$ LANGUAGE plpgsql;
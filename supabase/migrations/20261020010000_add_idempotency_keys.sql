@@ -0,0 +1,221 @@
+-- Idempotency keys: a double click or a retry after a network error sends the same
+-- create_loan / add_payment twice. Clients attach an idempotency_key per user action; it is
+-- stored with the row, and a request repeating a key returns the original result instead of
+-- recording again. request_hash (computed by the Edge Function from the request's loan, amount,
+-- payer, date or split parts) is stored alongside, so a key reused for a different request is
+-- refused instead of answered with the first request's result.
+
+-- 1) Keys on the rows they created
+ALTER TABLE loan_tracker_loans
+  ADD COLUMN IF NOT EXISTS idempotency_key text,
+  ADD COLUMN IF NOT EXISTS request_hash text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS loan_tracker_loans_idempotency_key_idx
+  ON loan_tracker_loans (idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+ALTER TABLE loan_tracker_payments
+  ADD COLUMN IF NOT EXISTS idempotency_key text,
+  ADD COLUMN IF NOT EXISTS request_hash text;
+
+-- The parts of a split payment share their request's key; single payments never do
+CREATE INDEX IF NOT EXISTS loan_tracker_payments_idempotency_key_idx
+  ON loan_tracker_payments (idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS loan_tracker_payments_single_idempotency_key_idx
+  ON loan_tracker_payments (idempotency_key)
+  WHERE idempotency_key IS NOT NULL AND split_group_id IS NULL;
+
+-- 2) record_loan_payment: store the key, replay a repeated one
+DROP FUNCTION IF EXISTS record_loan_payment(uuid, numeric, text, date, uuid, uuid, boolean);
+
+CREATE OR REPLACE FUNCTION record_loan_payment(
+  p_loan_id uuid,
+  p_amount numeric,
+  p_paid_by text,
+  p_payment_date date,
+  p_split_group_id uuid DEFAULT NULL,
+  p_autopay_rule_id uuid DEFAULT NULL,
+  p_allow_overpayment boolean DEFAULT false,
+  p_idempotency_key text DEFAULT NULL,
+  p_request_hash text DEFAULT NULL
+) RETURNS json AS $$
+DECLARE
+  v_loan loan_tracker_loans%ROWTYPE;
+  v_payment loan_tracker_payments%ROWTYPE;
+  v_credit loan_tracker_credits%ROWTYPE;
+  v_since date;
+  v_interest numeric(12,2) := 0;
+  v_principal numeric(12,2);
+  v_excess numeric(12,2);
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'amount must be positive';
+  END IF;
+
+  -- A repeated request returns what the first one recorded (with the loan as it is now).
+  -- The lock makes a concurrent repeat wait for the first to commit, then find its row.
+  -- Split parts share the split's key; record_split_payment checks those.
+  IF p_idempotency_key IS NOT NULL AND p_split_group_id IS NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext('loan_tracker_payments:' || p_idempotency_key));
+
+    SELECT * INTO v_payment
+    FROM loan_tracker_payments
+    WHERE idempotency_key = p_idempotency_key
+    LIMIT 1;
+
+    IF FOUND THEN
+      -- Same key, different payment (or a split): a client bug, never a replay.
+      -- invalid_parameter_value (22023) lets the Edge Function answer 422.
+      IF v_payment.split_group_id IS NOT NULL OR v_payment.request_hash IS DISTINCT FROM p_request_hash THEN
+        RAISE EXCEPTION 'idempotency_key % was already used for a different payment', p_idempotency_key
+          USING ERRCODE = 'invalid_parameter_value';
+      END IF;
+
+      SELECT * INTO v_loan FROM loan_tracker_loans WHERE id = v_payment.loan_id;
+      SELECT * INTO v_credit FROM loan_tracker_credits WHERE payment_id = v_payment.id;
+      RETURN json_build_object(
+        'payment', row_to_json(v_payment),
+        'loan', row_to_json(v_loan),
+        'credit', CASE WHEN v_credit.id IS NOT NULL THEN row_to_json(v_credit) END,
+        'replayed', true
+      );
+    END IF;
+  END IF;
+
+  -- Serialize payments on the same loan
+  SELECT * INTO v_loan FROM loan_tracker_loans WHERE id = p_loan_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'loan % not found', p_loan_id;
+  END IF;
+
+  -- Interest accrues simply (APR / 365 per day) since the previous payment or loan_date.
+  -- Later parts of a split on the same loan and day see zero days, so interest is charged once.
+  IF COALESCE(v_loan.apr, 0) > 0 THEN
+    SELECT max(payment_date) INTO v_since
+    FROM loan_tracker_payments
+    WHERE loan_id = p_loan_id AND payment_date <= p_payment_date;
+
+    v_since := COALESCE(v_since, v_loan.loan_date);
+    v_interest := LEAST(
+      p_amount,
+      round(v_loan.current_balance * (v_loan.apr / 100 / 365) * GREATEST(0, p_payment_date - v_since), 2)
+    );
+  END IF;
+  v_principal := p_amount - v_interest;
+
+  -- More than is owed: the caller has to confirm, then the excess becomes a credit.
+  -- check_violation (23514) lets the Edge Function answer 409 with the numbers.
+  v_excess := GREATEST(0, v_principal - v_loan.current_balance);
+  IF v_excess > 0 AND NOT p_allow_overpayment THEN
+    RAISE EXCEPTION 'overpayment of % on "%": only % is owed', v_excess, v_loan.name, v_loan.current_balance + v_interest
+      USING ERRCODE = 'check_violation',
+            DETAIL = json_build_object(
+              'loan_id', v_loan.id,
+              'loan_name', v_loan.name,
+              'amount', p_amount,
+              'owed', v_loan.current_balance + v_interest,
+              'excess', v_excess
+            )::text;
+  END IF;
+  v_principal := v_principal - v_excess;
+
+  -- A second run for the same rule and date fails here (unique index) and rolls back
+  INSERT INTO loan_tracker_payments (
+    loan_id, amount, paid_by, payment_date, principal_amount, interest_amount, split_group_id, autopay_rule_id,
+    idempotency_key, request_hash
+  )
+  VALUES (
+    p_loan_id, p_amount, p_paid_by, p_payment_date, v_principal, v_interest, p_split_group_id, p_autopay_rule_id,
+    p_idempotency_key, p_request_hash
+  )
+  RETURNING * INTO v_payment;
+
+  IF v_excess > 0 THEN
+    INSERT INTO loan_tracker_credits (loan_id, payment_id, amount, paid_by, credit_date)
+    VALUES (p_loan_id, v_payment.id, v_excess, p_paid_by, p_payment_date)
+    RETURNING * INTO v_credit;
+  END IF;
+
+  UPDATE loan_tracker_loans
+  SET current_balance = GREATEST(0, current_balance - v_principal)
+  WHERE id = p_loan_id
+  RETURNING * INTO v_loan;
+
+  RETURN json_build_object(
+    'payment', row_to_json(v_payment),
+    'loan', row_to_json(v_loan),
+    'credit', CASE WHEN v_excess > 0 THEN row_to_json(v_credit) END,
+    'replayed', false
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- 3) record_split_payment: the same for a whole split
+DROP FUNCTION IF EXISTS record_split_payment(jsonb, date);
+
+CREATE OR REPLACE FUNCTION record_split_payment(
+  p_parts jsonb,
+  p_payment_date date,
+  p_idempotency_key text DEFAULT NULL,
+  p_request_hash text DEFAULT NULL
+) RETURNS json AS $$
+DECLARE
+  v_group uuid;
+  v_hash text;
+  v_part jsonb;
+  v_parts json[] := '{}';
+BEGIN
+  IF jsonb_typeof(p_parts) <> 'array' OR jsonb_array_length(p_parts) < 2 THEN
+    RAISE EXCEPTION 'a split payment needs at least two parts';
+  END IF;
+
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext('loan_tracker_payments:' || p_idempotency_key));
+
+    SELECT split_group_id, request_hash INTO v_group, v_hash
+    FROM loan_tracker_payments
+    WHERE idempotency_key = p_idempotency_key
+    LIMIT 1;
+
+    IF FOUND THEN
+      IF v_group IS NULL OR v_hash IS DISTINCT FROM p_request_hash THEN
+        RAISE EXCEPTION 'idempotency_key % was already used for a different payment', p_idempotency_key
+          USING ERRCODE = 'invalid_parameter_value';
+      END IF;
+
+      RETURN json_build_object(
+        'split_group_id', v_group,
+        'parts', (
+          SELECT json_agg(json_build_object('payment', row_to_json(p), 'loan', row_to_json(l)) ORDER BY p.loan_id, p.created_at)
+          FROM loan_tracker_payments p
+          JOIN loan_tracker_loans l ON l.id = p.loan_id
+          WHERE p.split_group_id = v_group
+        ),
+        'replayed', true
+      );
+    END IF;
+  END IF;
+
+  v_group := gen_random_uuid();
+  FOR v_part IN
+    SELECT value FROM jsonb_array_elements(p_parts) WITH ORDINALITY AS t(value, ord)
+    ORDER BY value->>'loan_id', ord
+  LOOP
+    v_parts := v_parts || record_loan_payment(
+      (v_part->>'loan_id')::uuid,
+      (v_part->>'amount')::numeric,
+      v_part->>'paid_by',
+      p_payment_date,
+      v_group,
+      NULL,
+      false,
+      p_idempotency_key,
+      p_request_hash
+    );
+  END LOOP;
+
+  RETURN json_build_object('split_group_id', v_group, 'parts', array_to_json(v_parts), 'replayed', false);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,132 @@
+-- Editing a payment's amount or date: update_payment used to patch the row and move the
+-- balance by the principal difference (clamped at zero), ignoring credits. Raising a payment
+-- past the balance lost the excess; lowering an overpaid one left its credit behind.
+-- update_loan_payment reverses the old row (its principal back on the balance, its credit
+-- removed) and re-records it with the same interest split and overpayment check as
+-- record_loan_payment, in one transaction.
+
+CREATE OR REPLACE FUNCTION update_loan_payment(
+  p_payment_id uuid,
+  p_amount numeric DEFAULT NULL,          -- NULL keeps the current value
+  p_paid_by text DEFAULT NULL,
+  p_payment_date date DEFAULT NULL,
+  p_allow_overpayment boolean DEFAULT false
+) RETURNS json AS $$
+DECLARE
+  v_prev loan_tracker_payments%ROWTYPE;
+  v_payment loan_tracker_payments%ROWTYPE;
+  v_loan loan_tracker_loans%ROWTYPE;
+  v_old_credit loan_tracker_credits%ROWTYPE;
+  v_credit loan_tracker_credits%ROWTYPE;
+  v_amount numeric(12,2);
+  v_paid_by text;
+  v_date date;
+  v_balance numeric(12,2);
+  v_since date;
+  v_interest numeric(12,2) := 0;
+  v_principal numeric(12,2);
+  v_excess numeric(12,2);
+BEGIN
+  SELECT * INTO v_prev FROM loan_tracker_payments WHERE id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'payment % not found', p_payment_id;
+  END IF;
+
+  v_amount := COALESCE(p_amount, v_prev.amount);
+  v_paid_by := COALESCE(p_paid_by, v_prev.paid_by);
+  v_date := COALESCE(p_payment_date, v_prev.payment_date);
+  IF v_amount <= 0 THEN
+    RAISE EXCEPTION 'amount must be positive';
+  END IF;
+
+  -- Serialize with other payments on the same loan
+  SELECT * INTO v_loan FROM loan_tracker_loans WHERE id = v_prev.loan_id FOR UPDATE;
+  SELECT * INTO v_old_credit FROM loan_tracker_credits WHERE payment_id = v_prev.id;
+
+  -- Only the payer changes: nothing to re-record
+  IF v_amount = v_prev.amount AND v_date = v_prev.payment_date THEN
+    UPDATE loan_tracker_payments SET paid_by = v_paid_by WHERE id = v_prev.id RETURNING * INTO v_payment;
+    UPDATE loan_tracker_credits SET paid_by = v_paid_by
+    WHERE payment_id = v_prev.id AND status = 'open'
+    RETURNING * INTO v_credit;
+    RETURN json_build_object(
+      'previous', row_to_json(v_prev),
+      'payment', row_to_json(v_payment),
+      'loan', row_to_json(v_loan),
+      'credit', CASE
+        WHEN v_credit.id IS NOT NULL THEN row_to_json(v_credit)
+        WHEN v_old_credit.id IS NOT NULL THEN row_to_json(v_old_credit) -- refunded: left as it was
+      END
+    );
+  END IF;
+
+  -- A refunded credit is money already handed back; the edit would have to undo that too
+  IF v_old_credit.status = 'refunded' THEN
+    RAISE EXCEPTION 'the % credit from this payment was already refunded', v_old_credit.amount
+      USING ERRCODE = 'restrict_violation';
+  END IF;
+
+  -- 1) Reverse the old row
+  v_balance := v_loan.current_balance + COALESCE(v_prev.principal_amount, v_prev.amount);
+  DELETE FROM loan_tracker_credits WHERE payment_id = v_prev.id;
+
+  -- 2) Re-record it. The same date keeps the interest charged at insert time; a new date
+  -- accrues it like record_loan_payment, since the previous other payment or loan_date.
+  IF v_date = v_prev.payment_date THEN
+    v_interest := LEAST(v_amount, COALESCE(v_prev.interest_amount, 0));
+  ELSIF COALESCE(v_loan.apr, 0) > 0 THEN
+    SELECT max(payment_date) INTO v_since
+    FROM loan_tracker_payments
+    WHERE loan_id = v_prev.loan_id AND id <> v_prev.id AND payment_date <= v_date;
+
+    v_since := COALESCE(v_since, v_loan.loan_date);
+    v_interest := LEAST(
+      v_amount,
+      round(v_balance * (v_loan.apr / 100 / 365) * GREATEST(0, v_date - v_since), 2)
+    );
+  END IF;
+  v_principal := v_amount - v_interest;
+
+  -- Same check and DETAIL as record_loan_payment (check_violation → 409 with the numbers)
+  v_excess := GREATEST(0, v_principal - v_balance);
+  IF v_excess > 0 AND NOT p_allow_overpayment THEN
+    RAISE EXCEPTION 'overpayment of % on "%": only % is owed', v_excess, v_loan.name, v_balance + v_interest
+      USING ERRCODE = 'check_violation',
+            DETAIL = json_build_object(
+              'loan_id', v_loan.id,
+              'loan_name', v_loan.name,
+              'amount', v_amount,
+              'owed', v_balance + v_interest,
+              'excess', v_excess
+            )::text;
+  END IF;
+  v_principal := v_principal - v_excess;
+
+  UPDATE loan_tracker_payments
+  SET amount = v_amount,
+      paid_by = v_paid_by,
+      payment_date = v_date,
+      principal_amount = v_principal,
+      interest_amount = v_interest
+  WHERE id = v_prev.id
+  RETURNING * INTO v_payment;
+
+  IF v_excess > 0 THEN
+    INSERT INTO loan_tracker_credits (loan_id, payment_id, amount, paid_by, credit_date)
+    VALUES (v_prev.loan_id, v_prev.id, v_excess, v_paid_by, v_date)
+    RETURNING * INTO v_credit;
+  END IF;
+
+  UPDATE loan_tracker_loans
+  SET current_balance = v_balance - v_principal
+  WHERE id = v_prev.loan_id
+  RETURNING * INTO v_loan;
+
+  RETURN json_build_object(
+    'previous', row_to_json(v_prev),
+    'payment', row_to_json(v_payment),
+    'loan', row_to_json(v_loan),
+    'credit', CASE WHEN v_excess > 0 THEN row_to_json(v_credit) END
+  );
+END;
+$$ LANGUAGE plpgsql;
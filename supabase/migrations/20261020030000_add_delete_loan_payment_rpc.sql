@@ -0,0 +1,43 @@
+-- Deleting a payment: delete_payment used to delete the row and then move the balance in a
+-- second call (decrement_loan_balance, or a clamped read+update fallback). A failure in between
+-- left the ledger and current_balance apart, and concurrent deletes could lose an update.
+-- delete_loan_payment deletes the row, drops its credit and restores its principal in one
+-- transaction, holding a row lock on the loan like record_loan_payment.
+
+CREATE OR REPLACE FUNCTION delete_loan_payment(p_payment_id uuid) RETURNS json AS $$
+DECLARE
+  v_payment loan_tracker_payments%ROWTYPE;
+  v_loan loan_tracker_loans%ROWTYPE;
+  v_credit loan_tracker_credits%ROWTYPE;
+BEGIN
+  SELECT * INTO v_payment FROM loan_tracker_payments WHERE id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'payment % not found', p_payment_id;
+  END IF;
+
+  -- Serialize with other payments on the same loan
+  SELECT * INTO v_loan FROM loan_tracker_loans WHERE id = v_payment.loan_id FOR UPDATE;
+  SELECT * INTO v_credit FROM loan_tracker_credits WHERE payment_id = v_payment.id;
+
+  -- A refunded credit is money already handed back; deleting the payment would lose that record
+  IF v_credit.status = 'refunded' THEN
+    RAISE EXCEPTION 'the % credit from this payment was already refunded', v_credit.amount
+      USING ERRCODE = 'restrict_violation';
+  END IF;
+
+  -- The open credit goes with the row (ON DELETE CASCADE). Only the principal was taken off
+  -- the balance, so only the principal goes back on.
+  DELETE FROM loan_tracker_payments WHERE id = v_payment.id;
+
+  UPDATE loan_tracker_loans
+  SET current_balance = current_balance + COALESCE(v_payment.principal_amount, v_payment.amount)
+  WHERE id = v_payment.loan_id
+  RETURNING * INTO v_loan;
+
+  RETURN json_build_object(
+    'payment', row_to_json(v_payment),
+    'loan', row_to_json(v_loan),
+    'credit', CASE WHEN v_credit.id IS NOT NULL THEN row_to_json(v_credit) END
+  );
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,38 @@
+-- Recording an adjustment: add_adjustment used to insert the row and then move the balance in
+-- a second call (decrement_loan_balance, or a read+update fallback). A failure in between left
+-- the adjustment off the balance, and the fallback's clamp at zero could drop part of a
+-- negative adjustment, so current_balance no longer matched the ledger.
+-- record_loan_adjustment inserts the row and rewrites current_balance from the ledger
+-- (loan_tracker_ledger_balances) in one transaction, holding a row lock on the loan.
+
+CREATE OR REPLACE FUNCTION record_loan_adjustment(
+  p_loan_id uuid,
+  p_amount numeric,
+  p_reason text,
+  p_adjustment_date date
+) RETURNS json AS $$
+DECLARE
+  v_loan loan_tracker_loans%ROWTYPE;
+  v_adjustment loan_tracker_adjustments%ROWTYPE;
+BEGIN
+  -- Serialize with payments on the same loan
+  SELECT * INTO v_loan FROM loan_tracker_loans WHERE id = p_loan_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'loan % not found', p_loan_id;
+  END IF;
+
+  INSERT INTO loan_tracker_adjustments (loan_id, amount, reason, adjustment_date)
+  VALUES (p_loan_id, p_amount, p_reason, p_adjustment_date)
+  RETURNING * INTO v_adjustment;
+
+  UPDATE loan_tracker_loans
+  SET current_balance = (SELECT derived_balance FROM loan_tracker_ledger_balances WHERE loan_id = p_loan_id)
+  WHERE id = p_loan_id
+  RETURNING * INTO v_loan;
+
+  RETURN json_build_object(
+    'adjustment', row_to_json(v_adjustment),
+    'loan', row_to_json(v_loan)
+  );
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,21 @@
+-- Purging a loan: purge_loan used to delete the loan's payments and then the loan in two
+-- calls. If the second failed, the loan was left without its history, and a hard delete
+-- can't be undone. purge_loan_with_history does both in one transaction; the loan's
+-- adjustments, credits and autopay rules cascade with the loan row.
+
+CREATE OR REPLACE FUNCTION purge_loan_with_history(p_loan_id uuid) RETURNS json AS $$
+DECLARE
+  v_loan loan_tracker_loans%ROWTYPE;
+BEGIN
+  -- Serialize with payments on the same loan
+  SELECT * INTO v_loan FROM loan_tracker_loans WHERE id = p_loan_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'loan % not found', p_loan_id;
+  END IF;
+
+  DELETE FROM loan_tracker_payments WHERE loan_id = p_loan_id;
+  DELETE FROM loan_tracker_loans WHERE id = p_loan_id;
+
+  RETURN json_build_object('loan_id', v_loan.id, 'name', v_loan.name);
+END;
+$$ LANGUAGE plpgsql;
@@ -1,7 +1,7 @@
 import { spawn } from 'child_process';
 
 // Start the MCP server
-const server = spawn('npm', ['run', 'start'], { 
+const server = spawn('npm', ['run', '--silent', 'mcp'], { 
   stdio: ['pipe', 'pipe', 'inherit'],
   shell: true 
 });
@@ -1,6 +1,6 @@
 import { spawn } from 'child_process';
 
-const server = spawn('npm', ['run', 'start'], { 
+const server = spawn('npm', ['run', '--silent', 'mcp'], { 
   stdio: ['pipe', 'pipe', 'inherit'],
   shell: true 
 });
@@ -17,7 +17,8 @@ const messages = [
         name: 'New Dining Table',
         original_amount: 2000,
         loan_type: 'furniture',
-        term_months: 18
+        term_months: 18,
+        loan_date: '2024-08-23'
       }
     }
   },
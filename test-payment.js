@@ -1,6 +1,6 @@
 import { spawn } from 'child_process';
 
-const server = spawn('npm', ['run', 'start'], { 
+const server = spawn('npm', ['run', '--silent', 'mcp'], { 
   stdio: ['pipe', 'pipe', 'inherit'],
   shell: true 
 });